@@ -1,8 +1,11 @@
 import './index.css'
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import type { ZohoPageLoadData } from './types/zoho'
+import type { Deal } from './types/deal'
 import ContractProduct from './components/ContractProduct'
-import Toast from './components/Toast'
+import Toast, { type ToastAction } from './components/Toast'
+import DebugPanel from './components/DebugPanel'
+import { dealFromPageLoad } from './utils/zohoApi'
 
 interface AppProps {
   data: ZohoPageLoadData
@@ -13,10 +16,22 @@ interface ToastState {
   isVisible: boolean
   message: string
   type: 'success' | 'error' | 'info'
+  hint?: string
+  action?: ToastAction
 }
 
 const App = ({ data }: AppProps) => {
   const [showRawData, setShowRawData] = useState(false)
+  // Deal fields saved from the widget since PageLoad (the PageLoad payload is not refreshed)
+  const [savedDealFields, setSavedDealFields] = useState<Partial<Deal>>({})
+  const deal = useMemo(
+    () => ({ ...dealFromPageLoad(data.data), ...savedDealFields }),
+    [data.data, savedDealFields]
+  )
+
+  const handleDealFieldsSaved = useCallback((changes: Partial<Deal>) => {
+    setSavedDealFields(prev => ({ ...prev, ...changes }))
+  }, [])
   
   // Toast state management at App level
   const [toast, setToast] = useState<ToastState>({
@@ -26,11 +41,13 @@ const App = ({ data }: AppProps) => {
   })
 
   // Toast utility functions
-  const showToast = useCallback((message: string, type: 'success' | 'error' | 'info') => {
+  const showToast = useCallback((message: string, type: 'success' | 'error' | 'info', hint?: string, action?: ToastAction) => {
     setToast({
       isVisible: true,
       message,
-      type
+      type,
+      hint,
+      action
     })
   }, [])
 
@@ -43,8 +60,9 @@ const App = ({ data }: AppProps) => {
       <div className="bg-white rounded-lg shadow-sm">
         {/* Contract Product Management */}
         <ContractProduct 
-          dealData={data.data}
+          deal={deal}
           showToast={showToast}
+          onDealFieldsSaved={handleDealFieldsSaved}
         />
 
         {/* Debug Section */}
@@ -60,7 +78,7 @@ const App = ({ data }: AppProps) => {
             >
               <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
             </svg>
-            <span>{showRawData ? 'Hide' : 'Show'} Raw Data</span>
+            <span>{showRawData ? 'Hide' : 'Show'} Debug Data</span>
           </button>
           
           {showRawData && (
@@ -73,6 +91,8 @@ const App = ({ data }: AppProps) => {
               </pre>
             </div>
           )}
+
+          {showRawData && <DebugPanel />}
         </div>
       </div>
       
@@ -80,6 +100,8 @@ const App = ({ data }: AppProps) => {
       <Toast
         message={toast.message}
         type={toast.type}
+        hint={toast.hint}
+        action={toast.action}
         isVisible={toast.isVisible}
         onClose={hideToast}
       />
@@ -1,62 +1,139 @@
-import type { ZohoDealData, ZohoProductSubform } from '../types/zoho'
-import { validateRequiredFieldsForPMRequest } from '../utils/validation/pmRequestValidation'
+import { useState } from 'react'
+import type { ZohoProductSubform } from '../types/zoho'
+import type { Deal } from '../types/deal'
+import { useCurrentUser } from '../hooks/contractHooks'
+import MissingFieldsForm from './MissingFieldsForm'
+import {
+  buildAddresses,
+  buildPMAssignmentInput,
+  calculateContractMRC,
+  canOverrideValidation,
+  getRequestTypeRule,
+  isOverridableIssue,
+  partitionValidationIssues,
+  PM_REQUEST_EXPORT_FORMATS,
+  resolvePMAssignment,
+  validatePMRequest,
+  type PMRequestExportFormat,
+  type PMRequestType,
+  type ValidationIssue,
+  type ValidationOverride
+} from '../utils/zohoApi'
 
 interface ActionButtonsProps {
   isUpdating: boolean
   isPMRequestPending: boolean
   hasContractProduct: boolean
-  dealData: ZohoDealData
+  // Contract and Upgrade need a contract product; Move, Disconnect and MAC do not
+  requestType: PMRequestType
+  deal: Deal
   contractProduct: ZohoProductSubform | null
+  // All product rows, for the MRC check
+  products: ZohoProductSubform[]
+  // Phone of the PM Request contact (undefined while the contact is not known)
+  contactPhone: string | undefined
   onCloseAndClear: () => void
-  onGeneratePMRequest: () => void
+  // Called after missing required fields were saved to the Deal from the inline form
+  onDealFieldsSaved: (changes: Partial<Deal>) => void
+  // Receives the required field override when an authorized user bypassed missing fields
+  onGeneratePMRequest: (override: ValidationOverride | null) => void
+  // Downloads the PM Request package (same data as Generate) in the chosen format
+  onExportPMRequest: (format: PMRequestExportFormat, override: ValidationOverride | null) => void
 }
 
-// Comprehensive validation function that includes product-specific rules
-const validateRequiredFields = (dealData: ZohoDealData, contractProduct: ZohoProductSubform | null) => {
-  if (!contractProduct) {
+// Comprehensive validation function that includes product-specific rules and warnings
+const validateForPMRequest = (
+  deal: Deal,
+  contractProduct: ZohoProductSubform | null,
+  products: ZohoProductSubform[],
+  contactPhone: string | undefined,
+  requestType: PMRequestType
+): { errors: ValidationIssue[]; warnings: ValidationIssue[] } => {
+  if (!contractProduct && getRequestTypeRule(requestType).requiresContractProduct) {
     return {
-      isValid: false,
-      missingFields: ['No contract product selected'],
-      requiredFields: []
+      errors: [{ severity: 'error', code: 'NO_CONTRACT_PRODUCT', message: 'No contract product selected', field: null }],
+      warnings: []
     }
   }
-  const productType = contractProduct.Product_Type || ''
-  const term = contractProduct.Terms || ''
+  const productType = contractProduct?.Product_Type || ''
+  const term = contractProduct?.Terms || ''
   
   console.log('🔍 ActionButtons Validation - Product Details:', {
+    requestType,
     productType,
     term,
-    productName: contractProduct.Products?.name
+    productName: contractProduct?.Products?.name
   })
 
-  // Use the comprehensive validation function
-  const missingFields = validateRequiredFieldsForPMRequest(productType, term, dealData)
+  const result = partitionValidationIssues(validatePMRequest({
+    productType,
+    term,
+    deal,
+    requestType,
+    contactPhone,
+    addresses: buildAddresses(deal),
+    mrcTotal: contractProduct ? calculateContractMRC(products) : undefined
+  }))
   
   console.log('📊 ActionButtons Validation Result:', {
-    missingFieldsCount: missingFields.length,
-    missingFields,
-    isValid: missingFields.length === 0
+    errorCount: result.errors.length,
+    warningCount: result.warnings.length,
+    isValid: result.errors.length === 0
   })
   
-  return {
-    isValid: missingFields.length === 0,
-    missingFields,
-    requiredFields: [] // This could be enhanced to show all required fields
-  }
+  return result
 }
 
 export default function ActionButtons({
   isUpdating,
   isPMRequestPending,
   hasContractProduct,
-  dealData,
+  requestType,
+  deal,
   contractProduct,
+  products,
+  contactPhone,
   onCloseAndClear,
-  onGeneratePMRequest
+  onDealFieldsSaved,
+  onGeneratePMRequest,
+  onExportPMRequest
 }: ActionButtonsProps) {
   
-  const validation = validateRequiredFields(dealData, contractProduct)
-  const canGeneratePMRequest = hasContractProduct && validation.isValid
+  const requestTypeRule = getRequestTypeRule(requestType)
+  // Whether there is something to build a request from (a contract product, unless the type needs none)
+  const canBuildRequest = hasContractProduct || !requestTypeRule.requiresContractProduct
+  const { errors, warnings } = validateForPMRequest(deal, contractProduct, products, contactPhone, requestType)
+  // Authorized users may override some missing required fields by giving a reason
+  const currentUser = useCurrentUser()
+  const canOverride = canOverrideValidation(currentUser)
+  const [overrideFields, setOverrideFields] = useState<string[]>([])
+  const [overrideReason, setOverrideReason] = useState('')
+  const overridableErrors = canOverride ? errors.filter(issue => isOverridableIssue(issue)) : []
+  const overriddenErrors = overrideReason.trim()
+    ? overridableErrors.filter(issue => overrideFields.includes(issue.field ?? ''))
+    : []
+  const blockingErrors = errors.filter(issue => !overriddenErrors.includes(issue))
+  const canGeneratePMRequest = canBuildRequest && blockingErrors.length === 0
+  // Acknowledgement is tied to the current set of warnings, so a new warning needs a new acknowledgement
+  const [acknowledgedWarningKey, setAcknowledgedWarningKey] = useState<string | null>(null)
+  const warningKey = warnings.map(warning => warning.code).join(',')
+  const needsAcknowledgement = warnings.length > 0 && acknowledgedWarningKey !== warningKey
+
+  const toggleOverrideField = (field: string, checked: boolean) => {
+    setOverrideFields(current => checked ? [...current, field] : current.filter(candidate => candidate !== field))
+  }
+
+  const currentOverride = (): ValidationOverride | null => overriddenErrors.length > 0
+    ? { fields: overriddenErrors.map(issue => issue.field ?? ''), reason: overrideReason.trim() }
+    : null
+
+  const handleGenerate = () => {
+    onGeneratePMRequest(currentOverride())
+  }
+  // Rule preview only - a round-robin PM is picked from the CRM when the request is prepared
+  const assignment = canBuildRequest
+    ? resolvePMAssignment(buildPMAssignmentInput(deal, contractProduct?.Product_Type || '', contractProduct?.Vendor || ''))
+    : null
 
   return (
     <div className="space-y-4">
@@ -67,8 +144,8 @@ export default function ActionButtons({
         </div>
         
         <div className="px-6 py-4 space-y-4">
-          {hasContractProduct ? (
-            /* Two-column layout when contract product is selected */
+          {canBuildRequest ? (
+            /* Two-column layout when a request can be built */
             <div className="grid grid-cols-2 gap-4">
               {/* PM Request Generation Button */}
               <div className={`flex items-center justify-between p-4 rounded-lg border ${
@@ -92,14 +169,20 @@ export default function ActionButtons({
                     <h4 className={`text-sm font-medium ${
                       canGeneratePMRequest ? 'text-emerald-900' : 'text-gray-600'
                     }`}>
-                      Generate PM Request
+                      Generate {requestTypeRule.label} PM Request
                     </h4>
                     <p className={`text-xs ${
                       canGeneratePMRequest ? 'text-emerald-700' : 'text-gray-500'
                     }`}>
-                      {canGeneratePMRequest 
-                        ? 'Create a PM Request for the selected contract product'
-                        : 'Missing required fields'
+                      {!canGeneratePMRequest
+                        ? 'Missing required fields'
+                        : needsAcknowledgement
+                          ? 'Review the warnings below before generating'
+                          : overriddenErrors.length > 0
+                            ? `Create with ${overriddenErrors.length} overridden required field(s)`
+                            : requestTypeRule.requiresContractProduct
+                              ? `Create a ${requestTypeRule.label} PM Request for the selected contract product`
+                              : `Create a ${requestTypeRule.label} PM Request for this deal`
                       }
                     </p>
                   </div>
@@ -108,10 +191,10 @@ export default function ActionButtons({
                 {canGeneratePMRequest ? (
                   <button
                     type="button"
-                    onClick={onGeneratePMRequest}
-                    disabled={isUpdating || isPMRequestPending}
+                    onClick={handleGenerate}
+                    disabled={isUpdating || isPMRequestPending || needsAcknowledgement}
                     className={`btn-primary ${
-                      isUpdating || isPMRequestPending ? 'opacity-50 cursor-not-allowed' : ''
+                      isUpdating || isPMRequestPending || needsAcknowledgement ? 'opacity-50 cursor-not-allowed' : ''
                     }`}
                   >
                     {isUpdating || isPMRequestPending ? (
@@ -127,7 +210,7 @@ export default function ActionButtons({
                         <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
                         </svg>
-                        Generate Request
+                        Preview Request
                       </>
                     )}
                   </button>
@@ -135,12 +218,12 @@ export default function ActionButtons({
                   <div className="text-right">
                     <div className="text-xs text-gray-500 mb-1">Required fields missing:</div>
                     <div className="space-y-1">
-                      {validation.missingFields.map((field) => (
-                        <div key={field} className="flex items-center text-xs text-red-600">
+                      {blockingErrors.map((issue) => (
+                        <div key={`${issue.code}-${issue.field}`} className="flex items-center text-xs text-red-600">
                           <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
                             <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
                           </svg>
-                          {field}
+                          {issue.message}
                         </div>
                       ))}
                     </div>
@@ -233,10 +316,44 @@ export default function ActionButtons({
               </button>
             </div>
           )}
+
+          {/* Export the PM Request package for carriers that want an emailed order summary */}
+          {canGeneratePMRequest && (
+            <div className="flex items-center justify-end space-x-2">
+              <span className="text-xs text-gray-500">Export order summary:</span>
+              {(Object.keys(PM_REQUEST_EXPORT_FORMATS) as PMRequestExportFormat[]).map(format => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => onExportPMRequest(format, currentOverride())}
+                  disabled={isUpdating || isPMRequestPending}
+                  className={`px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 ${
+                    isUpdating || isPMRequestPending ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {PM_REQUEST_EXPORT_FORMATS[format].label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
+        {/* PM Assignment Preview */}
+        {canBuildRequest && assignment && (
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-sm">
+              <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+              <span className="text-gray-600">Assigned PM:</span>
+              <span className="font-medium text-gray-900">{assignment.pm || 'Next PM in the rotation'}</span>
+            </div>
+            <span className="text-xs text-gray-500">{assignment.reason}</span>
+          </div>
+        )}
+
         {/* Required Fields Validation Notice */}
-        {hasContractProduct && !validation.isValid && (
+        {canBuildRequest && errors.length > 0 && (
           <div className="px-6 py-4 border-t border-gray-200 bg-amber-50">
             <div className="flex items-start space-x-3">
               <svg className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
@@ -245,16 +362,91 @@ export default function ActionButtons({
               <div>
                 <h4 className="text-sm font-medium text-amber-900">Required Fields Missing</h4>
                 <p className="text-sm text-amber-700 mt-1">
-                  Please ensure the following fields are filled in the deal record before generating a PM Request:
+                  Fill in the following fields to generate a PM Request:
+                </p>
+                {errors.some(issue => issue.code !== 'MISSING_REQUIRED_FIELD') && (
+                  <ul className="mt-2 space-y-1">
+                    {errors.filter(issue => issue.code !== 'MISSING_REQUIRED_FIELD').map((issue) => (
+                      <li key={`${issue.code}-${issue.field}`} className="text-sm text-amber-700 flex items-center">
+                        <span className="w-1.5 h-1.5 bg-amber-500 rounded-full mr-2"></span>
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <MissingFieldsForm
+                  dealId={deal.id}
+                  issues={errors}
+                  overriddenFields={overriddenErrors.map(issue => issue.field ?? '')}
+                  disabled={isUpdating || isPMRequestPending}
+                  onSaved={onDealFieldsSaved}
+                />
+
+                {/* Required field override (authorized users only) */}
+                {overridableErrors.length > 0 && (
+                  <fieldset
+                    disabled={isUpdating || isPMRequestPending}
+                    className="mt-4 p-3 rounded-lg border border-amber-300 bg-white space-y-2"
+                  >
+                    <legend className="px-1 text-xs font-semibold text-amber-900">
+                      Override as {currentUser?.name || 'administrator'}
+                    </legend>
+                    <p className="text-xs text-gray-600">
+                      Create the PM Request without these fields. The reason is recorded on the PM Request.
+                    </p>
+                    {overridableErrors.map((issue) => (
+                      <label key={`override-${issue.field}`} className="flex items-center space-x-2 text-sm text-gray-800">
+                        <input
+                          type="checkbox"
+                          checked={overrideFields.includes(issue.field ?? '')}
+                          onChange={(e) => toggleOverrideField(issue.field ?? '', e.target.checked)}
+                        />
+                        <span>{issue.message}</span>
+                      </label>
+                    ))}
+                    <textarea
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                      placeholder="Reason (e.g. PM agreed to start before the Circuit ID is assigned)"
+                      rows={2}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                    />
+                  </fieldset>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Warnings - do not block the request once acknowledged */}
+        {canBuildRequest && warnings.length > 0 && (
+          <div className="px-6 py-4 border-t border-gray-200 bg-yellow-50">
+            <div className="flex items-start space-x-3">
+              <svg className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+              </svg>
+              <div>
+                <h4 className="text-sm font-medium text-yellow-900">Warnings</h4>
+                <p className="text-sm text-yellow-700 mt-1">
+                  The PM Request can still be created, but please check:
                 </p>
                 <ul className="mt-2 space-y-1">
-                  {validation.missingFields.map((field) => (
-                    <li key={field} className="text-sm text-amber-700 flex items-center">
-                      <span className="w-1.5 h-1.5 bg-amber-500 rounded-full mr-2"></span>
-                      {field}
+                  {warnings.map((issue) => (
+                    <li key={issue.code} className="text-sm text-yellow-800 flex items-center">
+                      <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full mr-2"></span>
+                      {issue.message}
                     </li>
                   ))}
                 </ul>
+                <label className="mt-3 flex items-center space-x-2 text-sm text-yellow-900">
+                  <input
+                    type="checkbox"
+                    checked={!needsAcknowledgement}
+                    disabled={isUpdating || isPMRequestPending}
+                    onChange={(e) => setAcknowledgedWarningKey(e.target.checked ? warningKey : null)}
+                  />
+                  <span>I have reviewed these warnings</span>
+                </label>
               </div>
             </div>
           </div>
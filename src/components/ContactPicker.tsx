@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react'
+import type { Deal } from '../types/deal'
+import {
+  fetchContactCandidates,
+  getContactSourceLabel,
+  getZohoClient,
+  validateEmailFormat,
+  type ContactCandidate,
+  type ContactCandidates,
+  type ContactSelection,
+  type PMRequestType
+} from '../utils/zohoApi'
+
+interface ContactPickerProps {
+  deal: Deal
+  // Request type and contract product type select the Contact Role priority list
+  requestType: PMRequestType
+  productType: string
+  // null keeps the automatic primary contact lookup
+  value: ContactSelection | null
+  onChange: (selection: ContactSelection | null) => void
+  // Reports the phone of the contact that will go on the PM Request (undefined while unknown)
+  onContactPhoneChange?: (phone: string | undefined) => void
+  disabled: boolean
+}
+
+const AUTOMATIC_OPTION = 'automatic'
+const MANUAL_OPTION = 'manual'
+
+const toSelection = (candidate: ContactCandidate): ContactSelection => ({
+  id: candidate.contactId,
+  name: candidate.name,
+  email: candidate.email,
+  phone: candidate.phone
+})
+
+export default function ContactPicker({
+  deal,
+  requestType,
+  productType,
+  value,
+  onChange,
+  onContactPhoneChange,
+  disabled
+}: ContactPickerProps) {
+  const [candidates, setCandidates] = useState<ContactCandidates | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isCancelled = false
+
+    const loadCandidates = async () => {
+      try {
+        const result = await fetchContactCandidates(deal, getZohoClient(), { requestType, productType })
+        if (!isCancelled) {
+          setCandidates(result)
+          setLoadError(null)
+        }
+      } catch (error) {
+        console.error('❌ Failed to load contact candidates:', error)
+        if (!isCancelled) {
+          setLoadError('Could not load contacts. The primary contact will be looked up automatically.')
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false)
+        }
+      }
+    }
+
+    loadCandidates()
+    return () => {
+      isCancelled = true
+    }
+  }, [deal, requestType, productType])
+
+  const autoCandidate = candidates?.candidates.find(candidate => candidate.contactId === candidates.autoSelectedId) || null
+  const effective: ContactSelection = value ?? (autoCandidate
+    ? toSelection(autoCandidate)
+    : { id: null, name: '', email: '', phone: '' })
+  const selectedOption = value === null ? AUTOMATIC_OPTION : value.id ?? MANUAL_OPTION
+  const hasInvalidEmail = !!effective.email.trim() && !validateEmailFormat(effective.email.trim())
+  // Without loaded candidates the automatic contact is only known once the request is generated
+  const contactPhone = value !== null || candidates ? effective.phone : undefined
+
+  useEffect(() => {
+    onContactPhoneChange?.(contactPhone)
+  }, [contactPhone, onContactPhoneChange])
+
+  // Editing the email or phone turns the automatic pick into an explicit selection
+  const handleFieldChange = (field: 'email' | 'phone', fieldValue: string) => {
+    onChange({ ...effective, [field]: fieldValue })
+  }
+
+  return (
+    <div className="modern-card">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">PM Request Contact</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Choose who goes on the PM Request as Contact Person
+          </p>
+        </div>
+        {isLoading && (
+          <span className="text-xs text-gray-500">Loading contacts...</span>
+        )}
+      </div>
+
+      <div className="px-6 py-4 space-y-3">
+        {loadError && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">{loadError}</p>
+        )}
+
+        {candidates && candidates.failedSources.length > 0 && (
+          <p className="text-xs text-amber-700">
+            Could not load: {candidates.failedSources.map(getContactSourceLabel).join(', ')}. The list may be incomplete.
+          </p>
+        )}
+
+        <fieldset disabled={disabled} className="space-y-2">
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+            <input
+              type="radio"
+              name="pm-request-contact"
+              className="mt-1"
+              checked={selectedOption === AUTOMATIC_OPTION}
+              onChange={() => onChange(null)}
+            />
+            <div>
+              <div className="text-sm font-medium text-gray-900">
+                Automatic{autoCandidate ? `: ${autoCandidate.name || autoCandidate.contactId}` : ''}
+              </div>
+              <div className="text-xs text-gray-500">
+                {candidates
+                  ? `Picked by: ${candidates.autoSelectionMethod}`
+                  : 'Primary contact is looked up when the request is generated'}
+              </div>
+            </div>
+          </label>
+
+          {candidates?.candidates.map(candidate => (
+            <label
+              key={candidate.contactId}
+              className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type="radio"
+                name="pm-request-contact"
+                className="mt-1"
+                checked={selectedOption === candidate.contactId}
+                onChange={() => onChange(toSelection(candidate))}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-1">
+                  <span className="text-sm font-medium text-gray-900">{candidate.name || 'Unnamed contact'}</span>
+                  {/* The role the priority picks first, then the contact's other roles */}
+                  {candidate.roleName && (
+                    <span className="px-1.5 py-0.5 text-xs rounded bg-blue-100 text-blue-700">{candidate.roleName}</span>
+                  )}
+                  {candidate.roleNames.filter(roleName => roleName !== candidate.roleName).map(roleName => (
+                    <span key={roleName} className="px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">{roleName}</span>
+                  ))}
+                  {candidate.contactId === candidates.autoSelectedId && (
+                    <span className="px-1.5 py-0.5 text-xs rounded bg-emerald-100 text-emerald-700">Automatic pick</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600 truncate">
+                  {[candidate.email || 'No email', candidate.phone || 'No phone'].join(' · ')}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {candidate.sources.map(getContactSourceLabel).join(', ')}
+                </div>
+              </div>
+            </label>
+          ))}
+
+          <label className="flex items-start space-x-3 p-3 rounded-lg border border-gray-200 cursor-pointer hover:bg-gray-50">
+            <input
+              type="radio"
+              name="pm-request-contact"
+              className="mt-1"
+              checked={selectedOption === MANUAL_OPTION}
+              onChange={() => onChange({ id: null, name: '', email: '', phone: '' })}
+            />
+            <div>
+              <div className="text-sm font-medium text-gray-900">No CRM contact</div>
+              <div className="text-xs text-gray-500">Leave Contact Person empty and enter the email and phone below</div>
+            </div>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3 pt-2">
+            <div>
+              <label htmlFor="pm-request-contact-email" className="block text-xs font-medium text-gray-700 mb-1">
+                Email
+              </label>
+              <input
+                id="pm-request-contact-email"
+                type="email"
+                value={effective.email}
+                onChange={(e) => handleFieldChange('email', e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="pm-request-contact-phone" className="block text-xs font-medium text-gray-700 mb-1">
+                Phone
+              </label>
+              <input
+                id="pm-request-contact-phone"
+                type="tel"
+                value={effective.phone}
+                onChange={(e) => handleFieldChange('phone', e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </div>
+          </div>
+
+          {hasInvalidEmail && (
+            <p className="text-xs text-red-600">
+              This email is not valid and will be left empty on the PM Request.
+            </p>
+          )}
+        </fieldset>
+
+        {candidates && candidates.rolePriority.length > 0 && (
+          <p className="text-xs text-gray-400">
+            Contact Role priority: {candidates.rolePriority.join(' › ')}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -8,7 +8,8 @@ import {
   useCallback,
   useTransition
 } from 'react'
-import type { ZohoDealData, ZohoProductSubform } from '../types/zoho'
+import type { ZohoProductSubform } from '../types/zoho'
+import type { Deal } from '../types/deal'
 import { ContractProvider } from '../contexts/ContractProvider'
 import {
   productSelectionAction, 
@@ -17,24 +18,61 @@ import {
   type ContractActionState 
 } from '../hooks/contractActions'
 import { useContractCleanup } from '../hooks/contractHooks'
+import {
+  getZohoClient,
+  getZohoErrorTitle,
+  getZohoErrorHint,
+  getProductName,
+  getProductGroups,
+  openRecord,
+  downloadFile,
+  exportPMRequest,
+  preparePMRequest,
+  toZohoApiError,
+  type ContactSelection,
+  getRequestTypeRule,
+  suggestRequestType,
+  type ExistingPMRequestAction,
+  type PMRequestExportFormat,
+  type PMRequestPreview,
+  type PMRequestType,
+  type ValidationOverride
+} from '../utils/zohoApi'
 import DealHeader from './DealHeader'
 import LoadingState from './LoadingState'
 import ErrorState from './ErrorState'
 import ProductFilters from './ProductFilters'
 import ProductList from './ProductList'
 import ActionButtons from './ActionButtons'
+import ContactPicker from './ContactPicker'
+import RequestTypeSelector from './RequestTypeSelector'
+import PMRequestPreviewPanel from './PMRequestPreviewPanel'
+import PMRequestHistoryPanel from './PMRequestHistoryPanel'
+import PMRequestBatchPanel from './PMRequestBatchPanel'
+import DescriptionPreview from './DescriptionPreview'
+import type { ToastAction } from './Toast'
 
 interface ContractProductProps {
-  dealData: ZohoDealData
-  showToast: (message: string, type: 'success' | 'error' | 'info') => void
+  deal: Deal
+  showToast: (message: string, type: 'success' | 'error' | 'info', hint?: string, action?: ToastAction) => void
+  // Merges Deal fields saved from the widget into the deal (PageLoad data is not refreshed)
+  onDealFieldsSaved: (changes: Partial<Deal>) => void
+}
+
+// Dry run with the contract row and deal it was built from
+interface PreparedPMRequest {
+  preview: PMRequestPreview
+  contractRowId: string
+  deal: Deal
 }
 
-export default function ContractProduct({ dealData, showToast }: ContractProductProps) {
+export default function ContractProduct({ deal, showToast, onDealFieldsSaved }: ContractProductProps) {
   // Initialize action state with React 19's useActionState
   const initialState: ContractActionState = {
-    products: dealData.Subform_1 || [],
+    products: deal.products,
     lastUpdatedProduct: null,
     error: null,
+    errorDetails: null,
     success: null,
     isAutoSelectionApplied: false
   }
@@ -45,25 +83,88 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
 
   // Add dedicated useTransition for PM Request generation with React 19 patterns
   const [isPMRequestPending, startPMRequestTransition] = useTransition()
+  // Dry run shown for confirmation before the PM Request is inserted
+  const [isPreviewPending, startPreviewTransition] = useTransition()
+  const [preparedPMRequest, setPreparedPMRequest] = useState<PreparedPMRequest | null>(null)
 
   // Use React 19's useOptimistic for optimistic UI updates
   const [optimisticProducts, addOptimisticUpdate] = useOptimistic(
     state.products,
-    (currentProducts: ZohoProductSubform[], optimisticValue: { productIndex: number; isContract: boolean }) => {
-      return currentProducts.map((product, index) => ({
+    (currentProducts: ZohoProductSubform[], optimisticValue: { rowId: string; isContract: boolean }) => {
+      return currentProducts.map(product => ({
         ...product,
-        Is_Contract: index === optimisticValue.productIndex ? optimisticValue.isContract : false
+        Is_Contract: product.id === optimisticValue.rowId ? optimisticValue.isContract : false
       }))
     }
-  )  // Local state for search and filter - using useState instead of refs for proper reactivity
+  )
+  // Subform row id of the contract product ('' when none is selected)
+  const contractRowId = optimisticProducts.find(product => product.Is_Contract)?.id ?? ''
+  // A preview built for another contract product or an older deal would submit stale values
+  const pmRequestPreview = preparedPMRequest &&
+    preparedPMRequest.contractRowId === contractRowId &&
+    preparedPMRequest.deal === deal
+    ? preparedPMRequest.preview
+    : null
+  // Local state for search and filter - using useState instead of refs for proper reactivity
   const [searchTerm, setSearchTerm] = useState<string>('')
   const [filterType, setFilterType] = useState<'all' | 'contract'>('all')
+  // Contact chosen in the contact picker (null = automatic primary contact lookup)
+  const [contactSelection, setContactSelection] = useState<ContactSelection | null>(null)
+  // Phone of the contact the picker will use, for the missing-phone warning
+  const [contactPhone, setContactPhone] = useState<string | undefined>(undefined)
   // Use cleanup hook
-  useContractCleanup(optimisticProducts, dealData.id)
+  useContractCleanup(optimisticProducts, deal.id)
+
+  // Tell the user why a contract selection was rolled back
+  useEffect(() => {
+    const details = state.errorDetails
+    if (details) {
+      showToast(`Contract selection not saved: ${getZohoErrorTitle(details)}`, 'error', getZohoErrorHint(details))
+    }
+  }, [state.errorDetails, showToast])
+
+  // Replace the "Creating PM Request..." toast with a targeted message when generation fails
+  useEffect(() => {
+    const details = pmState.errorDetails
+    if (details) {
+      showToast(getZohoErrorTitle(details), 'error', getZohoErrorHint(details))
+    }
+  }, [pmState.errorDetails, showToast])
+
+  // Confirm the written PM Request with a link to it, and show it as linked in the header
+  useEffect(() => {
+    const result = pmState.pmRequestResult
+    if (!result) {
+      return
+    }
+
+    if (result.linkedToDeal) {
+      onDealFieldsSaved({ pmRequestId: result.requestId })
+    }
+    const verb = { created: 'created', updated: 'updated', revision: 'revision created' }[result.mode]
+    const hints = [
+      result.linkedToDeal ? '' : 'The Deal could not be linked to it - set PM_Request_Id manually',
+      result.summaryAttached || result.mode === 'updated' ? '' : 'The summary PDF could not be attached - see the debug log'
+    ].filter(Boolean)
+    showToast(
+      `PM Request ${verb}`,
+      'success',
+      hints.length > 0 ? hints.join('. ') : undefined,
+      {
+        label: 'Open PM Request',
+        onClick: () => {
+          openRecord('PM_REQUEST', result.requestId).catch(() => {
+            showToast('Could not open the PM Request', 'error', 'Open it from the PM Requests module')
+          })
+        }
+      }
+    )
+  }, [pmState.pmRequestResult, onDealFieldsSaved, showToast])
 
   // Auto-selection logic using React 19 patterns - moved to useEffect to prevent infinite renders
   useEffect(() => {
     const shouldAutoSelect = optimisticProducts.length === 1 && 
+      !!optimisticProducts[0].id &&
       !optimisticProducts[0].Is_Contract && 
       !isPending &&
       !state.isAutoSelectionApplied
@@ -71,22 +172,39 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
     if (shouldAutoSelect) {
       startTransition(() => {
         const formData = new FormData()
-        formData.append('dealId', dealData.id)
-        formData.append('productIndex', '0')
-        formData.append('products', JSON.stringify(optimisticProducts))
+        formData.append('dealId', deal.id)
+        formData.append('rowId', optimisticProducts[0].id)
         
         // Add optimistic update
-        addOptimisticUpdate({ productIndex: 0, isContract: true })
+        addOptimisticUpdate({ rowId: optimisticProducts[0].id, isContract: true })
         
         // Execute the action
         productAction(formData)
       })
     }
-  }, [optimisticProducts, isPending, state.isAutoSelectionApplied, dealData.id, addOptimisticUpdate, productAction])  // Memoized values
+  }, [optimisticProducts, isPending, state.isAutoSelectionApplied, deal.id, addOptimisticUpdate, productAction])  // Memoized values
   const hasContractProduct = useMemo(() => {
     return optimisticProducts.some(product => product.Is_Contract)
   }, [optimisticProducts])
 
+  // Request type, preselected from the Deal flags; Move, Disconnect and MAC need no contract product
+  const suggestedRequestType = useMemo(() => suggestRequestType(deal), [deal])
+  const [requestType, setRequestType] = useState<PMRequestType>(suggestedRequestType)
+  const requestTypeRule = getRequestTypeRule(requestType)
+  const canBuildRequest = hasContractProduct || !requestTypeRule.requiresContractProduct
+
+  const handleRequestTypeChange = useCallback((nextType: PMRequestType) => {
+    setRequestType(nextType)
+    // A preview is only valid for the type it was built for
+    setPreparedPMRequest(null)
+  }, [])
+
+  const handleContactSelectionChange = useCallback((selection: ContactSelection | null) => {
+    setContactSelection(selection)
+    // The preview carries the contact it was built with - confirming it would submit the old one
+    setPreparedPMRequest(null)
+  }, [])
+
   const filteredProducts = useMemo(() => {
     const lowerSearchTerm = searchTerm.toLowerCase().trim()
     
@@ -121,60 +239,129 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
     event.preventDefault()
     event.stopPropagation()
     
-    const productIndex = parseInt(event.target.value)
+    // Subform row id of the product
+    const rowId = event.target.value
     const isChecked = event.target.checked
 
-    if (isChecked) {
+    // Rows without a subform row id cannot be selected (their radio is disabled)
+    if (isChecked && rowId) {
+      // The preview was built for the previous contract product
+      setPreparedPMRequest(null)
       startTransition(() => {
         // Add optimistic update first
-        addOptimisticUpdate({ productIndex, isContract: true })
+        addOptimisticUpdate({ rowId, isContract: true })
         
         // Prepare form data
         const formData = new FormData()
-        formData.append('dealId', dealData.id)
-        formData.append('productIndex', productIndex.toString())
-        formData.append('products', JSON.stringify(optimisticProducts))
+        formData.append('dealId', deal.id)
+        formData.append('rowId', rowId)
         
         // Execute the action
         productAction(formData)
       })
     }
-  }, [dealData.id, optimisticProducts, productAction, addOptimisticUpdate])
+  }, [deal.id, productAction, addOptimisticUpdate])
 
   // Handle clear action
   const handleCloseAndClear = useCallback(() => {
+    setPreparedPMRequest(null)
     startTransition(() => {
       const formData = new FormData()
-      formData.append('dealId', dealData.id)
-      formData.append('products', JSON.stringify(optimisticProducts))
+      formData.append('dealId', deal.id)
       
       clearAction(formData)
     })
-  }, [dealData.id, optimisticProducts, clearAction])
+  }, [deal.id, clearAction])
+  // Multi-location deals (several Product_Grouping values) can get one PM Request per group
+  const hasMultipleProductGroups = useMemo(() => getProductGroups(optimisticProducts).length > 1, [optimisticProducts])
+  const handleBatchLinked = useCallback((requestId: string) => {
+    onDealFieldsSaved({ pmRequestId: requestId })
+  }, [onDealFieldsSaved])
+
+  const handleDealFieldsSaved = useCallback((changes: Partial<Deal>) => {
+    // The preview was built from the deal fields before the save
+    setPreparedPMRequest(null)
+    onDealFieldsSaved(changes)
+    showToast('Deal updated - required fields re-checked', 'success')
+  }, [onDealFieldsSaved, showToast])
+
+  // Build the PM Request without inserting it, for review in the preview
+  const handleGeneratePMRequest = useCallback((override: ValidationOverride | null) => {
+    if (!canBuildRequest) {
+      showToast(`${requestTypeRule.label} requests need a contract product. Please select a product first.`, 'error')
+      return
+    }
+
+    startPreviewTransition(async () => {
+      try {
+        const preview = await preparePMRequest(deal.id, getZohoClient(), {
+          requestType,
+          contact: contactSelection,
+          override
+        })
+        setPreparedPMRequest({ preview, contractRowId, deal })
+      } catch (error) {
+        const zohoError = toZohoApiError(error, 'preparePMRequest')
+        console.error('PM Request preview error:', zohoError)
+        showToast(getZohoErrorTitle(zohoError), 'error', getZohoErrorHint(zohoError))
+      }
+    })
+  }, [deal, contractRowId, canBuildRequest, requestType, requestTypeRule.label, contactSelection, showToast, startPreviewTransition])
+
+  // Export the PM Request package - the preview on screen (what Confirm submits) or a fresh dry run
+  const handleExportPMRequest = useCallback((format: PMRequestExportFormat, override: ValidationOverride | null) => {
+    startPreviewTransition(async () => {
+      try {
+        const preview = pmRequestPreview ?? await preparePMRequest(deal.id, getZohoClient(), {
+          requestType,
+          contact: contactSelection,
+          override
+        })
+        downloadFile(exportPMRequest(preview, format))
+      } catch (error) {
+        const zohoError = toZohoApiError(error, 'preparePMRequest')
+        console.error('PM Request export error:', zohoError)
+        showToast(`Export failed: ${getZohoErrorTitle(zohoError)}`, 'error', getZohoErrorHint(zohoError))
+      }
+    })
+  }, [deal.id, pmRequestPreview, requestType, contactSelection, showToast, startPreviewTransition])
+
+  // What the deal would produce now, for the history diff (runs the dry run, writes nothing)
+  const buildCurrentPMRequest = useCallback(async () => {
+    const preview = await preparePMRequest(deal.id, getZohoClient(), { requestType, contact: contactSelection })
+    return preview.data
+  }, [deal.id, requestType, contactSelection])
+
   // Handle PM Request generation with React 19 useTransition patterns
-  const handleGeneratePMRequest = useCallback(() => {
+  const handleConfirmPMRequest = useCallback((existingRequest: ExistingPMRequestAction | null) => {
     const contractProduct = optimisticProducts.find(product => product.Is_Contract)
-    if (!contractProduct) {
-      showToast('No contract product selected. Please select a product first.', 'error')
+    if (!pmRequestPreview) {
       return
     }
+    const subject = contractProduct
+      ? `${pmRequestPreview.data.Request_Type} PM Request for "${getProductName(contractProduct)}"`
+      : `${pmRequestPreview.data.Request_Type} PM Request`
 
     // Use React 19's useTransition for non-blocking UI updates
     startPMRequestTransition(async () => {
       try {
         // Show immediate optimistic feedback
         showToast(
-          `Creating PM Request for "${contractProduct.Products.name}"...`,
+          `${existingRequest?.mode === 'update' ? 'Updating' : 'Creating'} ${subject}...`,
           'info'
         )
         
-        // Prepare form data and execute the PM request action
+        // Submit exactly what was previewed
         const formData = new FormData()
-        formData.append('dealId', dealData.id)
         formData.append('products', JSON.stringify(optimisticProducts))
+        formData.append('preview', JSON.stringify(pmRequestPreview))
+        if (existingRequest) {
+          formData.append('existing', JSON.stringify(existingRequest))
+        }
         
         // Execute the action within the transition
         await pmAction(formData)
+        setPreparedPMRequest(null)
         
       } catch (error) {
         // Handle any errors during the transition
@@ -182,7 +369,7 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
         showToast('Failed to create PM Request', 'error')
       }
     })
-  }, [dealData.id, optimisticProducts, pmAction, showToast, startPMRequestTransition])
+  }, [optimisticProducts, pmRequestPreview, pmAction, showToast, startPMRequestTransition])
 
   const formatCurrency = useCallback((amount: string | number): string => {
     const num = typeof amount === 'string' ? parseFloat(amount.replace(/,/g, '')) : amount
@@ -210,6 +397,9 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
   }
   // Get current error state from any of the actions
   const currentError = state.error || clearState.error || pmState.error
+  const currentErrorDetails = state.error
+    ? state.errorDetails
+    : clearState.error ? clearState.errorDetails : pmState.errorDetails
   const isUpdating = isPending || isPMRequestPending
 
   return (    <ContractProvider
@@ -221,7 +411,7 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
       formatCurrency={formatCurrency}
     >
       <div className="space-y-2">        {/* Deal Header */}
-        <DealHeader />
+        <DealHeader pmRequestId={deal.pmRequestId} />
 
         {/* Loading State */}
         {isUpdating && (
@@ -230,7 +420,7 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
 
         {/* Error State */}
         {currentError && (
-          <ErrorState error={currentError} />
+          <ErrorState error={currentError} details={currentErrorDetails} />
         )}        {/* Products Section */}
         <form 
           className="space-y-3"
@@ -290,7 +480,6 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
             <div className="overflow-x-auto">
               <ProductList
                 filteredProducts={filteredProducts}
-                allProducts={optimisticProducts}
                 searchTerm={searchTerm}
                 filterType={filterType}
                 setSearchTerm={updateSearch}
@@ -302,15 +491,81 @@ export default function ContractProduct({ dealData, showToast }: ContractProduct
               />
             </div>
           </div>
-        </form>        {/* Action Buttons */}        
+        </form>
+
+        {/* Request Type */}
+        <RequestTypeSelector
+          value={requestType}
+          suggested={suggestedRequestType}
+          onChange={handleRequestTypeChange}
+          disabled={isUpdating || isPMRequestPending || isPreviewPending}
+        />
+
+        {/* Contact Picker */}
+        {canBuildRequest && (
+          <ContactPicker
+            deal={deal}
+            requestType={requestType}
+            productType={optimisticProducts.find(product => product.Is_Contract)?.Product_Type || ''}
+            value={contactSelection}
+            onChange={handleContactSelectionChange}
+            onContactPhoneChange={setContactPhone}
+            disabled={isUpdating}
+          />
+        )}
+
+        {/* Request_Descriptions as composed by the description template */}
+        {canBuildRequest && (
+          <DescriptionPreview
+            deal={deal}
+            products={optimisticProducts}
+            requestType={requestType}
+          />
+        )}
+
+        {/* PM Request Preview (dry run) */}
+        {pmRequestPreview && (
+          <PMRequestPreviewPanel
+            preview={pmRequestPreview}
+            isSubmitting={isPMRequestPending}
+            onConfirm={handleConfirmPMRequest}
+            onCancel={() => setPreparedPMRequest(null)}
+          />
+        )}
+
+        {/* Action Buttons */}        
         <ActionButtons
           isUpdating={isUpdating}
-          isPMRequestPending={isPMRequestPending}
+          isPMRequestPending={isPMRequestPending || isPreviewPending}
           hasContractProduct={hasContractProduct}
-          dealData={dealData}
+          requestType={requestType}
+          deal={deal}
           contractProduct={optimisticProducts.find(product => product.Is_Contract) || null}
+          products={optimisticProducts}
+          contactPhone={contactPhone}
           onCloseAndClear={handleCloseAndClear}
+          onDealFieldsSaved={handleDealFieldsSaved}
           onGeneratePMRequest={handleGeneratePMRequest}
+          onExportPMRequest={handleExportPMRequest}
+        />
+
+        {/* Multi-location PM Requests (one per product group) */}
+        {hasMultipleProductGroups && (
+          <PMRequestBatchPanel
+            dealId={deal.id}
+            products={optimisticProducts}
+            requestType={requestType}
+            contact={contactSelection}
+            disabled={isUpdating || isPMRequestPending || isPreviewPending}
+            onLinked={handleBatchLinked}
+            showToast={showToast}
+          />
+        )}
+
+        {/* PM Request History */}
+        <PMRequestHistoryPanel
+          dealId={deal.id}
+          buildCurrentRequest={buildCurrentPMRequest}
         />
       </div>
     </ContractProvider>
@@ -1,7 +1,14 @@
 import { useState } from 'react'
-import { reloadWidget, closeWidget } from '../utils/zohoApi'
+import { reloadWidget, closeWidget, openRecord } from '../utils/zohoApi'
+import { useLinkedPMRequest } from '../hooks/contractHooks'
 
-export default function DealHeader() {
+interface DealHeaderProps {
+  // The Deal's PM_Request_Id ('' when no PM Request has been linked yet)
+  pmRequestId: string
+}
+
+export default function DealHeader({ pmRequestId }: DealHeaderProps) {
+  const { linkedRequest, isLoading } = useLinkedPMRequest(pmRequestId)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [isClosing, setIsClosing] = useState(false)
 
@@ -33,6 +40,14 @@ export default function DealHeader() {
       setIsClosing(false)
     }
   }
+
+  const handleOpenPMRequest = async () => {
+    try {
+      await openRecord('PM_REQUEST', pmRequestId)
+    } catch {
+      alert('Failed to open the PM Request. Please open it from the Deal record.')
+    }
+  }
   return (
     <div className="modern-card">
       {/* Header with Title and Action Buttons */}
@@ -41,6 +56,30 @@ export default function DealHeader() {
         <div>
           <h1 className="text-xl font-bold text-gray-900">PM REQUEST CONTRACT GENERATOR</h1>
           <p className="text-sm text-gray-600 mt-1">Manage contract products for deal records</p>
+          {pmRequestId && (
+            <div className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+              <span>Linked PM Request:</span>
+              {isLoading ? (
+                <span className="text-gray-400">Loading...</span>
+              ) : linkedRequest ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleOpenPMRequest}
+                    className="font-medium text-blue-700 hover:underline"
+                    title="Open PM Request"
+                  >
+                    {linkedRequest.name || linkedRequest.id}
+                  </button>
+                  {linkedRequest.status && (
+                    <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">{linkedRequest.status}</span>
+                  )}
+                </>
+              ) : (
+                <span className="text-amber-700">{pmRequestId} (not found)</span>
+              )}
+            </div>
+          )}
         </div>
         
         {/* Two Small Buttons Aligned to Right */}
@@ -0,0 +1,49 @@
+import { useSyncExternalStore } from 'react'
+import { getDebugEvents, subscribeDebugEvents, clearDebugEvents } from '../utils/zohoApi'
+
+const levelStyles = {
+  info: 'bg-blue-100 text-blue-700',
+  warning: 'bg-amber-100 text-amber-700',
+  error: 'bg-red-100 text-red-700'
+}
+
+export default function DebugPanel() {
+  const events = useSyncExternalStore(subscribeDebugEvents, getDebugEvents)
+
+  return (
+    <div className="mt-4 bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-semibold text-gray-800">
+          Debug Events ({events.length})
+        </h3>
+        {events.length > 0 && (
+          <button
+            type="button"
+            onClick={clearDebugEvents}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-xs text-gray-500">No API retries or warnings recorded.</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-auto bg-white p-3 rounded border">
+          {[...events].reverse().map(event => (
+            <li key={event.id} className="flex items-start space-x-2 text-xs text-gray-700">
+              <span className="text-gray-400 whitespace-nowrap">
+                {new Date(event.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={`px-1.5 py-0.5 rounded font-medium ${levelStyles[event.level]}`}>
+                {event.category}
+              </span>
+              <span className="break-all">{event.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
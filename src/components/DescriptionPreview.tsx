@@ -0,0 +1,62 @@
+import { useMemo, useState } from 'react'
+import type { Deal } from '../types/deal'
+import type { ZohoProductSubform } from '../types/zoho'
+import {
+  processContractProducts,
+  renderPMRequestDescription,
+  resolveDescriptionTemplate,
+  type PMRequestType
+} from '../utils/zohoApi'
+
+interface DescriptionPreviewProps {
+  deal: Deal
+  // Current product rows (with the contract selection made in the widget)
+  products: ZohoProductSubform[]
+  requestType: PMRequestType
+}
+
+export default function DescriptionPreview({ deal, products, requestType }: DescriptionPreviewProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const templateOwner = resolveDescriptionTemplate(requestType).requestType
+
+  // Rendered locally from the loaded deal - the PM Request preview re-reads the deal before the insert
+  const description = useMemo(() => {
+    const currentDeal = { ...deal, products }
+    return renderPMRequestDescription({ requestType, deal: currentDeal, productInfo: processContractProducts(currentDeal) })
+  }, [deal, products, requestType])
+
+  return (
+    <div className="modern-card">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+      >
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Request Description</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {templateOwner ? `${templateOwner} description template` : 'Default description template'}
+            {' - what the PM will read in Request_Descriptions'}
+          </p>
+        </div>
+        <svg
+          className={`w-4 h-4 text-gray-500 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200 px-6 py-4">
+          {description ? (
+            <pre className="text-sm text-gray-900 whitespace-pre-wrap break-words font-sans">{description}</pre>
+          ) : (
+            <p className="text-sm text-gray-500">The template produces an empty description for this deal.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,11 @@
+import { getZohoErrorTitle, getZohoErrorHint, type ZohoApiError } from '../utils/zohoApi'
+
 interface ErrorStateProps {
   error: string
+  details?: ZohoApiError | null
 }
 
-export default function ErrorState({ error }: ErrorStateProps) {
+export default function ErrorState({ error, details }: ErrorStateProps) {
   return (
     <div className="bg-red-50 border border-red-200 rounded-lg p-4">
       <div className="flex items-start space-x-2">
@@ -11,7 +14,32 @@ export default function ErrorState({ error }: ErrorStateProps) {
             <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
           </svg>
         </div>
-        <p className="text-red-800">{error}</p>
+        <div className="flex-1 space-y-2">
+          {details && (
+            <p className="font-semibold text-red-900">{getZohoErrorTitle(details)}</p>
+          )}
+          <p className="text-red-800 whitespace-pre-line">{error}</p>
+
+          {details && details.fields.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {details.fields.map(field => (
+                <span key={field} className="px-2 py-0.5 text-xs font-mono bg-red-100 text-red-700 rounded">
+                  {field}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {details && (
+            <p className="text-sm text-red-700">{getZohoErrorHint(details)}</p>
+          )}
+
+          {details && (details.code || details.operation) && (
+            <p className="text-xs text-red-500">
+              {[details.code, details.status, details.operation].filter(Boolean).join(' · ')}
+            </p>
+          )}
+        </div>
       </div>
     </div>
   )
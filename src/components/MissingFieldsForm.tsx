@@ -0,0 +1,125 @@
+import { useActionState } from 'react'
+import type { Deal } from '../types/deal'
+import {
+  DEAL_FIELD_API_NAMES,
+  REQUIRED_FIELD_LABELS,
+  getZohoErrorHint,
+  getZohoErrorTitle,
+  toZohoApiError,
+  updateDealFields,
+  type RequiredDealField,
+  type ValidationIssue,
+  type ZohoApiError
+} from '../utils/zohoApi'
+
+type MissingFieldValues = Partial<Pick<Deal, RequiredDealField>>
+
+interface MissingFieldsFormProps {
+  dealId: string
+  // Blocking validation issues; the missing required Deal fields among them become inputs
+  issues: ValidationIssue[]
+  // API names of the fields an authorized user chose to override
+  overriddenFields: string[]
+  disabled: boolean
+  // Called with the values written to the Deal, so validation re-runs without a reload
+  onSaved: (changes: MissingFieldValues) => void
+}
+
+interface SaveState {
+  error: ZohoApiError | null
+  notice: string | null
+}
+
+const EDITABLE_FIELDS = Object.keys(REQUIRED_FIELD_LABELS) as RequiredDealField[]
+const MULTILINE_FIELDS: RequiredDealField[] = ['description', 'currentServices']
+
+export default function MissingFieldsForm({ dealId, issues, overriddenFields, disabled, onSaved }: MissingFieldsFormProps) {
+  const missingFields = EDITABLE_FIELDS.filter(field =>
+    issues.some(issue => issue.code === 'MISSING_REQUIRED_FIELD' && issue.field === DEAL_FIELD_API_NAMES[field])
+  )
+
+  const [state, saveAction, isSaving] = useActionState(
+    async (_currentState: SaveState, formData: FormData): Promise<SaveState> => {
+      const changes: MissingFieldValues = {}
+      for (const field of missingFields) {
+        const value = String(formData.get(field) ?? '').trim()
+        if (value) {
+          changes[field] = value
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        return { error: null, notice: 'Enter at least one value to save' }
+      }
+
+      try {
+        await updateDealFields(dealId, changes)
+        onSaved(changes)
+        return { error: null, notice: null }
+      } catch (error) {
+        console.error('❌ Failed to save missing deal fields:', error)
+        return { error: toZohoApiError(error, 'updateDealFields'), notice: null }
+      }
+    },
+    { error: null, notice: null }
+  )
+
+  if (missingFields.length === 0) {
+    return null
+  }
+
+  return (
+    <form action={saveAction} className="mt-3 space-y-3">
+      <fieldset disabled={disabled || isSaving} className="space-y-3">
+        {missingFields.map(field => {
+          const inputId = `missing-field-${field}`
+          const isOverridden = overriddenFields.includes(DEAL_FIELD_API_NAMES[field])
+          return (
+            <div key={field}>
+              <label htmlFor={inputId} className="flex items-center text-xs font-medium text-amber-900 mb-1">
+                {REQUIRED_FIELD_LABELS[field]}
+                {isOverridden && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-amber-200 text-amber-900">Overridden</span>
+                )}
+              </label>
+              {MULTILINE_FIELDS.includes(field) ? (
+                <textarea
+                  id={inputId}
+                  name={field}
+                  rows={2}
+                  className="w-full px-3 py-2 text-sm border border-amber-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              ) : (
+                <input
+                  id={inputId}
+                  name={field}
+                  type="text"
+                  className="w-full px-3 py-2 text-sm border border-amber-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              )}
+            </div>
+          )
+        })}
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-amber-700">Values are saved to the Deal record</span>
+          <button
+            type="submit"
+            className={`btn-primary ${disabled || isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            {isSaving ? 'Saving...' : 'Save to Deal'}
+          </button>
+        </div>
+      </fieldset>
+
+      {state.notice && (
+        <p className="text-xs text-amber-700">{state.notice}</p>
+      )}
+      {state.error && (
+        <p className="text-xs text-red-600">
+          {getZohoErrorTitle(state.error)}. {getZohoErrorHint(state.error)}
+        </p>
+      )}
+    </form>
+  )
+}
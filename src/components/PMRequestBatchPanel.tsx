@@ -0,0 +1,412 @@
+import { useState, useTransition } from 'react'
+import type { ZohoProductSubform } from '../types/zoho'
+import { useCurrencyFormatter } from '../hooks/contractHooks'
+import type { ToastAction } from './Toast'
+import {
+  preparePMRequestBatch,
+  submitPMRequestBatch,
+  getProductGroups,
+  getZohoClient,
+  getZohoErrorHint,
+  getZohoErrorTitle,
+  getProductName,
+  openRecord,
+  getRequestTypeRule,
+  type ContactSelection,
+  type ExistingPMRequestAction,
+  type PMRequestBatchPreview,
+  type PMRequestBatchResult,
+  type PMRequestType
+} from '../utils/zohoApi'
+
+// Prepared batch awaiting confirmation, with the inputs it was prepared with
+interface PreparedBatch {
+  groups: PMRequestBatchPreview[]
+  contact: ContactSelection | null
+  requestType: PMRequestType
+}
+
+interface PMRequestBatchPanelProps {
+  dealId: string
+  products: ZohoProductSubform[]
+  requestType: PMRequestType
+  // Contact picked in the contact picker, used for every request of the batch
+  contact: ContactSelection | null
+  disabled: boolean
+  // Called with the request written to the Deal's PM_Request_Id
+  onLinked: (requestId: string) => void
+  showToast: (message: string, type: 'success' | 'error' | 'info', hint?: string, action?: ToastAction) => void
+}
+
+export default function PMRequestBatchPanel({
+  dealId,
+  products,
+  requestType,
+  contact,
+  disabled,
+  onLinked,
+  showToast
+}: PMRequestBatchPanelProps) {
+  const formatCurrency = useCurrencyFormatter()
+  const groups = getProductGroups(products)
+  const [isOpen, setIsOpen] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [results, setResults] = useState<PMRequestBatchResult[] | null>(null)
+  const [prepared, setPrepared] = useState<PreparedBatch | null>(null)
+  // Action chosen per Product_Grouping for the groups that already have a PM Request
+  const [existingActions, setExistingActions] = useState<Record<string, ExistingPMRequestAction | null>>({})
+  const [warningsAcknowledged, setWarningsAcknowledged] = useState(false)
+  const [replaceDealLink, setReplaceDealLink] = useState(false)
+  const [isPreparing, startPreparing] = useTransition()
+  const [isSubmitting, startSubmitting] = useTransition()
+  const requestTypeRule = getRequestTypeRule(requestType)
+
+  // A review prepared with another contact or request type no longer matches what would be written
+  const review = prepared && prepared.contact === contact && prepared.requestType === requestType
+    ? prepared.groups
+    : null
+  const reviewReady = review?.flatMap(({ preview }) => preview ? [preview] : []) ?? []
+  const hasWarnings = reviewReady.some(preview => preview.warnings.length > 0)
+  const dealPMRequestId = reviewReady[0]?.dealPMRequestId ?? ''
+  const canConfirm = !isSubmitting &&
+    reviewReady.length > 0 &&
+    (!hasWarnings || warningsAcknowledged) &&
+    (review ?? []).every(({ grouping, preview }) =>
+      !preview || preview.existingRequests.length === 0 || !!existingActions[grouping])
+
+  const toggleGroup = (grouping: string, checked: boolean) => {
+    setSelected(current => checked ? [...current, grouping] : current.filter(candidate => candidate !== grouping))
+  }
+
+  // Prepares every selected group so its warnings and existing requests can be reviewed first
+  const handlePrepare = (groupings: string[]) => {
+    if (groupings.length === 0) return
+
+    startPreparing(async () => {
+      const groups = await preparePMRequestBatch(dealId, groupings, getZohoClient(), { requestType, contact })
+      setPrepared({ groups, contact, requestType })
+      setExistingActions({})
+      setWarningsAcknowledged(false)
+      setReplaceDealLink(false)
+    })
+  }
+
+  const handleSubmit = () => {
+    if (!review || !canConfirm) return
+    const groups = review.filter(({ preview }) => preview)
+
+    startSubmitting(async () => {
+      showToast(`Writing ${groups.length} ${requestTypeRule.label} PM Request(s)...`, 'info')
+      const batch = await submitPMRequestBatch(groups, getZohoClient(), { existingRequests: existingActions, replaceDealLink })
+      setResults(batch.results)
+      setPrepared(null)
+      // Keep only the failed groups selected, ready for a retry
+      setSelected(batch.results.filter(result => result.status === 'failed').map(result => result.grouping))
+      if (batch.linkedRequestId) {
+        onLinked(batch.linkedRequestId)
+      }
+
+      const written = batch.results.filter(result => result.status !== 'failed').length
+      const failed = batch.results.length - written
+      const hints = [
+        failed > 0 ? 'See the batch results for the groups that failed' : '',
+        batch.keptDealLink ? `The deal still links PM Request ${batch.keptDealLink}` : ''
+      ].filter(Boolean)
+      showToast(
+        `${written} of ${batch.results.length} PM Request(s) created or updated`,
+        failed === 0 ? 'success' : written === 0 ? 'error' : 'info',
+        hints.length > 0 ? hints.join('. ') : undefined
+      )
+    })
+  }
+
+  const handleOpen = (requestId: string) => {
+    openRecord('PM_REQUEST', requestId).catch(() => {
+      showToast('Could not open the PM Request', 'error', 'Open it from the PM Requests module')
+    })
+  }
+
+  const resultFor = (grouping: string) => results?.find(result => result.grouping === grouping)
+  // Group selection is locked while a prepared batch is being reviewed
+  const isBusy = disabled || isPreparing || isSubmitting || review !== null
+
+  return (
+    <div className="modern-card">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+      >
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">
+            Multi-location PM Requests ({groups.length} product groups)
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            One {requestTypeRule.label} PM Request per product group, each with its own product, term, MRC and service address
+          </p>
+        </div>
+        <svg
+          className={`w-4 h-4 text-gray-500 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                <tr>
+                  <th className="px-4 py-2 w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all product groups"
+                      checked={selected.length === groups.length}
+                      disabled={isBusy}
+                      onChange={(e) => setSelected(e.target.checked ? groups.map(group => group.grouping) : [])}
+                    />
+                  </th>
+                  <th className="px-4 py-2 text-left font-medium">Product Group</th>
+                  <th className="px-4 py-2 text-left font-medium">Lead Product</th>
+                  <th className="px-4 py-2 text-left font-medium">Term</th>
+                  <th className="px-4 py-2 text-right font-medium">Group MRC</th>
+                  <th className="px-4 py-2 text-left font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {groups.map(group => {
+                  const result = resultFor(group.grouping)
+                  return (
+                    <tr key={group.grouping}>
+                      <td className="px-4 py-2 align-top">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${group.grouping || 'products without a group'}`}
+                          checked={selected.includes(group.grouping)}
+                          disabled={isBusy}
+                          onChange={(e) => toggleGroup(group.grouping, e.target.checked)}
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-gray-900 align-top">
+                        {group.grouping || '(no grouping)'}
+                        <div className="text-xs text-gray-500">{group.products.length} product(s)</div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-900 align-top">
+                        {group.leadProduct.Product_Type || '—'}
+                        <div className="text-xs text-gray-500">{getProductName(group.leadProduct)}</div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-900 align-top">{group.leadProduct.Terms || '—'}</td>
+                      <td className="px-4 py-2 text-gray-900 text-right align-top">{formatCurrency(group.mrcTotal)}</td>
+                      <td className="px-4 py-2 align-top">
+                        {!result ? (
+                          <span className="text-xs text-gray-400">—</span>
+                        ) : result.status !== 'failed' ? (
+                          <button
+                            type="button"
+                            onClick={() => handleOpen(result.requestId)}
+                            className="text-xs font-medium text-emerald-700 hover:underline"
+                          >
+                            {result.status === 'updated' ? 'Updated' : 'Created'} - open
+                          </button>
+                        ) : (
+                          <div className="text-xs text-red-700">
+                            <div className="font-medium">
+                              {result.error ? getZohoErrorTitle(result.error) : 'Failed'}
+                            </div>
+                            {result.error && <div className="text-red-600">{getZohoErrorHint(result.error)}</div>}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {review ? (
+            <div className="border-t border-gray-200">
+              <div className="px-6 py-3 bg-gray-50">
+                <h4 className="text-sm font-semibold text-gray-900">Review {review.length} PM Request(s)</h4>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  Nothing has been written yet. Check every group and confirm to write the requests.
+                </p>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {review.map(group => (
+                  <BatchGroupReview
+                    key={group.grouping}
+                    group={group}
+                    existingRequest={existingActions[group.grouping] ?? null}
+                    disabled={isSubmitting}
+                    onExistingRequestChange={(action) =>
+                      setExistingActions(current => ({ ...current, [group.grouping]: action }))}
+                  />
+                ))}
+              </ul>
+
+              {(hasWarnings || dealPMRequestId) && (
+                <div className="px-6 py-3 border-t border-gray-200 space-y-2">
+                  {hasWarnings && (
+                    <label className="flex items-center text-xs text-yellow-900">
+                      <input
+                        type="checkbox"
+                        checked={warningsAcknowledged}
+                        disabled={isSubmitting}
+                        onChange={(e) => setWarningsAcknowledged(e.target.checked)}
+                        className="mr-2"
+                      />
+                      I have reviewed the warnings of every group
+                    </label>
+                  )}
+                  {dealPMRequestId && (
+                    <label className="flex items-center text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={replaceDealLink}
+                        disabled={isSubmitting}
+                        onChange={(e) => setReplaceDealLink(e.target.checked)}
+                        className="mr-2"
+                      />
+                      Link the deal to the first request written instead of PM Request {dealPMRequestId}
+                    </label>
+                  )}
+                </div>
+              )}
+
+              <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setPrepared(null)}
+                  disabled={isSubmitting}
+                  className={`px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 ${
+                    isSubmitting ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={!canConfirm}
+                  className={`btn-primary ${!canConfirm ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {isSubmitting ? 'Writing...' : `Confirm & Write ${reviewReady.length} PM Request(s)`}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                Every group is prepared for review first; the deal is only linked when it has no PM Request yet.
+              </p>
+              <button
+                type="button"
+                onClick={() => handlePrepare(selected)}
+                disabled={isBusy || selected.length === 0}
+                className={`btn-primary ${isBusy || selected.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {isPreparing
+                  ? 'Preparing...'
+                  : results?.some(result => result.status === 'failed')
+                    ? `Review retry of ${selected.length} PM Request(s)`
+                    : `Review ${selected.length} PM Request(s)`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface BatchGroupReviewProps {
+  group: PMRequestBatchPreview
+  existingRequest: ExistingPMRequestAction | null
+  disabled: boolean
+  onExistingRequestChange: (existingRequest: ExistingPMRequestAction) => void
+}
+
+// One prepared group: what will be written, its warnings and the choice for its existing requests
+function BatchGroupReview({ group, existingRequest, disabled, onExistingRequestChange }: BatchGroupReviewProps) {
+  const formatCurrency = useCurrencyFormatter()
+  const { grouping, preview, error } = group
+  const label = grouping || '(no grouping)'
+
+  if (!preview) {
+    return (
+      <li className="px-6 py-3 text-xs">
+        <div className="font-medium text-gray-900">{label}</div>
+        <div className="text-red-700 mt-0.5">
+          Skipped - {error ? getZohoErrorTitle(error) : 'could not be prepared'}
+        </div>
+        {error && <div className="text-red-600">{getZohoErrorHint(error)}</div>}
+      </li>
+    )
+  }
+
+  const { data, existingRequests, warnings } = preview
+  const latestRequest = existingRequests[0]
+  const isChosen = (mode: ExistingPMRequestAction['mode'], requestId: string) =>
+    existingRequest?.mode === mode && existingRequest.requestId === requestId
+
+  return (
+    <li className="px-6 py-3 text-xs space-y-2">
+      <div>
+        <div className="font-medium text-gray-900">{label}</div>
+        <div className="text-gray-500 mt-0.5">
+          {[data.Product_Type, data.Requested_Term, formatCurrency(data.Current_MRC), data.Service_Address]
+            .filter(Boolean)
+            .join(' • ')}
+        </div>
+      </div>
+
+      {latestRequest && (
+        <div className="rounded bg-amber-50 px-3 py-2">
+          <p className="font-medium text-amber-900">
+            This group already has {existingRequests.length === 1 ? 'a PM Request' : `${existingRequests.length} PM Requests`}
+          </p>
+          <fieldset disabled={disabled} className="mt-1 space-y-1">
+            {existingRequests.map(request => (
+              <label key={request.id} className="flex items-center text-amber-900">
+                <input
+                  type="radio"
+                  name={`existing-pm-request-${grouping}`}
+                  checked={isChosen('update', request.id)}
+                  onChange={() => onExistingRequestChange({ mode: 'update', requestId: request.id })}
+                  className="mr-2"
+                />
+                Update {request.name || request.id}
+                {request.status && ` (${request.status})`}
+              </label>
+            ))}
+            <label className="flex items-center text-amber-900">
+              <input
+                type="radio"
+                name={`existing-pm-request-${grouping}`}
+                checked={isChosen('revision', latestRequest.id)}
+                onChange={() => onExistingRequestChange({ mode: 'revision', requestId: latestRequest.id })}
+                className="mr-2"
+              />
+              Create a new PM Request as a revision of {latestRequest.name || latestRequest.id}
+            </label>
+          </fieldset>
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="space-y-1">
+          {warnings.map(warning => (
+            <li key={warning.code} className="text-yellow-800 flex items-center">
+              <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full mr-2"></span>
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
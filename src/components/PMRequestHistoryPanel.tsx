@@ -0,0 +1,192 @@
+import { useState, useTransition } from 'react'
+import { useCurrencyFormatter } from '../hooks/contractHooks'
+import {
+  diffPMRequest,
+  fetchPMRequestHistory,
+  getZohoErrorHint,
+  getZohoErrorTitle,
+  toZohoApiError,
+  type PMRequestData,
+  type PMRequestFieldChange,
+  type PMRequestHistoryEntry,
+  type ZohoApiError
+} from '../utils/zohoApi'
+
+interface PMRequestHistoryPanelProps {
+  dealId: string
+  // Builds the PM Request the deal would produce now (nothing is written)
+  buildCurrentRequest: () => Promise<PMRequestData>
+}
+
+export default function PMRequestHistoryPanel({ dealId, buildCurrentRequest }: PMRequestHistoryPanelProps) {
+  const formatCurrency = useCurrencyFormatter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [history, setHistory] = useState<PMRequestHistoryEntry[] | null>(null)
+  const [changes, setChanges] = useState<PMRequestFieldChange[] | null>(null)
+  const [error, setError] = useState<ZohoApiError | null>(null)
+  const [isLoading, startLoading] = useTransition()
+  const [isComparing, startComparing] = useTransition()
+
+  const loadHistory = () => {
+    startLoading(async () => {
+      try {
+        setHistory(await fetchPMRequestHistory(dealId))
+        setChanges(null)
+        setError(null)
+      } catch (loadError) {
+        console.error('❌ Failed to load PM Request history:', loadError)
+        setError(toZohoApiError(loadError, 'fetchPMRequestHistory'))
+      }
+    })
+  }
+
+  const handleToggle = () => {
+    if (!isOpen && history === null) {
+      loadHistory()
+    }
+    setIsOpen(!isOpen)
+  }
+
+  const latestRequest = history?.[0]
+
+  const handleCompare = () => {
+    if (!latestRequest) return
+
+    startComparing(async () => {
+      try {
+        const current = await buildCurrentRequest()
+        setChanges(diffPMRequest(latestRequest.record, current))
+        setError(null)
+      } catch (compareError) {
+        console.error('❌ Failed to compare with the current deal:', compareError)
+        setError(toZohoApiError(compareError, 'preparePMRequest'))
+      }
+    })
+  }
+
+  return (
+    <div className="modern-card">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="w-full px-6 py-4 flex items-center justify-between text-left"
+      >
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">
+            PM Request History{history ? ` (${history.length})` : ''}
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">Every PM Request already created for this deal</p>
+        </div>
+        <svg
+          className={`w-4 h-4 text-gray-500 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-gray-200">
+          {error && (
+            <div className="px-6 py-3 bg-red-50 text-xs text-red-700">
+              {getZohoErrorTitle(error)}. {getZohoErrorHint(error)}
+            </div>
+          )}
+
+          {isLoading && !history ? (
+            <p className="px-6 py-4 text-sm text-gray-500">Loading PM Requests...</p>
+          ) : history && history.length === 0 ? (
+            <p className="px-6 py-4 text-sm text-gray-500">No PM Request has been created for this deal yet.</p>
+          ) : history && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Created</th>
+                    <th className="px-4 py-2 text-left font-medium">Type</th>
+                    <th className="px-4 py-2 text-left font-medium">Product</th>
+                    <th className="px-4 py-2 text-left font-medium">Term</th>
+                    <th className="px-4 py-2 text-right font-medium">MRC</th>
+                    <th className="px-4 py-2 text-left font-medium">Status</th>
+                    <th className="px-4 py-2 text-left font-medium">Assigned PM</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {history.map(entry => (
+                    <tr key={entry.id} title={entry.name || entry.id}>
+                      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                        {entry.createdTime ? new Date(entry.createdTime).toLocaleString() : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">{entry.requestType || '—'}</td>
+                      <td className="px-4 py-2 text-gray-900">{entry.productType || '—'}</td>
+                      <td className="px-4 py-2 text-gray-900">{entry.term || '—'}</td>
+                      <td className="px-4 py-2 text-gray-900 text-right">
+                        {entry.mrc === null ? '—' : formatCurrency(entry.mrc)}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">{entry.status || '—'}</td>
+                      <td className="px-4 py-2 text-gray-900">{entry.assignedPM || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {changes && (
+            <div className="border-t border-gray-200">
+              <p className="px-6 pt-3 text-xs font-medium text-gray-700">
+                {changes.length === 0
+                  ? 'The latest PM Request matches what the deal would produce now.'
+                  : `${changes.length} field(s) differ between the latest PM Request and the deal now:`}
+              </p>
+              {changes.length > 0 && (
+                <table className="w-full text-sm mt-2">
+                  <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+                    <tr>
+                      <th className="px-6 py-2 text-left font-medium">Field</th>
+                      <th className="px-6 py-2 text-left font-medium">Latest request</th>
+                      <th className="px-6 py-2 text-left font-medium">Now</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {changes.map(change => (
+                      <tr key={change.apiName}>
+                        <td className="px-6 py-2 text-gray-600 whitespace-nowrap align-top">{change.label}</td>
+                        <td className="px-6 py-2 text-red-700 whitespace-pre-wrap break-words align-top">{change.previous || '—'}</td>
+                        <td className="px-6 py-2 text-green-700 whitespace-pre-wrap break-words align-top">{change.current || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-end space-x-3">
+            <button
+              type="button"
+              onClick={loadHistory}
+              disabled={isLoading}
+              className={`px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 ${
+                isLoading ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {isLoading ? 'Refreshing...' : 'Refresh'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCompare}
+              disabled={!latestRequest || isComparing}
+              className={`px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 ${
+                !latestRequest || isComparing ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {isComparing ? 'Comparing...' : 'Compare latest with deal now'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
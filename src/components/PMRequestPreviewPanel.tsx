@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { useCurrencyFormatter } from '../hooks/contractHooks'
+import type { ExistingPMRequestAction, PMRequestFieldPreview, PMRequestPreview } from '../utils/zohoApi'
+
+interface PMRequestPreviewPanelProps {
+  preview: PMRequestPreview
+  isSubmitting: boolean
+  // Called with the chosen action when the deal already has a PM Request, otherwise null
+  onConfirm: (existingRequest: ExistingPMRequestAction | null) => void
+  onCancel: () => void
+}
+
+export default function PMRequestPreviewPanel({ preview, isSubmitting, onConfirm, onCancel }: PMRequestPreviewPanelProps) {
+  const formatCurrency = useCurrencyFormatter()
+  const [existingRequest, setExistingRequest] = useState<ExistingPMRequestAction | null>(null)
+
+  const { existingRequests } = preview
+  const hasExistingRequests = existingRequests.length > 0
+  const latestRequest = existingRequests[0]
+  const canConfirm = !isSubmitting && (!hasExistingRequests || existingRequest !== null)
+
+  const isChosen = (mode: ExistingPMRequestAction['mode'], requestId: string) =>
+    existingRequest?.mode === mode && existingRequest.requestId === requestId
+
+  const confirmLabel = isSubmitting
+    ? existingRequest?.mode === 'update' ? 'Updating...' : 'Creating...'
+    : existingRequest?.mode === 'update'
+      ? 'Confirm & Update PM Request'
+      : existingRequest?.mode === 'revision' ? 'Confirm & Create Revision' : 'Confirm & Create PM Request'
+
+  const formatValue = (field: PMRequestFieldPreview): string => {
+    if (field.value === null || field.value === '') return '—'
+    if (typeof field.value === 'boolean') return field.value ? 'Yes' : 'No'
+    if (field.apiName === 'Current_MRC') return formatCurrency(field.value)
+    return String(field.value)
+  }
+
+  return (
+    <div className="modern-card border-2 border-emerald-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">PM Request Preview</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Nothing has been created yet. Check the values below and confirm to create the PM Request.
+          </p>
+        </div>
+        <span className="text-xs text-gray-400">
+          Prepared {new Date(preview.preparedAt).toLocaleTimeString()}
+        </span>
+      </div>
+
+      {hasExistingRequests && (
+        <div className="px-6 py-3 border-b border-gray-200 bg-amber-50">
+          <p className="text-sm font-medium text-amber-900">
+            This deal already has {existingRequests.length === 1 ? 'a PM Request' : `${existingRequests.length} PM Requests`}
+          </p>
+          <p className="text-xs text-amber-700 mt-0.5">
+            Update the existing request (its Status and Assigned PM are kept), create a revision of it, or go back to cancel.
+          </p>
+          <fieldset disabled={isSubmitting} className="mt-2 space-y-1">
+            {existingRequests.map(request => (
+              <label key={request.id} className="flex items-center text-xs text-amber-900">
+                <input
+                  type="radio"
+                  name="existing-pm-request"
+                  checked={isChosen('update', request.id)}
+                  onChange={() => setExistingRequest({ mode: 'update', requestId: request.id })}
+                  className="mr-2"
+                />
+                Update {request.name || request.id}
+                {request.status && ` (${request.status})`}
+                {request.createdTime && ` - created ${new Date(request.createdTime).toLocaleDateString()}`}
+              </label>
+            ))}
+            <label className="flex items-center text-xs text-amber-900">
+              <input
+                type="radio"
+                name="existing-pm-request"
+                checked={isChosen('revision', latestRequest.id)}
+                onChange={() => setExistingRequest({ mode: 'revision', requestId: latestRequest.id })}
+                className="mr-2"
+              />
+              Create a new PM Request as a revision of {latestRequest.name || latestRequest.id}
+            </label>
+          </fieldset>
+        </div>
+      )}
+
+      {preview.warnings.length > 0 && (
+        <div className="px-6 py-3 border-b border-gray-200 bg-yellow-50">
+          <ul className="space-y-1">
+            {preview.warnings.map(warning => (
+              <li key={warning.code} className="text-xs text-yellow-800 flex items-center">
+                <span className="w-1.5 h-1.5 bg-yellow-500 rounded-full mr-2"></span>
+                {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500 uppercase tracking-wide">
+            <tr>
+              <th className="px-6 py-2 text-left font-medium">Field</th>
+              <th className="px-6 py-2 text-left font-medium">Value</th>
+              <th className="px-6 py-2 text-left font-medium">Source</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {preview.fields.map(field => (
+              <tr key={field.apiName}>
+                <td className="px-6 py-2 text-gray-600 whitespace-nowrap align-top">{field.label}</td>
+                <td className="px-6 py-2 text-gray-900 whitespace-pre-wrap break-words align-top">{formatValue(field)}</td>
+                <td className="px-6 py-2 text-xs text-gray-500 align-top">{field.source}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className={`px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 ${
+            isSubmitting ? 'opacity-50 cursor-not-allowed' : ''
+          }`}
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(existingRequest)}
+          disabled={!canConfirm}
+          className={`btn-primary ${!canConfirm ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          {confirmLabel}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,9 @@
 import React from 'react'
 import type { ZohoProductSubform } from '../types/zoho'
+import { getProductName, getProductRowIssues } from '../utils/zohoApi'
 
 interface ProductCardProps {
   product: ZohoProductSubform
-  originalIndex: number
   isUpdating: boolean
   lastUpdatedProduct: string | null
   onProductSelection: (event: React.ChangeEvent<HTMLInputElement>) => void
@@ -12,14 +12,17 @@ interface ProductCardProps {
 
 export default function ProductCard({
   product,
-  originalIndex,
   isUpdating,
   lastUpdatedProduct,
   onProductSelection,
   formatCurrency
 }: ProductCardProps) {
   const isSelected = product.Is_Contract
-  const isRecentlyUpdated = lastUpdatedProduct === product.Products.id
+  const isRecentlyUpdated = !!product.id && lastUpdatedProduct === product.id
+  // Rows without a subform row id cannot be addressed in an update
+  const isSelectable = !!product.id
+  const productName = getProductName(product)
+  const rowIssues = getProductRowIssues(product)
   return (    <div
       className={`grid grid-cols-12 gap-2 px-2 py-2 transition-all duration-300 cursor-pointer group ${
         isSelected 
@@ -31,9 +34,9 @@ export default function ProductCard({
         isUpdating ? 'opacity-75' : ''
       }`}
       onClick={() => {
-        if (!isUpdating) {
+        if (!isUpdating && isSelectable) {
           const syntheticEvent = {
-            target: { value: originalIndex.toString() }
+            target: { value: product.id }
           } as React.ChangeEvent<HTMLInputElement>
           onProductSelection(syntheticEvent)
         }
@@ -44,12 +47,13 @@ export default function ProductCard({
           <input
             type="radio"
             name="selectedProduct"
-            value={originalIndex}
+            value={product.id}
             checked={isSelected}
             onChange={onProductSelection}
-            disabled={isUpdating}
+            disabled={isUpdating || !isSelectable}
+            title={isSelectable ? undefined : 'This row has no subform row id in Zoho and cannot be selected'}
             className={`w-5 h-5 text-emerald-600 border-2 border-gray-300 focus:ring-emerald-500 focus:ring-2 ${
-              isUpdating ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+              isUpdating || !isSelectable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
             } ${
               isSelected ? 'border-emerald-500' : 'border-gray-300'
             }`}
@@ -66,10 +70,12 @@ export default function ProductCard({
       <div className="col-span-3 min-w-0 p-1">
         <div className="flex flex-col space-y-1">
           <div 
-            className="font-medium text-gray-900 text-sm leading-tight truncate group-hover:text-blue-900 transition-colors" 
-            title={product.Products.name}
+            className={`font-medium text-sm leading-tight truncate group-hover:text-blue-900 transition-colors ${
+              product.Products?.name ? 'text-gray-900' : 'text-gray-400 italic'
+            }`}
+            title={productName}
           >
-            {product.Products.name}
+            {productName}
           </div>
           
           {/* Compact Status Section */}
@@ -84,6 +90,15 @@ export default function ProductCard({
               </span>
             )}
             
+            {rowIssues.length > 0 && (
+              <span
+                className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-amber-100 text-amber-700"
+                title={rowIssues.join('\n')}
+              >
+                ⚠ Incomplete
+              </span>
+            )}
+            
             {product.Main_Product && (
               <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-700">
                 ★ Main
@@ -107,7 +122,7 @@ export default function ProductCard({
       <div className="col-span-2 space-y-1 p-1">
         <div>
           <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
-            {product.Product_Type}
+            {product.Product_Type || '—'}
           </span>
         </div>
         <div className="space-y-0.5 text-xs">
@@ -4,7 +4,6 @@ import ProductCard from './ProductCard'
 
 interface ProductListProps {
   filteredProducts: ZohoProductSubform[]
-  allProducts: ZohoProductSubform[]
   searchTerm: string
   filterType: 'all' | 'contract'
   setSearchTerm: (term: string) => void
@@ -17,7 +16,6 @@ interface ProductListProps {
 
 export default function ProductList({
   filteredProducts,
-  allProducts,
   searchTerm,
   filterType,
   setSearchTerm,
@@ -152,14 +150,12 @@ export default function ProductList({
       >
         <div className="divide-y divide-gray-100">
           {filteredProducts.map((product, index) => {
-            // Find the original index in the full products array
-            const originalIndex = allProducts.findIndex(p => p.Products.id === product.Products.id)
             const isSelected = product.Is_Contract
-            const isRecentlyUpdated = lastUpdatedProduct === product.Products.id
+            const isRecentlyUpdated = !!product.id && lastUpdatedProduct === product.id
             
             return (
               <div
-                key={`${product.Products.id}-${originalIndex}`}
+                key={product.id || `row-${index}`}
                 className={`transition-all duration-200 ${
                   index % 2 === 0 ? 'bg-white' : 'bg-gray-50'
                 } hover:bg-blue-50 hover:shadow-sm`}
@@ -169,7 +165,6 @@ export default function ProductList({
               >
                 <ProductCard
                   product={product}
-                  originalIndex={originalIndex}
                   isUpdating={isUpdating}
                   lastUpdatedProduct={lastUpdatedProduct}
                   onProductSelection={onProductSelection}
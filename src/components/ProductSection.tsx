@@ -116,7 +116,6 @@ export default function ProductSection({
         <div className="overflow-x-auto">
           <ProductList
             filteredProducts={filteredProducts}
-            allProducts={optimisticProducts}
             searchTerm={searchTerm}
             filterType={filterType}
             setSearchTerm={updateSearch}
@@ -0,0 +1,55 @@
+import { PM_REQUEST_TYPES, REQUEST_TYPE_RULES, type PMRequestType } from '../utils/zohoApi'
+
+interface RequestTypeSelectorProps {
+  value: PMRequestType
+  // Type suggested by the Deal flags (MAC_P, Is_Disconnected, Previous_Deal_Disconnect)
+  suggested: PMRequestType
+  onChange: (requestType: PMRequestType) => void
+  disabled: boolean
+}
+
+export default function RequestTypeSelector({ value, suggested, onChange, disabled }: RequestTypeSelectorProps) {
+  const rule = REQUEST_TYPE_RULES[value]
+
+  return (
+    <div className="modern-card px-6 py-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <label htmlFor="pm-request-type" className="text-sm font-semibold text-gray-900">
+            Request Type
+          </label>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {rule.description}
+            {!rule.requiresContractProduct && ' - no contract product needed'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {value !== suggested && (
+            <button
+              type="button"
+              onClick={() => onChange(suggested)}
+              disabled={disabled}
+              className="text-xs text-blue-700 hover:underline disabled:opacity-50"
+            >
+              Deal suggests {REQUEST_TYPE_RULES[suggested].label}
+            </button>
+          )}
+          <select
+            id="pm-request-type"
+            value={value}
+            onChange={(e) => onChange(e.target.value as PMRequestType)}
+            disabled={disabled}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {PM_REQUEST_TYPES.map(requestType => (
+              <option key={requestType} value={requestType}>
+                {REQUEST_TYPE_RULES[requestType].label}
+                {requestType === suggested ? ' (suggested)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  )
+}
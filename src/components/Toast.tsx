@@ -1,15 +1,24 @@
 import { useEffect } from 'react'
 import { createPortal } from 'react-dom'
 
+// Button shown under the message, e.g. "Open PM Request"
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 interface ToastProps {
   message: string
   type: 'success' | 'error' | 'info'
+  // Secondary line, e.g. a remediation hint for errors
+  hint?: string
+  action?: ToastAction
   isVisible: boolean
   onClose: () => void
   duration?: number
 }
 
-function Toast({ message, type, isVisible, onClose, duration = 6000 }: ToastProps) {
+function Toast({ message, type, hint, action, isVisible, onClose, duration = 6000 }: ToastProps) {
   useEffect(() => {
     if (isVisible && duration > 0) {
       const timer = setTimeout(() => {
@@ -110,6 +119,20 @@ function Toast({ message, type, isVisible, onClose, duration = 6000 }: ToastProp
             <p className={`text-sm font-medium ${textColor}`}>
               {message}
             </p>
+            {hint && (
+              <p className={`mt-1 text-xs ${textColor}`}>
+                {hint}
+              </p>
+            )}
+            {action && (
+              <button
+                type="button"
+                onClick={action.onClick}
+                className={`mt-2 text-xs font-semibold underline ${textColor} focus:outline-none`}
+              >
+                {action.label}
+              </button>
+            )}
           </div>
           <div className="ml-4 flex-shrink-0 flex">
             <button
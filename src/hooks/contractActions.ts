@@ -1,13 +1,27 @@
 import type { ZohoProductSubform } from '../types/zoho'
-import { updateProductContractStatus, showNotification, clearAllContractSelections, closeWidget, generatePMRequest } from '../utils/zohoApi'
+import { updateProductContractStatus, showNotification, clearAllContractSelections, closeWidget, submitPMRequest, getZohoClient, toZohoApiError, ZohoNotFoundError, ZohoValidationError, getProductName, type ZohoApiError, getRequestTypeRule, isPMRequestType, type PMRequestPreview, type ExistingPMRequestAction } from '../utils/zohoApi'
 
 // Types for our action state
 export interface ContractActionState {
   products: ZohoProductSubform[]
+  // Subform row id of the product last marked as contract
   lastUpdatedProduct: string | null
   error: string | null
+  // Structured error behind `error` (kind, code, fields, operation) for targeted messages
+  errorDetails: ZohoApiError | null
   success: string | null
   isAutoSelectionApplied: boolean
+  // Last PM Request written (a new object per submit, so repeated results still notify)
+  pmRequestResult?: PMRequestResult | null
+}
+
+export interface PMRequestResult {
+  requestId: string
+  mode: 'created' | 'updated' | 'revision'
+  // False when the Deal's PM_Request_Id could not be updated
+  linkedToDeal: boolean
+  // False when the summary PDF could not be attached to the request
+  summaryAttached: boolean
 }
 
 // Action functions for form actions
@@ -16,49 +30,58 @@ export async function productSelectionAction(
   formData: FormData
 ): Promise<ContractActionState> {
   const dealId = formData.get('dealId') as string
-  const productIndex = parseInt(formData.get('productIndex') as string)
-  const productsData = formData.get('products') as string
-  const products: ZohoProductSubform[] = JSON.parse(productsData)
+  // Subform row id of the product to mark as contract
+  const rowId = formData.get('rowId') as string
   
   try {
-    const selectedProduct = products[productIndex]
-    
-    // Call Zoho API to update the product
-    await updateProductContractStatus(
-      dealId,
-      productIndex,
-      selectedProduct,
-      products
-    )
+    if (!rowId) {
+      // Rows Zoho sent without an id cannot be addressed - never send a selection that clears every row
+      throw new ZohoValidationError('The selected product row has no subform row id', {
+        code: 'SUBFORM_ROW_ID_MISSING',
+        operation: 'productSelectionAction'
+      })
+    }
 
-    // Update products with new contract status
-    const updatedProducts = products.map((product, index) => ({
-      ...product,
-      Is_Contract: index === productIndex
-    }))
+    // Call Zoho API to update the product; returns the rows as they are now in Zoho
+    const { products: updatedProducts } = await updateProductContractStatus(dealId, rowId)
+    const selectedProduct = updatedProducts.find(product => product.id === rowId)
+    if (!selectedProduct) {
+      // The rows are re-read from the Deal, where someone may have removed the selected one
+      throw new ZohoNotFoundError(`The selected product row is no longer on deal ${dealId}`, {
+        code: 'SUBFORM_ROW_NOT_FOUND',
+        payload: { rowId },
+        operation: 'productSelectionAction'
+      })
+    }
 
     // Show success notification
     showNotification(
-      `Successfully tagged "${selectedProduct.Products.name}" as the contract item.`,
+      `Successfully tagged "${getProductName(selectedProduct)}" as the contract item.`,
       'success'
     )
 
     return {
       ...currentState,
       products: updatedProducts,
-      lastUpdatedProduct: selectedProduct.Products.id,
+      lastUpdatedProduct: selectedProduct.id,
       error: null,
-      success: `Product "${selectedProduct.Products.name}" selected as contract item`
+      errorDetails: null,
+      success: `Product "${getProductName(selectedProduct)}" selected as contract item`
     }
   } catch (error) {
-    const errorMessage = `Failed to update contract status: ${error instanceof Error ? error.message : 'Unknown error'}`
+    const zohoError = toZohoApiError(error)
+    const errorMessage = `Failed to update contract status: ${zohoError.message}`
     
     showNotification('Failed to tag product as contract item', 'error')
     
+    // Keep the last confirmed products so the optimistic selection rolls back,
+    // and stop single-product auto-selection from retrying a rejected update in a loop
     return {
       ...currentState,
       error: errorMessage,
-      success: null
+      errorDetails: zohoError,
+      success: null,
+      isAutoSelectionApplied: true
     }
   }
 }
@@ -68,16 +91,9 @@ export async function clearContractsAction(
   formData: FormData
 ): Promise<ContractActionState> {
   const dealId = formData.get('dealId') as string
-  const productsData = formData.get('products') as string
-  const products: ZohoProductSubform[] = JSON.parse(productsData)
   
   try {
-    await clearAllContractSelections(dealId, products)
-    
-    const updatedProducts = products.map(product => ({
-      ...product,
-      Is_Contract: false
-    }))
+    const { products: updatedProducts } = await clearAllContractSelections(dealId)
     
     closeWidget('Contract selections cleared successfully - closing widget')
     
@@ -85,15 +101,18 @@ export async function clearContractsAction(
       ...currentState,
       products: updatedProducts,
       error: null,
+      errorDetails: null,
       success: 'All contract selections cleared'
     }
   } catch (error) {
-    const errorMessage = `Failed to clear contract selections: ${error instanceof Error ? error.message : 'Unknown error'}`
+    const zohoError = toZohoApiError(error)
+    const errorMessage = `Failed to clear contract selections: ${zohoError.message}`
     closeWidget('Manual close with error - notifying client script')
     
     return {
       ...currentState,
       error: errorMessage,
+      errorDetails: zohoError,
       success: null
     }
   }
@@ -103,41 +122,61 @@ export async function generatePMRequestAction(
   currentState: ContractActionState,
   formData: FormData
 ): Promise<ContractActionState> {
-  const dealId = formData.get('dealId') as string
   const productsData = formData.get('products') as string
   const products: ZohoProductSubform[] = JSON.parse(productsData)
+  // PM Request built by preparePMRequest and confirmed in the preview
+  const preview: PMRequestPreview = JSON.parse(formData.get('preview') as string)
+  // Update or revision of an existing PM Request, chosen in the preview when the deal already has one
+  const existingData = formData.get('existing') as string | null
+  const existingRequest: ExistingPMRequestAction | null = existingData ? JSON.parse(existingData) : null
   
   const contractProduct = products.find(product => product.Is_Contract)
-  if (!contractProduct) {
+  const requestType = isPMRequestType(preview.data.Request_Type) ? preview.data.Request_Type : 'Contract'
+  if (!contractProduct && getRequestTypeRule(requestType).requiresContractProduct) {
     return {
       ...currentState,
       error: 'No contract product selected. Please select a product first.',
+      errorDetails: null,
       success: null
     }
   }
+  const subject = contractProduct ? `"${getProductName(contractProduct)}"` : 'this deal'
 
   try {
-    await generatePMRequest(dealId)
+    const { requestId, linkedToDeal, summaryAttached } = await submitPMRequest(preview, getZohoClient(), { existingRequest })
     
+    const outcome = existingRequest?.mode === 'update'
+      ? 'updated'
+      : existingRequest?.mode === 'revision' ? 'revision created' : 'created'
     showNotification(
-      `PM Request created successfully for "${contractProduct.Products.name}"`,
+      `${requestType} PM Request ${outcome} successfully for ${subject}`,
       'success'
     )
     
     return {
       ...currentState,
       error: null,
-      success: `PM Request created for "${contractProduct.Products.name}"`
+      errorDetails: null,
+      success: `${requestType} PM Request ${outcome} for ${subject}`,
+      pmRequestResult: {
+        requestId,
+        mode: existingRequest?.mode === 'update' ? 'updated' : existingRequest?.mode === 'revision' ? 'revision' : 'created',
+        linkedToDeal,
+        summaryAttached
+      }
     }
   } catch (error) {
-    const errorMessage = `Failed to create PM Request: ${error instanceof Error ? error.message : 'Unknown error'}`
+    const zohoError = toZohoApiError(error)
+    const errorMessage = `Failed to create PM Request: ${zohoError.message}`
     
     showNotification('Failed to create PM Request', 'error')
     
     return {
       ...currentState,
       error: errorMessage,
-      success: null
+      errorDetails: zohoError,
+      success: null,
+      pmRequestResult: null
     }
   }
 }
@@ -1,6 +1,6 @@
-import { useRef, useCallback } from 'react'
+import { useRef, useCallback, useEffect, useState } from 'react'
 import type { ZohoProductSubform } from '../types/zoho'
-import { clearAllContractSelections, closeWidget } from '../utils/zohoApi'
+import { clearAllContractSelections, closeWidget, fetchPMRequestSummary, getZohoClient, type ExistingPMRequest, type ZohoCurrentUser } from '../utils/zohoApi'
 
 // Extend Window interface for our cleanup functions
 declare global {
@@ -17,7 +17,7 @@ export function useContractCleanup(products: ZohoProductSubform[], dealId: strin
   cleanupRef.current = useCallback(async () => {
     try {
       if (products.length > 0 && dealId) {
-        await clearAllContractSelections(dealId, products)
+        await clearAllContractSelections(dealId)
       }
       closeWidget('Widget cleanup completed - notifying client script')
     } catch (error) {
@@ -53,3 +53,64 @@ export function useCurrencyFormatter() {
     }).format(num)
   }, [])
 }
+
+// Current CRM user (null until loaded, or when it cannot be read)
+export function useCurrentUser() {
+  const [currentUser, setCurrentUser] = useState<ZohoCurrentUser | null>(null)
+
+  useEffect(() => {
+    let isCancelled = false
+
+    getZohoClient().getCurrentUser()
+      .then(user => {
+        if (!isCancelled) {
+          setCurrentUser(user)
+        }
+      })
+      .catch(error => {
+        console.warn('⚠️ Could not read the current CRM user:', error)
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [])
+
+  return currentUser
+}
+
+// PM Request linked from the Deal's PM_Request_Id (null when unset, missing or unreadable)
+export function useLinkedPMRequest(pmRequestId: string) {
+  // Keyed by the ID it was loaded for, so a new link shows as loading until it is read
+  const [loaded, setLoaded] = useState<{ requestId: string; request: ExistingPMRequest | null } | null>(null)
+
+  useEffect(() => {
+    if (!pmRequestId) {
+      return
+    }
+    let isCancelled = false
+
+    fetchPMRequestSummary(pmRequestId)
+      .then(request => {
+        if (!isCancelled) {
+          setLoaded({ requestId: pmRequestId, request })
+        }
+      })
+      .catch(error => {
+        console.warn('⚠️ Could not read the linked PM Request:', error)
+        if (!isCancelled) {
+          setLoaded({ requestId: pmRequestId, request: null })
+        }
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [pmRequestId])
+
+  const isCurrent = !!pmRequestId && loaded?.requestId === pmRequestId
+  return {
+    linkedRequest: isCurrent ? loaded.request : null,
+    isLoading: !!pmRequestId && !isCurrent
+  }
+}
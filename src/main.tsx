@@ -3,13 +3,25 @@ import { createRoot } from 'react-dom/client'
 import App from './App'
 import './index.css'
 import { type ZohoPageLoadData } from './types/zoho'
+import {
+  decodePageLoadData,
+  reportSchemaWarnings,
+  parseContactRolePriority,
+  setContactRolePriority,
+  parsePMAssignmentConfig,
+  setPMAssignmentConfig,
+  parseValidationOverrideConfig,
+  setValidationOverrideConfig,
+  parseDescriptionTemplates,
+  setDescriptionTemplates
+} from './utils/zohoApi'
 
 // Initialize Zoho EmbeddedApp with proper TypeScript support
 function initializeZohoApp(): void {
   try {
     // Check if ZOHO SDK is available
     if (!window.ZOHO) {
-      console.error('ZOHO SDK not available')
+      console.error('ZOHO SDK not available - open the widget with ?simulator to run it against local fixtures')
       return
     }
 
@@ -17,9 +29,10 @@ function initializeZohoApp(): void {
     window.ZOHO.embeddedApp?.on("PageLoad", function (data: unknown) {
       console.log("PageLoad data received:", data)
 
-      // Type guard and validate data structure
-      const pageLoadData = data as ZohoPageLoadData
-      if (!pageLoadData || !pageLoadData.data) {
+      // Decode the payload at runtime - renamed fields or null lookups become warnings, not crashes
+      const { value: pageLoadData, warnings } = decodePageLoadData(data)
+      reportSchemaWarnings('PageLoad', warnings)
+      if (!pageLoadData) {
         console.error('Invalid PageLoad data received:', data)
         return
       }
@@ -63,9 +76,94 @@ function renderApp(data: ZohoPageLoadData): void {
   }
 }
 
+// Decide whether to run against the local Zoho SDK simulator instead of a CRM org
+function shouldUseZohoSimulator(): boolean {
+  const params = new URLSearchParams(window.location.search)
+  return import.meta.env.VITE_ZOHO_SIMULATOR === 'true' ||
+    params.has('simulator') ||
+    (import.meta.env.DEV && !window.ZOHO)
+}
+
+// Apply the Contact Role priority configured for this deployment, if any
+function configureContactRolePriority(): void {
+  const rawConfig = import.meta.env.VITE_CONTACT_ROLE_PRIORITY
+  if (!rawConfig) {
+    return
+  }
+
+  try {
+    setContactRolePriority(parseContactRolePriority(rawConfig))
+  } catch (error) {
+    console.error('Invalid VITE_CONTACT_ROLE_PRIORITY - using the default contact role order:', error)
+  }
+}
+
+// Apply the PM assignment rules configured for this deployment, if any
+function configurePMAssignment(): void {
+  const rawConfig = import.meta.env.VITE_PM_ASSIGNMENT_RULES
+  if (!rawConfig) {
+    return
+  }
+
+  try {
+    setPMAssignmentConfig(parsePMAssignmentConfig(rawConfig))
+  } catch (error) {
+    console.error('Invalid VITE_PM_ASSIGNMENT_RULES - assigning every request to the fallback PM:', error)
+  }
+}
+
+// Apply who may override missing required fields, if configured
+function configureValidationOverride(): void {
+  const rawConfig = import.meta.env.VITE_VALIDATION_OVERRIDE
+  if (!rawConfig) {
+    return
+  }
+
+  try {
+    setValidationOverrideConfig(parseValidationOverrideConfig(rawConfig))
+  } catch (error) {
+    console.error('Invalid VITE_VALIDATION_OVERRIDE - only Administrators can override Circuit ID and Contract ID:', error)
+  }
+}
+
+// Apply the Request_Descriptions templates configured for this deployment, if any
+function configureDescriptionTemplates(): void {
+  const rawConfig = import.meta.env.VITE_PM_REQUEST_DESCRIPTION_TEMPLATES
+  if (!rawConfig) {
+    return
+  }
+
+  try {
+    setDescriptionTemplates(parseDescriptionTemplates(rawConfig))
+  } catch (error) {
+    console.error('Invalid VITE_PM_REQUEST_DESCRIPTION_TEMPLATES - using the default description templates:', error)
+  }
+}
+
+// Install the simulator (if enabled) before the SDK is initialized
+async function startApp(): Promise<void> {
+  configureContactRolePriority()
+  configurePMAssignment()
+  configureValidationOverride()
+  configureDescriptionTemplates()
+
+  if (shouldUseZohoSimulator()) {
+    try {
+      const { installDefaultZohoSimulator } = await import('./utils/zoho/simulator')
+      const dealId = new URLSearchParams(window.location.search).get('deal') ||
+        import.meta.env.VITE_ZOHO_SIMULATOR_DEAL
+      installDefaultZohoSimulator(dealId || undefined)
+    } catch (error) {
+      console.error('Error installing Zoho SDK simulator:', error)
+    }
+  }
+
+  initializeZohoApp()
+}
+
 // Wait for DOM to be ready and ZOHO SDK to be available
 if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', initializeZohoApp)
+  document.addEventListener('DOMContentLoaded', startApp)
 } else {
-  initializeZohoApp()
+  startApp()
 }
\ No newline at end of file
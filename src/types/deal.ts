@@ -0,0 +1,47 @@
+// Canonical Deal domain model
+// Built from PageLoad data or a getRecord('Deals') response by the adapters in
+// utils/zoho/deal/dealAdapters.ts - the only place that knows the Zoho API field names
+
+import type { ZohoProductSubform } from './zoho'
+
+export interface DealLookup {
+  id: string
+  name: string
+}
+
+export interface DealAddress {
+  street: string
+  city: string
+  state: string
+  zip: string
+}
+
+export interface Deal {
+  id: string
+  name: string
+  stage: string
+  account: DealLookup | null
+  contact: DealLookup | null
+  owner: DealLookup | null
+  department: string
+  description: string
+  currentServices: string
+  accountNumber: string
+  subAccountId: string
+  circuitId: string
+  dataInterfaceType: string
+  contractIdNumber: string
+  portingMovingTns: boolean
+  contractProduct: boolean
+  pmRequestId: string
+  // Request type flags: MAC_P and Previous_Deal_Disconnect are "Yes"/"No" picklists
+  macP: string
+  previousDealDisconnect: string
+  isDisconnected: boolean
+  // PM Request service address - the Deal's Street/City/State/Zip_Code1 fields
+  serviceAddress: DealAddress
+  // PM Request billing address - the Deal's Service_* fields (as in the Deluge automation)
+  billingAddress: DealAddress
+  // Subform_1 rows are kept in Zoho shape; contract selection writes address them by row id
+  products: ZohoProductSubform[]
+}
@@ -19,9 +19,12 @@ export interface ZohoProduct {
 }
 
 export interface ZohoProductSubform {
+  // Subform row id - identifies the row in subform updates ('' when Zoho sent none)
+  id: string
   Is_Contract: boolean
   Main_Product: boolean
-  Products: ZohoProduct
+  // null when the product lookup is empty or the product was deleted
+  Products: ZohoProduct | null
   Product_Type: string
   Quantity: number
   Terms: string
@@ -29,6 +32,8 @@ export interface ZohoProductSubform {
   Total_Pricing: string
   Vendor: string | null
   Product_Grouping?: string
+  // Site address of the row on multi-location deals (free text, optional)
+  Service_Address?: string
 }
 
 export interface ZohoDealData {
@@ -129,6 +134,7 @@ declare global {
             closeReload?: () => void
           }
           Record?: {
+            open?: (options: { Entity: string; RecordID: string }) => Promise<unknown>
             refresh?: () => void
           }
         }
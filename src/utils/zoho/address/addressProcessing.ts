@@ -1,4 +1,5 @@
-import type { ZohoDealRecord } from '../types'
+import type { Deal, DealAddress } from '../../../types/deal'
+import type { ZohoProductSubform } from '../../../types/zoho'
 
 /**
  * Address Processing Module
@@ -8,18 +9,20 @@ import type { ZohoDealRecord } from '../types'
 export interface AddressInfo {
   serviceAddress: string
   billingAddress: string
+  // Product group whose rows supplied the service address (multi-location requests)
+  serviceAddressGrouping?: string
 }
 
 /**
  * Builds formatted addresses from deal data
- * @param dealData - The deal record containing address fields
+ * @param deal - The deal containing the address fields
  * @returns Formatted service and billing addresses
  */
-export function buildAddresses(dealData: ZohoDealRecord): AddressInfo {
+export function buildAddresses(deal: Deal): AddressInfo {
   console.log('🏠 Building addresses from deal data...')
   
-  const serviceAddress = buildServiceAddress(dealData)
-  const billingAddress = buildBillingAddress(dealData)
+  const serviceAddress = buildServiceAddress(deal)
+  const billingAddress = buildBillingAddress(deal)
   
   console.log('📍 Address Summary:', {
     serviceAddress: serviceAddress || '(No service address)',
@@ -33,28 +36,36 @@ export function buildAddresses(dealData: ZohoDealRecord): AddressInfo {
 }
 
 /**
- * Builds service address from deal fields
+ * Builds the addresses of one product group's PM Request
+ * The service address is the group's row-level Service_Address where one is filled in,
+ * otherwise the deal's service address
+ * @param deal - The deal containing the address fields
+ * @param grouping - Product_Grouping of the group
+ * @param products - Product rows of the group
  */
-function buildServiceAddress(dealData: ZohoDealRecord): string {
-  const addressParts = [
-    dealData.Street || '',
-    dealData.City || '',
-    dealData.State || '',
-    dealData.Zip_Code1 || ''
-  ]
-  
-  const serviceAddress = addressParts
-    .filter(part => part.trim() !== '')
-    .join(' ')
-    .trim()
+export function buildProductGroupAddresses(deal: Deal, grouping: string, products: ZohoProductSubform[]): AddressInfo {
+  const addresses = buildAddresses(deal)
+  const groupServiceAddress = products
+    .map(product => product.Service_Address?.trim() ?? '')
+    .find(address => address !== '')
+
+  if (!groupServiceAddress) {
+    console.log('🏢 No service address on product group, using the deal service address:', grouping)
+    return addresses
+  }
+
+  console.log('🏢 Product group service address:', { grouping, serviceAddress: groupServiceAddress })
+  return { ...addresses, serviceAddress: groupServiceAddress, serviceAddressGrouping: grouping }
+}
+
+/**
+ * Builds service address from the deal's service address fields
+ */
+function buildServiceAddress(deal: Deal): string {
+  const serviceAddress = formatAddress(deal.serviceAddress)
   
   console.log('🏢 Service Address:', {
-    parts: {
-      street: dealData.Street || '(empty)',
-      city: dealData.City || '(empty)',
-      state: dealData.State || '(empty)',
-      zip: dealData.Zip_Code1 || '(empty)'
-    },
+    parts: describeAddressParts(deal.serviceAddress),
     formatted: serviceAddress || '(empty)'
   })
   
@@ -62,34 +73,41 @@ function buildServiceAddress(dealData: ZohoDealRecord): string {
 }
 
 /**
- * Builds billing address from deal fields
+ * Builds billing address from the deal's billing address fields
  */
-function buildBillingAddress(dealData: ZohoDealRecord): string {
-  const addressParts = [
-    dealData.Service_Street || '',
-    dealData.Service_City || '',
-    dealData.Service_State || '',
-    dealData.Service_Zip_Code || ''
-  ]
-  
-  const billingAddress = addressParts
-    .filter(part => part.trim() !== '')
-    .join(' ')
-    .trim()
+function buildBillingAddress(deal: Deal): string {
+  const billingAddress = formatAddress(deal.billingAddress)
   
   console.log('🏠 Billing Address:', {
-    parts: {
-      street: dealData.Service_Street || '(empty)',
-      city: dealData.Service_City || '(empty)',
-      state: dealData.Service_State || '(empty)',
-      zip: dealData.Service_Zip_Code || '(empty)'
-    },
+    parts: describeAddressParts(deal.billingAddress),
     formatted: billingAddress || '(empty)'
   })
   
   return billingAddress
 }
 
+/**
+ * Joins the non-empty address parts with spaces
+ */
+function formatAddress(address: DealAddress): string {
+  return [address.street, address.city, address.state, address.zip]
+    .filter(part => part.trim() !== '')
+    .join(' ')
+    .trim()
+}
+
+/**
+ * Address parts for logging, with empty parts marked
+ */
+function describeAddressParts(address: DealAddress): DealAddress {
+  return {
+    street: address.street || '(empty)',
+    city: address.city || '(empty)',
+    state: address.state || '(empty)',
+    zip: address.zip || '(empty)'
+  }
+}
+
 /**
  * Validates if an address has minimum required components
  */
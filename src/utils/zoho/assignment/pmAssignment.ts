@@ -0,0 +1,307 @@
+import type { Deal } from '../../../types/deal'
+import { getZohoClient, type ZohoClient } from '../client'
+import { toZohoApiError } from '../errors'
+import { recordDebugEvent } from '../debugLog'
+
+/**
+ * PM Assignment Module
+ * Picks the Assigned_PM of a PM Request from declarative rules (product type, service state,
+ * deal department, vendor) with a fallback PM. A rule either names a PM or rotates through a
+ * roster; the rotation continues after the PM of the newest PM_REQUEST assigned to the roster,
+ * so every rep's browser shares the same position.
+ */
+
+export interface PMAssignmentCriteria {
+  productType?: string[]
+  // The Deal's Service_State field
+  serviceState?: string[]
+  // The Deal's Deal_Department field
+  department?: string[]
+  // Vendor of the contract product
+  vendor?: string[]
+}
+
+export interface PMAssignmentRule {
+  id: string
+  // Shown in the pre-submit view, e.g. "Broadband in CA"
+  label: string
+  // Every listed criterion must match; a rule without criteria matches every request
+  when: PMAssignmentCriteria
+  // Fixed PM for the rule
+  pm?: string
+  // PMs assigned in turn (used when pm is not set)
+  roundRobin?: string[]
+}
+
+export interface PMAssignmentConfig {
+  // Checked in order, first match wins
+  rules: PMAssignmentRule[]
+  // PM used when no rule matches
+  fallbackPm: string
+}
+
+export interface PMAssignmentInput {
+  productType: string
+  serviceState: string
+  department: string
+  vendor: string
+}
+
+export interface PMAssignment {
+  pm: string
+  // Matching rule, or null when the fallback PM was used
+  ruleId: string | null
+  // Why this PM was chosen, e.g. 'Rule "Broadband in CA" (round-robin 2 of 3)'
+  reason: string
+  // Roster position used, for round-robin rules (null until the rotation was looked up)
+  roundRobinIndex: number | null
+}
+
+export const DEFAULT_PM_ASSIGNMENT_CONFIG: PMAssignmentConfig = {
+  rules: [],
+  fallbackPm: 'Marifel Esperida'
+}
+
+// PM_REQUEST search pages read to find the newest request of a roster (search results are not sorted)
+const MAX_ROSTER_SEARCH_PAGES = 5
+const ROSTER_SEARCH_PAGE_SIZE = 200
+
+let activeConfig: PMAssignmentConfig = DEFAULT_PM_ASSIGNMENT_CONFIG
+
+/**
+ * Returns the active assignment configuration
+ */
+export function getPMAssignmentConfig(): PMAssignmentConfig {
+  return activeConfig
+}
+
+/**
+ * Replaces the assignment configuration (missing sections fall back to the defaults)
+ * @param config - New configuration, or null to restore the defaults
+ */
+export function setPMAssignmentConfig(config: Partial<PMAssignmentConfig> | null): void {
+  activeConfig = config
+    ? { ...DEFAULT_PM_ASSIGNMENT_CONFIG, ...config }
+    : DEFAULT_PM_ASSIGNMENT_CONFIG
+  console.log('⚙️ PM assignment rules updated:', activeConfig)
+}
+
+/**
+ * Parses an assignment configuration from JSON (e.g. the VITE_PM_ASSIGNMENT_RULES variable)
+ * @param json - JSON object with optional rules and fallbackPm
+ * @returns Partial configuration for setPMAssignmentConfig
+ * @throws Error when the JSON is malformed or a rule has the wrong shape
+ */
+export function parsePMAssignmentConfig(json: string): Partial<PMAssignmentConfig> {
+  const parsed: unknown = JSON.parse(json)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('PM assignment rules must be a JSON object')
+  }
+
+  const { rules, fallbackPm } = parsed as Record<string, unknown>
+  const config: Partial<PMAssignmentConfig> = {}
+
+  if (fallbackPm !== undefined) {
+    if (typeof fallbackPm !== 'string' || !fallbackPm.trim()) throw new Error('"fallbackPm" must be a PM name')
+    config.fallbackPm = fallbackPm
+  }
+  if (rules !== undefined) {
+    if (!Array.isArray(rules)) throw new Error('"rules" must be an array')
+    config.rules = rules.map((rule, index) => parseRule(rule, index))
+  }
+
+  return config
+}
+
+/**
+ * Builds the assignment input from a deal and its contract product
+ * @param deal - The deal
+ * @param productType - Contract product type
+ * @param vendor - Contract product vendor
+ */
+export function buildPMAssignmentInput(deal: Deal, productType: string, vendor: string): PMAssignmentInput {
+  return {
+    productType,
+    // Service_State is mapped to the PM Request billing address (see Deal)
+    serviceState: deal.billingAddress.state,
+    department: deal.department,
+    vendor
+  }
+}
+
+/**
+ * Picks the PM for a request
+ * @param input - Product type, service state, department and vendor of the request
+ * @param config - Configuration to apply (defaults to the active one)
+ * @param lastAssignedPm - For a round-robin rule, the PM of the newest request assigned to its
+ *                         roster ('' when there is none); leave out to only name the rule
+ * @returns The chosen PM and the rule that matched; pm is '' for a round-robin rule whose
+ *          rotation was not looked up
+ */
+export function resolvePMAssignment(
+  input: PMAssignmentInput,
+  config: PMAssignmentConfig = getPMAssignmentConfig(),
+  lastAssignedPm?: string
+): PMAssignment {
+  const rule = findMatchingRule(input, config)
+
+  if (rule?.pm) {
+    return { pm: rule.pm, ruleId: rule.id, reason: `Rule "${rule.label}"`, roundRobinIndex: null }
+  }
+
+  if (rule?.roundRobin && rule.roundRobin.length > 0) {
+    const roster = rule.roundRobin
+    if (lastAssignedPm === undefined) {
+      return {
+        pm: '',
+        ruleId: rule.id,
+        reason: `Rule "${rule.label}" (round-robin of ${roster.length} PMs, picked when the request is prepared)`,
+        roundRobinIndex: null
+      }
+    }
+
+    // Next PM after the last one assigned; the first PM when the last one is not on the roster
+    const lastPosition = roster.findIndex(pm => normalizeValue(pm) === normalizeValue(lastAssignedPm))
+    const position = (lastPosition + 1) % roster.length
+    return {
+      pm: roster[position],
+      ruleId: rule.id,
+      reason: `Rule "${rule.label}" (round-robin ${position + 1} of ${roster.length}` +
+        `${lastPosition >= 0 ? `, after ${roster[lastPosition]}` : ''})`,
+      roundRobinIndex: position
+    }
+  }
+
+  return { pm: config.fallbackPm, ruleId: null, reason: 'No rule matched - fallback PM', roundRobinIndex: null }
+}
+
+/**
+ * Picks the PM for a request, looking up the round-robin position in the CRM
+ * Nothing is written - the next request continues the rotation from the record this one creates
+ * @param input - Product type, service state, department and vendor of the request
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param config - Configuration to apply (defaults to the active one)
+ * @returns The chosen PM and the rule that matched
+ */
+export async function resolvePMAssignmentFromCRM(
+  input: PMAssignmentInput,
+  client: ZohoClient = getZohoClient(),
+  config: PMAssignmentConfig = getPMAssignmentConfig()
+): Promise<PMAssignment> {
+  const rule = findMatchingRule(input, config)
+  const lastAssignedPm = rule && !rule.pm && rule.roundRobin && rule.roundRobin.length > 0
+    ? await findLastAssignedPM(rule.roundRobin, client)
+    : undefined
+  return resolvePMAssignment(input, config, lastAssignedPm)
+}
+
+/**
+ * Finds the Assigned_PM of the newest PM_REQUEST assigned to one of the roster's PMs
+ * A failed lookup is logged and treated as no previous request, so the rotation starts over
+ * rather than blocking the request
+ */
+async function findLastAssignedPM(roster: string[], client: ZohoClient): Promise<string> {
+  const conditions = roster.map(pm => `(Assigned_PM:equals:${pm})`)
+  const criteria = conditions.length > 1 ? `(${conditions.join('or')})` : conditions[0]
+  let newest: { pm: string; createdTime: string } | null = null
+  let moreRecords = false
+  let page = 0
+
+  try {
+    do {
+      page++
+      const response = await client.searchRecords('PM_REQUEST', criteria, { page, perPage: ROSTER_SEARCH_PAGE_SIZE })
+      for (const record of response.data ?? []) {
+        if (!record || typeof record !== 'object') continue
+        const pm = readAssignedPM(record as Record<string, unknown>)
+        const createdTime = String((record as Record<string, unknown>).Created_Time ?? '')
+        if (pm && (!newest || createdTime > newest.createdTime)) {
+          newest = { pm, createdTime }
+        }
+      }
+      moreRecords = !!response.info?.more_records
+    } while (moreRecords && page < MAX_ROSTER_SEARCH_PAGES)
+  } catch (error) {
+    const zohoError = toZohoApiError(error, 'findLastAssignedPM')
+    if (zohoError.kind !== 'not_found') {
+      console.warn('⚠️ Could not look up the round-robin position, starting with the first PM:', zohoError)
+      recordDebugEvent({
+        level: 'warning',
+        category: 'pm_request',
+        message: `Round-robin lookup failed, assigned the first PM of the roster: ${zohoError.message}`,
+        details: zohoError
+      })
+    }
+  }
+
+  if (moreRecords) {
+    console.warn(`⚠️ Stopped looking for the last round-robin assignment after ${MAX_ROSTER_SEARCH_PAGES} pages`)
+  }
+  console.log('🔁 Last round-robin assignment:', newest ?? 'none')
+  return newest?.pm ?? ''
+}
+
+// Assigned_PM is written as a name; a user lookup is read by its name
+function readAssignedPM(record: Record<string, unknown>): string {
+  const value = record.Assigned_PM
+  if (typeof value === 'string') return value
+  if (value && typeof value === 'object' && 'name' in value) return String((value as { name: unknown }).name ?? '')
+  return ''
+}
+
+function findMatchingRule(input: PMAssignmentInput, config: PMAssignmentConfig): PMAssignmentRule | undefined {
+  return config.rules.find(candidate => matchesRule(candidate, input))
+}
+
+function matchesRule(rule: PMAssignmentRule, input: PMAssignmentInput): boolean {
+  const { productType, serviceState, department, vendor } = rule.when
+  return matchesAny(productType, input.productType) &&
+    matchesAny(serviceState, input.serviceState) &&
+    matchesAny(department, input.department) &&
+    matchesAny(vendor, input.vendor)
+}
+
+// An unset criterion matches everything; values are compared ignoring case and dashes
+function matchesAny(allowed: string[] | undefined, value: string): boolean {
+  if (!allowed || allowed.length === 0) return true
+  const wanted = normalizeValue(value)
+  return allowed.some(candidate => normalizeValue(candidate) === wanted)
+}
+
+function normalizeValue(value: string): string {
+  return value.replace(/-/g, ' ').trim().toLowerCase()
+}
+
+function parseRule(raw: unknown, index: number): PMAssignmentRule {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Rule ${index + 1} must be an object`)
+  }
+
+  const rule = raw as Record<string, unknown>
+  const id = typeof rule.id === 'string' && rule.id ? rule.id : `rule-${index + 1}`
+  const pm = typeof rule.pm === 'string' && rule.pm ? rule.pm : undefined
+  const roundRobin = isStringList(rule.roundRobin) && rule.roundRobin.length > 0 ? rule.roundRobin : undefined
+  if (!pm && !roundRobin) {
+    throw new Error(`Rule "${id}" needs a "pm" or a non-empty "roundRobin" roster`)
+  }
+
+  const when = rule.when && typeof rule.when === 'object' ? rule.when as Record<string, unknown> : {}
+  const criteria: PMAssignmentCriteria = {}
+  for (const key of ['productType', 'serviceState', 'department', 'vendor'] as const) {
+    if (when[key] === undefined) continue
+    if (!isStringList(when[key])) throw new Error(`Rule "${id}": "when.${key}" must be an array of values`)
+    criteria[key] = when[key]
+  }
+
+  return {
+    id,
+    label: typeof rule.label === 'string' && rule.label ? rule.label : id,
+    when: criteria,
+    pm,
+    roundRobin
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
@@ -0,0 +1,183 @@
+import type {
+  ZohoApiResponse,
+  ZohoUpdateResponse,
+  ZohoConnectionRequest,
+  ZohoCurrentUser,
+  ZohoExtendedWindow
+} from './types'
+import { zohoApiCall, validateZohoAPI, type ZohoApiCallOptions } from './core'
+import { ZohoNotFoundError } from './errors'
+import { decodeCurrentUserResponse, reportSchemaWarnings } from './schema/schemaDecoders'
+
+/**
+ * Zoho Client Module
+ * Transport used by the deal, product and PM Request operations to talk to Zoho CRM.
+ * Business logic receives a ZohoClient instead of reaching into window.ZOHO directly,
+ * so the SDK can be swapped for a mock, a recording client or a REST implementation.
+ */
+
+export interface ZohoWriteOptions {
+  // Automation to run on write (e.g. ['workflow'] or ['approval', 'workflow', 'blueprint'])
+  trigger?: string[]
+}
+
+export interface ZohoSearchOptions {
+  page?: number
+  perPage?: number
+}
+
+export interface ZohoAttachmentFile {
+  // File name shown in the record's Attachments related list
+  name: string
+  content: Blob
+}
+
+export interface ZohoClient {
+  getRecord(entity: string, recordId: string): Promise<ZohoApiResponse>
+  updateRecord(entity: string, data: Record<string, unknown> & { id: string }, options?: ZohoWriteOptions): Promise<ZohoUpdateResponse>
+  insertRecord(entity: string, data: Record<string, unknown>, options?: ZohoWriteOptions): Promise<ZohoUpdateResponse>
+  searchRecords(entity: string, criteria: string, options?: ZohoSearchOptions): Promise<ZohoApiResponse>
+  attachFile(entity: string, recordId: string, file: ZohoAttachmentFile): Promise<ZohoUpdateResponse>
+  invokeConnection<T = unknown>(connectionName: string, request: ZohoConnectionRequest): Promise<T>
+  getCurrentUser(): Promise<ZohoCurrentUser>
+}
+
+export type ZohoRetryOptions = Omit<ZohoApiCallOptions, 'operation' | 'idempotent'>
+
+/**
+ * Creates the default client backed by the Zoho EmbeddedApp SDK (window.ZOHO)
+ * The SDK is looked up on every call, so the client can be created before ZOHO is ready
+ * @param retryOptions - Retry, backoff and timeout settings applied to every call
+ * @returns ZohoClient implementation over ZOHO.CRM.API and ZOHO.CRM.CONNECTION
+ */
+export function createSdkZohoClient(retryOptions: ZohoRetryOptions = {}): ZohoClient {
+  const getApi = () => {
+    validateZohoAPI()
+    return (window as unknown as ZohoExtendedWindow).ZOHO!.CRM!.API!
+  }
+
+  return {
+    getRecord(entity, recordId) {
+      return zohoApiCall(async () => {
+        const response = await getApi().getRecord!({
+          Entity: entity,
+          RecordID: recordId
+        })
+        return response as ZohoApiResponse
+      }, { ...retryOptions, operation: `getRecord ${entity}/${recordId}` })
+    },
+
+    updateRecord(entity, data, options = {}) {
+      return zohoApiCall(async () => {
+        const response = await getApi().updateRecord!({
+          Entity: entity,
+          APIData: data,
+          Trigger: options.trigger ?? []
+        })
+        return response as ZohoUpdateResponse
+      }, { ...retryOptions, operation: `updateRecord ${entity}/${data.id}` })
+    },
+
+    insertRecord(entity, data, options = {}) {
+      return zohoApiCall(async () => {
+        const response = await getApi().insertRecord!({
+          Entity: entity,
+          APIData: data,
+          Trigger: options.trigger ?? []
+        })
+        return response as ZohoUpdateResponse
+      }, { ...retryOptions, operation: `insertRecord ${entity}`, idempotent: false })
+    },
+
+    searchRecords(entity, criteria, options = {}) {
+      return zohoApiCall(async () => {
+        const searchRecord = getApi().searchRecord
+        if (!searchRecord) {
+          throw new Error('ZOHO.CRM.API.searchRecord not available')
+        }
+
+        const response = await searchRecord({
+          Entity: entity,
+          Type: 'criteria',
+          Query: criteria,
+          page: options.page ?? 1,
+          per_page: options.perPage ?? 200
+        })
+        // searchRecord resolves without a body (HTTP 204) when nothing matches
+        return (response || { data: [] }) as ZohoApiResponse
+      }, { ...retryOptions, operation: `searchRecord ${entity} ${criteria}` })
+    },
+
+    attachFile(entity, recordId, file) {
+      return zohoApiCall(async () => {
+        const attachFile = getApi().attachFile
+        if (!attachFile) {
+          throw new Error('ZOHO.CRM.API.attachFile not available')
+        }
+
+        const response = await attachFile({
+          Entity: entity,
+          RecordID: recordId,
+          File: { Name: file.name, Content: file.content }
+        })
+        return response as ZohoUpdateResponse
+      }, { ...retryOptions, operation: `attachFile ${entity}/${recordId} ${file.name}`, idempotent: false })
+    },
+
+    invokeConnection<T>(connectionName: string, request: ZohoConnectionRequest) {
+      return zohoApiCall(async () => {
+        const connection = (window as unknown as ZohoExtendedWindow).ZOHO?.CRM?.CONNECTION
+        if (!connection?.invoke) {
+          throw new Error('ZOHO.CRM.CONNECTION not available')
+        }
+
+        const response = await connection.invoke(connectionName, { ...request })
+        return response as T
+      }, {
+        ...retryOptions,
+        operation: `CONNECTION.invoke ${request.method} ${request.url}`,
+        idempotent: request.method === 'GET'
+      })
+    },
+
+    async getCurrentUser() {
+      const response = await zohoApiCall(async () => {
+        const config = (window as unknown as ZohoExtendedWindow).ZOHO?.CRM?.CONFIG
+        if (!config?.getCurrentUser) {
+          throw new Error('ZOHO.CRM.CONFIG.getCurrentUser not available')
+        }
+        return config.getCurrentUser()
+      }, { ...retryOptions, operation: 'CONFIG.getCurrentUser' })
+
+      const { value, warnings } = decodeCurrentUserResponse(response)
+      reportSchemaWarnings('CurrentUser', warnings)
+      if (!value) {
+        throw new ZohoNotFoundError('Current CRM user could not be read', {
+          code: 'USER_NOT_FOUND',
+          operation: 'CONFIG.getCurrentUser'
+        })
+      }
+      return value
+    }
+  }
+}
+
+let activeClient: ZohoClient | null = null
+
+/**
+ * Returns the client used when an operation is not given one explicitly
+ */
+export function getZohoClient(): ZohoClient {
+  if (!activeClient) {
+    activeClient = createSdkZohoClient()
+  }
+  return activeClient
+}
+
+/**
+ * Replaces the default client (pass null to go back to the SDK client)
+ * @param client - Client to use for all operations that are not given one explicitly
+ */
+export function setZohoClient(client: ZohoClient | null): void {
+  activeClient = client
+}
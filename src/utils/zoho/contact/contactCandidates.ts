@@ -0,0 +1,250 @@
+import type { ZohoAccountRecord, ZohoContact } from '../types'
+import type { Deal } from '../../../types/deal'
+import { getZohoClient, type ZohoClient } from '../client'
+import { fetchContactData, fetchAccountData } from '../dealOperations'
+import { fetchDealContactRoles } from './contactRoles'
+import {
+  describeContactResolution,
+  findPreferredContactRole,
+  resolveContactRolePriority,
+  type ContactResolutionMethod,
+  type ContactRoleContext
+} from './contactRolePriority'
+
+/**
+ * Contact Candidates Module
+ * Collects every contact that could go on a PM Request (Contact Roles, the Deal's Contact_Name
+ * and the Account's Primary_Contact) and explains which one the automatic lookup would pick,
+ * so the user can confirm or override it before generation.
+ */
+
+export type ContactCandidateSource = 'contact_role' | 'deal_contact' | 'account_primary'
+
+export interface ContactCandidate {
+  contactId: string
+  name: string
+  email: string
+  phone: string
+  // Where the contact was found (a contact can appear in several places)
+  sources: ContactCandidateSource[]
+  // Every Contact Role the contact has on the deal, in the order the roles were loaded
+  roleNames: string[]
+  // The role the Contact Role priority picks for this contact - the highest-ranked of
+  // roleNames, else the first ('' when the contact has no role)
+  roleName: string
+}
+
+export interface ContactCandidates {
+  candidates: ContactCandidate[]
+  // Contact the automatic lookup would put on the PM Request
+  autoSelectedId: string | null
+  // How the automatic lookup reaches that contact, e.g. 'Contact Role "Primary Contact"'
+  autoSelectionMethod: string
+  autoResolutionMethod: ContactResolutionMethod
+  // Contact Role order applied to this deal
+  rolePriority: string[]
+  // Sources that could not be loaded (the list may be incomplete)
+  failedSources: ContactCandidateSource[]
+}
+
+/**
+ * Contact chosen or edited by the user; overrides the automatic lookup in generatePMRequest
+ */
+export interface ContactSelection {
+  id: string | null
+  name: string
+  email: string
+  phone: string
+}
+
+const SOURCE_LABELS: Record<ContactCandidateSource, string> = {
+  contact_role: 'Contact Role',
+  deal_contact: 'Deal Contact',
+  account_primary: 'Account Primary Contact'
+}
+
+/**
+ * Lists every candidate contact for a deal's PM Request
+ * Each source is loaded independently; a failing source is reported in failedSources
+ * @param deal - The deal (its contact and account lookups are candidate sources)
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param context - Request and product type, used to pick the Contact Role priority list
+ * @returns Candidates in lookup order plus the automatic pick
+ */
+export async function fetchContactCandidates(
+  deal: Deal,
+  client: ZohoClient = getZohoClient(),
+  context: ContactRoleContext = {}
+): Promise<ContactCandidates> {
+  console.log('👥 Loading contact candidates for deal:', deal.id)
+
+  const candidates: ContactCandidate[] = []
+  const failedSources: ContactCandidateSource[] = []
+
+  const addCandidate = (candidate: Omit<ContactCandidate, 'sources' | 'roleName'>, source: ContactCandidateSource) => {
+    const existing = candidates.find(item => item.contactId === candidate.contactId)
+    if (existing) {
+      if (!existing.sources.includes(source)) existing.sources.push(source)
+      existing.name = existing.name || candidate.name
+      existing.email = existing.email || candidate.email
+      existing.phone = existing.phone || candidate.phone
+      // A contact can hold several roles; keep all of them for the role priority
+      existing.roleNames.push(...candidate.roleNames.filter(roleName => !existing.roleNames.includes(roleName)))
+      return
+    }
+    candidates.push({ ...candidate, roleNames: [...candidate.roleNames], roleName: '', sources: [source] })
+  }
+
+  try {
+    const roles = await fetchDealContactRoles(deal.id, client)
+    roles.forEach(role => addCandidate({
+      contactId: role.contactId,
+      name: role.name,
+      email: role.email,
+      phone: role.phone,
+      roleNames: role.roleName ? [role.roleName] : []
+    }, 'contact_role'))
+  } catch (error) {
+    console.warn('⚠️ Could not load Contact Roles for candidates:', error)
+    failedSources.push('contact_role')
+  }
+
+  if (deal.contact?.id) {
+    try {
+      const contact = await fetchContactRecord(deal.contact.id, client)
+      addCandidate({
+        contactId: deal.contact.id,
+        name: readContactName(contact) || deal.contact.name,
+        email: contact?.Email || '',
+        phone: contact?.Phone || '',
+        roleNames: []
+      }, 'deal_contact')
+    } catch (error) {
+      console.warn('⚠️ Could not load the deal contact for candidates:', error)
+      failedSources.push('deal_contact')
+    }
+  }
+
+  if (deal.account?.id) {
+    try {
+      const accountResponse = await fetchAccountData(deal.account.id, client)
+      const account = accountResponse.data?.[0] as ZohoAccountRecord | undefined
+      const primaryContact = account?.Primary_Contact
+      if (primaryContact?.id) {
+        const contact = await fetchContactRecord(primaryContact.id, client)
+        addCandidate({
+          contactId: primaryContact.id,
+          name: readContactName(contact) || primaryContact.name || '',
+          email: contact?.Email || '',
+          phone: contact?.Phone || '',
+          roleNames: []
+        }, 'account_primary')
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load the account primary contact for candidates:', error)
+      failedSources.push('account_primary')
+    }
+  }
+
+  const rolePriority = resolveContactRolePriority(context)
+  for (const candidate of candidates) {
+    candidate.roleName = getCandidateRoleName(candidate, rolePriority)
+  }
+  const { candidate: autoSelected, method, resolutionMethod } = pickAutomaticContact(candidates, rolePriority)
+  console.log('👥 Contact candidates loaded:', {
+    count: candidates.length,
+    autoSelectedId: autoSelected?.contactId ?? null,
+    method,
+    rolePriority,
+    failedSources
+  })
+
+  return {
+    candidates,
+    autoSelectedId: autoSelected?.contactId ?? null,
+    autoSelectionMethod: method,
+    autoResolutionMethod: resolutionMethod,
+    rolePriority,
+    failedSources
+  }
+}
+
+/**
+ * Applies the same order as findAndValidatePrimaryContact: the highest-ranked Contact Role in the
+ * priority list, the first Contact Role, the Deal's Contact_Name, then the Account's Primary_Contact
+ * @param candidates - Candidates from fetchContactCandidates
+ * @param rolePriority - Contact Role names in order of preference
+ * @returns The automatic pick (null when there are no candidates) and how it was reached
+ */
+export function pickAutomaticContact(
+  candidates: ContactCandidate[],
+  rolePriority: string[] = resolveContactRolePriority()
+): {
+  candidate: ContactCandidate | null
+  method: string
+  resolutionMethod: ContactResolutionMethod
+} {
+  const pick = (candidate: ContactCandidate | null, resolutionMethod: ContactResolutionMethod, roleName = '') => ({
+    candidate,
+    method: describeContactResolution(resolutionMethod, roleName),
+    resolutionMethod
+  })
+
+  const roleCandidates = candidates.filter(candidate => candidate.sources.includes('contact_role'))
+
+  // Match on every role of every contact, as findDealPrimaryContact does on the Contact Roles
+  const roles = roleCandidates.flatMap(candidate => candidate.roleNames.map(roleName => ({ candidate, roleName })))
+  const preferredRole = findPreferredContactRole(roles, rolePriority)
+  if (preferredRole) {
+    return pick(preferredRole.candidate, 'contact_role_priority', preferredRole.roleName)
+  }
+  if (roleCandidates.length > 0) {
+    // Candidates keep the order of the Contact Roles, so this is the contact of the first role
+    return pick(roleCandidates[0], 'contact_role_first', roleCandidates[0].roleNames[0])
+  }
+
+  const dealContact = candidates.find(candidate => candidate.sources.includes('deal_contact'))
+  if (dealContact) {
+    return pick(dealContact, 'deal_contact')
+  }
+
+  const accountPrimary = candidates.find(candidate => candidate.sources.includes('account_primary'))
+  if (accountPrimary) {
+    return pick(accountPrimary, 'account_primary')
+  }
+
+  return pick(null, 'none')
+}
+
+/**
+ * The role of a contact that the Contact Role priority picks: the highest-ranked of its roles,
+ * else its first role
+ * @param candidate - Candidate from fetchContactCandidates
+ * @param rolePriority - Contact Role names in order of preference
+ * @returns The role name ('' when the contact has no role)
+ */
+export function getCandidateRoleName(
+  candidate: Pick<ContactCandidate, 'roleNames'>,
+  rolePriority: string[] = resolveContactRolePriority()
+): string {
+  const roles = candidate.roleNames.map(roleName => ({ roleName }))
+  return findPreferredContactRole(roles, rolePriority)?.roleName ?? candidate.roleNames[0] ?? ''
+}
+
+/**
+ * Human-readable label for a candidate source
+ */
+export function getContactSourceLabel(source: ContactCandidateSource): string {
+  return SOURCE_LABELS[source]
+}
+
+async function fetchContactRecord(contactId: string, client: ZohoClient): Promise<ZohoContact | null> {
+  const response = await fetchContactData(contactId, client)
+  return (response.data?.[0] as ZohoContact | undefined) ?? null
+}
+
+function readContactName(contact: ZohoContact | null): string {
+  if (!contact) return ''
+  if (typeof contact.Full_Name === 'string' && contact.Full_Name) return contact.Full_Name
+  return [contact.First_Name, contact.Last_Name].filter(part => typeof part === 'string' && part).join(' ')
+}
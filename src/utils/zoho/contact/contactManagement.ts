@@ -1,5 +1,9 @@
-import type { ZohoDealRecord, ZohoContact } from '../types'
+import type { ZohoContact } from '../types'
+import type { Deal } from '../../../types/deal'
 import { fetchContactData, fetchAccountData, findDealPrimaryContact } from '../dealOperations'
+import type { ZohoClient } from '../client'
+import type { ContactSelection } from './contactCandidates'
+import { resolveContactRolePriority, type ContactResolutionMethod, type ContactRoleContext } from './contactRolePriority'
 
 /**
  * Contact Management Module
@@ -8,30 +12,44 @@ import { fetchContactData, fetchAccountData, findDealPrimaryContact } from '../d
 
 export interface ContactInfo {
   id: string | null
+  // Contact name as shown in CRM (empty when it is not known)
+  name: string
   email: string
   phone: string
   isValid: boolean
+  // Contact Role name of the chosen contact (empty when it was not found through a role)
+  roleName: string
+  resolutionMethod: ContactResolutionMethod
 }
 
 /**
  * Finds and validates primary contact information for a deal
  * @param dealId - The Zoho Deal ID
- * @param dealData - The deal record data
+ * @param deal - The deal (its contact and account lookups are used as fallbacks)
+ * @param client - Zoho transport used for the contact lookups
+ * @param context - Request and product type, used to pick the Contact Role priority list
  * @returns Promise with contact information
  */
 export async function findAndValidatePrimaryContact(
   dealId: string, 
-  dealData: ZohoDealRecord
+  deal: Deal,
+  client: ZohoClient,
+  context: ContactRoleContext = {}
 ): Promise<ContactInfo> {
   console.log('🔍 Finding Primary Contact for Deal:', dealId)
   
   let primaryContactEmail = ''
   let primaryContactPhone = ''
   let primaryContactId: string | null = null
+  let primaryContactName = ''
+  let roleName = ''
+  let resolutionMethod: ContactResolutionMethod = 'none'
+  const rolePriority = resolveContactRolePriority(context)
+  console.log('📋 Contact Role priority:', { context, rolePriority })
   // Method 1: Contact Roles approach (primary method)
   try {
     console.log('🔍 Attempting to find primary contact via Contact Roles API...')
-    const primaryContact = await findDealPrimaryContact(dealId)
+    const primaryContact = await findDealPrimaryContact(dealId, client, rolePriority)
     
     console.log('📋 Contact Roles API Response:', {
       contactId: primaryContact.contactId,
@@ -46,8 +64,12 @@ export async function findAndValidatePrimaryContact(
       primaryContactEmail = primaryContact.email
       primaryContactPhone = primaryContact.phone
       primaryContactId = primaryContact.contactId
+      primaryContactName = primaryContact.name
+      roleName = primaryContact.roleName
+      resolutionMethod = primaryContact.resolutionMethod
       console.log('✅ SUCCESS: Primary Contact pulled via Contact Roles!', {
-        method: 'Contact Roles API',
+        method: resolutionMethod,
+        roleName,
         contactId: primaryContactId,
         email: primaryContactEmail,
         phone: primaryContactPhone,
@@ -69,14 +91,17 @@ export async function findAndValidatePrimaryContact(
   // Fallback methods if Contact Roles didn't work
   if (!primaryContactId) {
     console.log('🔄 Contact Roles did not return a primary contact, trying fallback methods...')
-    const fallbackContact = await tryFallbackContactMethods(dealData)
+    const fallbackContact = await tryFallbackContactMethods(deal, client)
     primaryContactEmail = fallbackContact.email
     primaryContactPhone = fallbackContact.phone
     primaryContactId = fallbackContact.id
+    primaryContactName = fallbackContact.name
+    roleName = fallbackContact.roleName
+    resolutionMethod = fallbackContact.resolutionMethod
     
     if (primaryContactId) {
       console.log('✅ SUCCESS: Primary Contact pulled via fallback method!', {
-        method: 'Fallback Methods',
+        method: resolutionMethod,
         contactId: primaryContactId,
         email: primaryContactEmail,
         phone: primaryContactPhone,
@@ -108,6 +133,8 @@ export async function findAndValidatePrimaryContact(
     console.log('🎉 CONTACT RESOLUTION SUCCESS!')
     console.log('📊 Contact Summary:', {
       source: primaryContactId ? 'Found via API' : 'Not found',
+      resolutionMethod,
+      roleName,
       contactId: primaryContactId,
       emailStatus: validatedEmail ? 'Valid' : (primaryContactEmail ? 'Invalid format' : 'Not provided'),
       phoneStatus: primaryContactPhone ? 'Provided' : 'Not provided'
@@ -119,25 +146,57 @@ export async function findAndValidatePrimaryContact(
 
   return {
     id: primaryContactId,
+    name: primaryContactName,
     email: validatedEmail,
     phone: primaryContactPhone,
-    isValid: isEmailValid
+    isValid: isEmailValid,
+    roleName,
+    resolutionMethod
+  }
+}
+
+/**
+ * Builds contact information from a contact the user picked or edited in the contact picker
+ * An invalid email is dropped, as in the automatic lookup
+ * @param selection - Contact chosen by the user
+ * @returns Contact information for the PM Request
+ */
+export function contactInfoFromSelection(selection: ContactSelection): ContactInfo {
+  const email = selection.email.trim()
+  const isEmailValid = validateEmailFormat(email)
+
+  console.log('👤 Using contact selected by the user:', {
+    contactId: selection.id,
+    name: selection.name,
+    email,
+    isEmailValid,
+    phone: selection.phone
+  })
+
+  return {
+    id: selection.id,
+    name: selection.name.trim(),
+    email: isEmailValid ? email : '',
+    phone: selection.phone.trim(),
+    isValid: isEmailValid,
+    roleName: '',
+    resolutionMethod: 'user_selected'
   }
 }
 
 /**
  * Tries fallback methods to find contact information
  */
-async function tryFallbackContactMethods(dealData: ZohoDealRecord): Promise<ContactInfo> {
+async function tryFallbackContactMethods(deal: Deal, client: ZohoClient): Promise<ContactInfo> {
   console.log('🔄 Trying fallback contact finding methods...')
   
-  let email = ''
-  let phone = ''
-  let id: string | null = null
+  const email = ''
+  const phone = ''
+  const id: string | null = null
   try {
     // Method 2: Direct contact reference in deal
     console.log('🔍 Trying Method 2: Direct contact reference in deal...')
-    const directContact = await tryDirectContactFromDeal(dealData)
+    const directContact = await tryDirectContactFromDeal(deal, client)
     if (directContact.id) {
       console.log('✅ SUCCESS: Primary Contact pulled via direct deal reference!', {
         method: 'Direct Deal Reference',
@@ -153,7 +212,7 @@ async function tryFallbackContactMethods(dealData: ZohoDealRecord): Promise<Cont
 
     // Method 3: Account primary contact
     console.log('🔍 Trying Method 3: Account primary contact...')
-    const accountContact = await tryAccountPrimaryContact(dealData)
+    const accountContact = await tryAccountPrimaryContact(deal, client)
     if (accountContact.id) {
       console.log('✅ SUCCESS: Primary Contact pulled via account primary contact!', {
         method: 'Account Primary Contact',
@@ -173,51 +232,48 @@ async function tryFallbackContactMethods(dealData: ZohoDealRecord): Promise<Cont
     console.warn('❌ Could not fetch contact information:', contactError)
   }
 
-  return { id, email, phone, isValid: false }
+  return { id, name: '', email, phone, isValid: false, roleName: '', resolutionMethod: 'none' }
 }
 
 /**
  * Tries to get contact from direct deal reference
  */
-async function tryDirectContactFromDeal(dealData: ZohoDealRecord): Promise<ContactInfo> {
-  if (dealData.Contact_Name && 
-      typeof dealData.Contact_Name === 'object' && 
-      'id' in dealData.Contact_Name && 
-      dealData.Contact_Name.id) {
+async function tryDirectContactFromDeal(deal: Deal, client: ZohoClient): Promise<ContactInfo> {
+  if (deal.contact?.id) {
     
     console.log('🔍 Found contact reference in deal, fetching contact details...')
-    const contactResponse = await fetchContactData((dealData.Contact_Name as { id: string }).id)
+    const contactResponse = await fetchContactData(deal.contact.id, client)
     
     if (contactResponse.data && contactResponse.data.length > 0) {
       const contact = contactResponse.data[0] as ZohoContact
       const email = contact.Email || ''
       const phone = contact.Phone || ''
-      const id = (dealData.Contact_Name as { id: string }).id
+      const id = deal.contact.id
       
       console.log('✅ Contact found via deal reference:', { email, phone })
       return {
         id,
+        name: deal.contact.name,
         email,
         phone,
-        isValid: validateEmailFormat(email)
+        isValid: validateEmailFormat(email),
+        roleName: '',
+        resolutionMethod: 'deal_contact'
       }
     }
   }
   
-  return { id: null, email: '', phone: '', isValid: false }
+  return { id: null, name: '', email: '', phone: '', isValid: false, roleName: '', resolutionMethod: 'none' }
 }
 
 /**
  * Tries to get contact from account's primary contact
  */
-async function tryAccountPrimaryContact(dealData: ZohoDealRecord): Promise<ContactInfo> {
-  if (dealData.Account_Name && 
-      typeof dealData.Account_Name === 'object' && 
-      'id' in dealData.Account_Name && 
-      dealData.Account_Name.id) {
+async function tryAccountPrimaryContact(deal: Deal, client: ZohoClient): Promise<ContactInfo> {
+  if (deal.account?.id) {
     
     console.log('🔍 No direct contact found, trying to get account primary contact...')
-    const accountResponse = await fetchAccountData((dealData.Account_Name as { id: string }).id)
+    const accountResponse = await fetchAccountData(deal.account.id, client)
     
     if (accountResponse.data && accountResponse.data.length > 0) {
       const account = accountResponse.data[0] as Record<string, unknown>
@@ -228,33 +284,37 @@ async function tryAccountPrimaryContact(dealData: ZohoDealRecord): Promise<Conta
           'id' in account.Primary_Contact &&
           (account.Primary_Contact as { id: string }).id) {
         
-        const contactResponse = await fetchContactData((account.Primary_Contact as { id: string }).id)
+        const contactResponse = await fetchContactData((account.Primary_Contact as { id: string }).id, client)
         
         if (contactResponse.data && contactResponse.data.length > 0) {
           const contact = contactResponse.data[0] as ZohoContact
           const email = contact.Email || ''
           const phone = contact.Phone || ''
-          const id = (account.Primary_Contact as { id: string }).id
+          const id = (account.Primary_Contact as { id: string; name?: string }).id
+          const name = (account.Primary_Contact as { id: string; name?: string }).name ?? ''
           
           console.log('✅ Contact found via account primary contact:', { email, phone })
           return {
             id,
+            name,
             email,
             phone,
-            isValid: validateEmailFormat(email)
+            isValid: validateEmailFormat(email),
+            roleName: '',
+            resolutionMethod: 'account_primary'
           }
         }
       }
     }
   }
   
-  return { id: null, email: '', phone: '', isValid: false }
+  return { id: null, name: '', email: '', phone: '', isValid: false, roleName: '', resolutionMethod: 'none' }
 }
 
 /**
  * Validates email format
  */
-function validateEmailFormat(email: string): boolean {
+export function validateEmailFormat(email: string): boolean {
   if (!email) return false
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
   return emailRegex.test(email)
@@ -0,0 +1,174 @@
+import type { DealContactRole } from './contactRoles'
+
+/**
+ * Contact Role Priority Module
+ * Ordered Contact Role preferences used to pick the PM Request contact. The default order can be
+ * replaced per request type or per product type (e.g. a team that wants "Technical Contact"
+ * first for Broadband), via setContactRolePriority() or the VITE_CONTACT_ROLE_PRIORITY variable.
+ */
+
+export interface ContactRolePriorityConfig {
+  // Role names in order of preference, used when no override matches
+  default: string[]
+  // Overrides keyed by PM Request type (e.g. "Contract")
+  byRequestType: Record<string, string[]>
+  // Overrides keyed by product type (e.g. "AT&T Complex"); these win over request type overrides
+  byProductType: Record<string, string[]>
+}
+
+export interface ContactRoleContext {
+  requestType?: string
+  productType?: string
+}
+
+/**
+ * How the PM Request contact was found
+ * - contact_role_priority: a Contact Role from the priority list
+ * - contact_role_first: no preferred role on the deal, so the first Contact Role
+ * - deal_contact / account_primary: fallbacks when the deal has no Contact Roles
+ * - user_selected: picked or edited in the contact picker
+ */
+export type ContactResolutionMethod =
+  | 'contact_role_priority'
+  | 'contact_role_first'
+  | 'deal_contact'
+  | 'account_primary'
+  | 'user_selected'
+  | 'none'
+
+export const DEFAULT_CONTACT_ROLE_PRIORITY: ContactRolePriorityConfig = {
+  default: ['Primary Contact', 'Decision Maker', 'Primary', 'Main Contact'],
+  byRequestType: {},
+  byProductType: {}
+}
+
+let activeConfig: ContactRolePriorityConfig = DEFAULT_CONTACT_ROLE_PRIORITY
+
+/**
+ * Returns the active role priority configuration
+ */
+export function getContactRolePriority(): ContactRolePriorityConfig {
+  return activeConfig
+}
+
+/**
+ * Replaces the role priority configuration (missing sections fall back to the defaults)
+ * @param config - New configuration, or null to restore the defaults
+ */
+export function setContactRolePriority(config: Partial<ContactRolePriorityConfig> | null): void {
+  activeConfig = config
+    ? { ...DEFAULT_CONTACT_ROLE_PRIORITY, ...config }
+    : DEFAULT_CONTACT_ROLE_PRIORITY
+  console.log('⚙️ Contact role priority updated:', activeConfig)
+}
+
+/**
+ * Parses a role priority configuration from JSON (e.g. the VITE_CONTACT_ROLE_PRIORITY variable)
+ * @param json - JSON object with optional default, byRequestType and byProductType sections
+ * @returns Partial configuration for setContactRolePriority
+ * @throws Error when the JSON is malformed or a section has the wrong shape
+ */
+export function parseContactRolePriority(json: string): Partial<ContactRolePriorityConfig> {
+  const parsed: unknown = JSON.parse(json)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Contact role priority must be a JSON object')
+  }
+
+  const { default: defaultOrder, byRequestType, byProductType } = parsed as Record<string, unknown>
+  const config: Partial<ContactRolePriorityConfig> = {}
+
+  if (defaultOrder !== undefined) {
+    if (!isRoleList(defaultOrder)) throw new Error('"default" must be an array of role names')
+    config.default = defaultOrder
+  }
+  if (byRequestType !== undefined) {
+    if (!isRoleListMap(byRequestType)) throw new Error('"byRequestType" must map request types to arrays of role names')
+    config.byRequestType = byRequestType
+  }
+  if (byProductType !== undefined) {
+    if (!isRoleListMap(byProductType)) throw new Error('"byProductType" must map product types to arrays of role names')
+    config.byProductType = byProductType
+  }
+
+  return config
+}
+
+/**
+ * Resolves the ordered role names for a request: product type override, then request type
+ * override, then the default list. Keys are matched ignoring case and dashes.
+ * @param context - Request type and product type of the PM Request
+ * @param config - Configuration to read (defaults to the active one)
+ * @returns Role names in order of preference
+ */
+export function resolveContactRolePriority(
+  context: ContactRoleContext = {},
+  config: ContactRolePriorityConfig = getContactRolePriority()
+): string[] {
+  const productOverride = context.productType ? findByKey(config.byProductType, context.productType) : undefined
+  if (productOverride) return productOverride
+
+  const requestTypeOverride = context.requestType ? findByKey(config.byRequestType, context.requestType) : undefined
+  if (requestTypeOverride) return requestTypeOverride
+
+  return config.default
+}
+
+/**
+ * Picks the Contact Role that ranks highest in the priority list
+ * @param roles - Contact Roles of the deal
+ * @param priority - Role names in order of preference
+ * @returns The preferred role, or null when none of the roles is in the list
+ */
+export function findPreferredContactRole<T extends Pick<DealContactRole, 'roleName'>>(
+  roles: T[],
+  priority: string[]
+): T | null {
+  for (const roleName of priority) {
+    const wanted = normalizeKey(roleName)
+    const match = roles.find(role => normalizeKey(role.roleName) === wanted)
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Human-readable description of how a contact was resolved
+ * @param method - Resolution method
+ * @param roleName - Contact Role name, for role-based methods
+ */
+export function describeContactResolution(method: ContactResolutionMethod, roleName = ''): string {
+  switch (method) {
+    case 'contact_role_priority':
+      return `Contact Role "${roleName}"`
+    case 'contact_role_first':
+      return roleName
+        ? `First Contact Role "${roleName}" (no preferred role on the deal)`
+        : 'First Contact Role (no preferred role on the deal)'
+    case 'deal_contact':
+      return 'Deal Contact Name'
+    case 'account_primary':
+      return 'Account Primary Contact'
+    case 'user_selected':
+      return 'Selected by user'
+    default:
+      return 'No contact found'
+  }
+}
+
+function findByKey(map: Record<string, string[]>, key: string): string[] | undefined {
+  const wanted = normalizeKey(key)
+  const entry = Object.entries(map).find(([candidate]) => normalizeKey(candidate) === wanted)
+  return entry && entry[1].length > 0 ? entry[1] : undefined
+}
+
+function isRoleList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isRoleListMap(value: unknown): value is Record<string, string[]> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isRoleList)
+}
+
+function normalizeKey(value: string): string {
+  return value.replace(/-/g, ' ').trim().toLowerCase()
+}
@@ -0,0 +1,115 @@
+import type { ZohoContactRole } from '../types'
+import { getZohoClient, type ZohoClient } from '../client'
+import { toZohoApiError } from '../errors'
+import { recordDebugEvent } from '../debugLog'
+import { decodeContactRolesResponse, reportSchemaWarnings } from '../schema/schemaDecoders'
+
+/**
+ * Contact Roles Module
+ * Fetches every Contact Role on a deal, following next_page_token until the last page,
+ * so the PM Request flow and contact lists never miss a role that lives on page two.
+ */
+
+export interface DealContactRole {
+  contactId: string
+  name: string
+  email: string
+  phone: string
+  roleName: string
+  roleId: string
+}
+
+export interface FetchContactRolesOptions {
+  // Rows requested per page (Zoho allows up to 200)
+  perPage?: number
+  // Safety cap on the number of pages followed
+  maxPages?: number
+}
+
+const CONTACT_ROLE_FIELDS = ['Full_Name', 'Email', 'Phone']
+
+const DEFAULT_PER_PAGE = 200
+const DEFAULT_MAX_PAGES = 25
+
+/**
+ * Returns the CRM connection name for the current environment
+ * Local development uses a separately authorised connection
+ */
+export function getCrmConnectionName(): string {
+  return window.location.hostname === 'localhost' ? 'crm_con' : 'crm_conn'
+}
+
+/**
+ * Fetches all Contact Roles of a deal via CONNECTION.invoke, page by page
+ * @param dealId - The Zoho Deal ID
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Page size and page cap
+ * @returns Every contact role on the deal, in the order Zoho returns them
+ * @throws ZohoApiError when a page request fails
+ */
+export async function fetchDealContactRoles(
+  dealId: string,
+  client: ZohoClient = getZohoClient(),
+  options: FetchContactRolesOptions = {}
+): Promise<DealContactRole[]> {
+  const perPage = options.perPage ?? DEFAULT_PER_PAGE
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+  const connectionName = getCrmConnectionName()
+
+  const roles: DealContactRole[] = []
+  let pageToken: string | null = null
+  let page = 0
+
+  try {
+    do {
+      page++
+      const params = new URLSearchParams({ fields: CONTACT_ROLE_FIELDS.join(','), per_page: String(perPage) })
+      if (pageToken) {
+        params.set('page_token', pageToken)
+      }
+
+      const rawResponse = await client.invokeConnection<unknown>(connectionName, {
+        method: 'GET',
+        url: `https://www.zohoapis.com/crm/v8/Deals/${dealId}/Contact_Roles?${params.toString()}`,
+        param_type: 1
+      })
+
+      const { value: response, warnings } = decodeContactRolesResponse(rawResponse)
+      reportSchemaWarnings(`Contact_Roles Deals/${dealId} (page ${page})`, warnings)
+
+      if (response.code && response.code !== 'SUCCESS') {
+        throw toZohoApiError(response, 'fetchDealContactRoles')
+      }
+
+      const statusMessage = response.details?.statusMessage
+      roles.push(...(statusMessage?.data || []).map(toDealContactRole))
+      pageToken = statusMessage?.info?.next_page_token || null
+    } while (pageToken && page < maxPages)
+  } catch (error) {
+    console.error('❌ Failed to fetch Contact Roles:', { dealId, page, error })
+    throw toZohoApiError(error, 'fetchDealContactRoles')
+  }
+
+  if (pageToken) {
+    console.warn(`⚠️ Stopped following Contact Roles after ${maxPages} pages`, { dealId, fetched: roles.length })
+    recordDebugEvent({
+      level: 'warning',
+      category: 'contact',
+      message: `Contact Roles for deal ${dealId} truncated after ${maxPages} pages (${roles.length} roles)`
+    })
+  }
+
+  console.log(`📇 Fetched ${roles.length} Contact Role(s) in ${page} page(s) for deal ${dealId}`)
+  return roles
+}
+
+function toDealContactRole(role: ZohoContactRole): DealContactRole {
+  return {
+    contactId: role.id,
+    name: role.Full_Name || role.Contact?.name || '',
+    email: role.Email || role.Contact?.Email || '',
+    phone: role.Phone || '',
+    roleName: role.Contact_Role.name,
+    roleId: role.Contact_Role.id
+  }
+}
@@ -1,19 +1,177 @@
+import { recordDebugEvent } from './debugLog'
+import type { ZohoUpdateResponse } from './types'
+import { toZohoApiError, describeZohoError, ZohoApiError } from './errors'
+
+export interface ZohoApiCallOptions {
+  // Name of the operation, used in logs and the debug panel (e.g. "getRecord Deals/123")
+  operation?: string
+  // Number of retries after the first attempt for transient errors
+  retries?: number
+  // Base delay for exponential backoff, in milliseconds
+  baseDelayMs?: number
+  // Upper bound for a single backoff delay, in milliseconds
+  maxDelayMs?: number
+  // Time allowed for a single attempt before it is treated as a timeout, in milliseconds
+  timeoutMs?: number
+  // Whether repeating the call is safe when the outcome is unknown (timeouts, 5xx).
+  // Non-idempotent calls (inserts) are only retried when Zoho rejected them outright (rate limit).
+  idempotent?: boolean
+}
+
+export const DEFAULT_ZOHO_API_CALL_OPTIONS: Required<Omit<ZohoApiCallOptions, 'operation'>> = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 30000,
+  idempotent: true
+}
+
 /**
  * Helper function to promisify Zoho API calls with error handling
- * Wraps Zoho API calls to provide consistent error handling and logging
+ * Wraps Zoho API calls to provide consistent error handling and logging,
+ * retrying transient failures (rate limits, timeouts, 5xx) with exponential backoff and jitter
  * @param apiFunction - The Zoho API function to execute
+ * @param options - Retry, backoff and timeout configuration
  * @returns Promise with the API response
+ * @throws ZohoApiError (or a subclass) describing the last failure
  */
-export async function zohoApiCall<T>(apiFunction: () => Promise<T>): Promise<T> {
-  try {
-    const result = await apiFunction()
-    return result
-  } catch (error) {
-    console.error('Zoho API Call Error:', error)
-    throw new Error(`Zoho API Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+export async function zohoApiCall<T>(
+  apiFunction: () => Promise<T>,
+  options: ZohoApiCallOptions = {}
+): Promise<T> {
+  const config = { ...DEFAULT_ZOHO_API_CALL_OPTIONS, ...options }
+  const operation = options.operation || 'Zoho API call'
+  let attempt = 0
+
+  while (true) {
+    attempt++
+
+    try {
+      const result = await withTimeout(apiFunction(), config.timeoutMs, operation)
+      if (attempt > 1) {
+        recordDebugEvent({
+          level: 'info',
+          category: 'retry',
+          message: `${operation} succeeded on attempt ${attempt}`
+        })
+      }
+      return result
+    } catch (error) {
+      const canRetry = attempt <= config.retries && isRetryableZohoError(error, config.idempotent)
+
+      if (!canRetry) {
+        console.error('Zoho API Call Error:', error)
+        if (attempt > 1) {
+          recordDebugEvent({
+            level: 'error',
+            category: 'retry',
+            message: `${operation} failed after ${attempt} attempts: ${describeZohoError(error)}`,
+            details: error
+          })
+        }
+        throw toZohoApiError(error, operation)
+      }
+
+      const delayMs = getBackoffDelay(attempt, config.baseDelayMs, config.maxDelayMs)
+      console.warn(`⏳ ${operation} failed (attempt ${attempt}/${config.retries + 1}), retrying in ${delayMs}ms:`, error)
+      recordDebugEvent({
+        level: 'warning',
+        category: 'retry',
+        message: `Retry ${attempt}/${config.retries} for ${operation} in ${delayMs}ms: ${describeZohoError(error)}`,
+        details: error
+      })
+
+      await new Promise(resolve => setTimeout(resolve, delayMs))
+    }
   }
 }
 
+/**
+ * Decides whether a failed Zoho call is worth retrying
+ * @param error - The rejection value from the SDK (Error, Zoho error object or HTTP-like response)
+ * @param idempotent - Whether the call may be repeated when its outcome is unknown
+ */
+export function isRetryableZohoError(error: unknown, idempotent = true): boolean {
+  const { kind } = toZohoApiError(error)
+
+  // Rate limited requests were never processed, so they are always safe to repeat
+  if (kind === 'rate_limit') {
+    return true
+  }
+
+  return idempotent && (kind === 'timeout' || kind === 'network' || kind === 'server')
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^(attempt-1), capped, randomized to 50-100%
+ */
+function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2))
+}
+
+/**
+ * Rejects with a TIMEOUT error if the call does not settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: string): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return promise
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(Object.assign(new Error(`${operation} timed out after ${timeoutMs}ms`), { code: 'TIMEOUT' }))
+    }, timeoutMs)
+
+    promise.then(
+      value => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      error => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Checks the rows of an updateRecord/insertRecord response
+ * Zoho resolves write calls even when a record was rejected, reporting the problem per row
+ * (e.g. { code: 'MANDATORY_NOT_FOUND', details: { api_name: 'Last_Name' } })
+ * @param response - The resolved write response
+ * @param operation - Operation name attached to the error
+ * @returns The same response when every row succeeded
+ * @throws ZohoApiError built from the failed rows, with their api_name values in `fields`
+ */
+export function assertZohoWriteSuccess(response: ZohoUpdateResponse, operation: string): ZohoUpdateResponse {
+  const rows = Array.isArray(response?.data) ? response.data : []
+
+  if (rows.length === 0) {
+    throw new ZohoApiError('Zoho returned an empty response for a write request', {
+      code: 'EMPTY_RESPONSE',
+      payload: response,
+      operation
+    })
+  }
+
+  const failedRows = rows.filter(row => row?.code !== 'SUCCESS')
+  if (failedRows.length === 0) {
+    return response
+  }
+
+  console.error(`❌ ${operation}: ${failedRows.length} of ${rows.length} record(s) rejected by Zoho:`, failedRows)
+  const error = toZohoApiError({ data: failedRows }, operation)
+  recordDebugEvent({
+    level: 'error',
+    category: 'write',
+    message: `${operation} rejected: ${error.message}${error.fields.length > 0 ? ` (${error.fields.join(', ')})` : ''}`,
+    details: response
+  })
+  throw error
+}
+
 /**
  * Validates if Zoho CRM API is available
  * @throws Error if Zoho API is not available
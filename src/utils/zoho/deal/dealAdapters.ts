@@ -0,0 +1,146 @@
+import type { Deal, DealAddress, DealLookup } from '../../../types/deal'
+import type { ZohoDealData, ZohoProductSubform } from '../../../types/zoho'
+import type { ZohoDealRecord } from '../types'
+
+/**
+ * Deal Adapters Module
+ * Maps the two raw Deal shapes (PageLoad's ZohoDealData and getRecord's ZohoDealRecord)
+ * onto the canonical Deal model. Zoho API names - including typos like Curent_Services -
+ * should only appear in this file.
+ */
+
+// Zoho API name behind each scalar Deal field
+export const DEAL_FIELD_API_NAMES = {
+  name: 'Deal_Name',
+  stage: 'Stage',
+  account: 'Account_Name',
+  contact: 'Contact_Name',
+  owner: 'Owner',
+  department: 'Deal_Department',
+  description: 'Description',
+  currentServices: 'Curent_Services',
+  accountNumber: 'Account_Number',
+  subAccountId: 'Sub_Account_ID',
+  circuitId: 'Circuit_Id',
+  dataInterfaceType: 'Data_Interface_Type',
+  contractIdNumber: 'Contract_ID_ADIVB_Number',
+  portingMovingTns: 'Porting_Moving_TNs',
+  contractProduct: 'Contract_Product',
+  pmRequestId: 'PM_Request_Id',
+  macP: 'MAC_P',
+  previousDealDisconnect: 'Previous_Deal_Disconnect',
+  isDisconnected: 'Is_Disconnected',
+  products: 'Subform_1'
+} as const satisfies Partial<Record<keyof Deal, string>>
+
+export type DealFieldKey = keyof typeof DEAL_FIELD_API_NAMES
+
+export const SERVICE_ADDRESS_API_NAMES: Record<keyof DealAddress, string> = {
+  street: 'Street',
+  city: 'City',
+  state: 'State',
+  zip: 'Zip_Code1'
+}
+
+export const BILLING_ADDRESS_API_NAMES: Record<keyof DealAddress, string> = {
+  street: 'Service_Street',
+  city: 'Service_City',
+  state: 'Service_State',
+  zip: 'Service_Zip_Code'
+}
+
+/**
+ * Builds a Deal from the PageLoad payload
+ * @param data - PageLoad `data` (already decoded by decodePageLoadData)
+ */
+export function dealFromPageLoad(data: ZohoDealData): Deal {
+  return toDeal(data as unknown as Record<string, unknown>)
+}
+
+/**
+ * Builds a Deal from a getRecord('Deals', id) row
+ * @param record - Deal record (already decoded by fetchDealData)
+ */
+export function dealFromRecord(record: ZohoDealRecord): Deal {
+  return toDeal(record)
+}
+
+/**
+ * Maps Deal fields back to their Zoho API names, for updateRecord payloads
+ * @param changes - Scalar Deal fields to write
+ * @returns APIData fields keyed by Zoho API name
+ */
+export function dealFieldsToZoho(changes: Partial<Pick<Deal, DealFieldKey>>): Record<string, unknown> {
+  const apiData: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(changes) as Array<[DealFieldKey, unknown]>) {
+    const apiName = DEAL_FIELD_API_NAMES[key]
+    if (apiName && value !== undefined) {
+      apiData[apiName] = isLookup(value) ? { id: value.id } : value
+    }
+  }
+  return apiData
+}
+
+function toDeal(raw: Record<string, unknown>): Deal {
+  const text = (key: DealFieldKey) => readText(raw[DEAL_FIELD_API_NAMES[key]])
+
+  return {
+    id: readText(raw.id),
+    name: text('name'),
+    stage: text('stage'),
+    account: readLookup(raw[DEAL_FIELD_API_NAMES.account]),
+    contact: readLookup(raw[DEAL_FIELD_API_NAMES.contact]),
+    owner: readLookup(raw[DEAL_FIELD_API_NAMES.owner]),
+    department: text('department'),
+    description: text('description'),
+    currentServices: text('currentServices'),
+    accountNumber: text('accountNumber'),
+    subAccountId: text('subAccountId'),
+    circuitId: text('circuitId'),
+    dataInterfaceType: text('dataInterfaceType'),
+    contractIdNumber: text('contractIdNumber'),
+    portingMovingTns: raw[DEAL_FIELD_API_NAMES.portingMovingTns] === true,
+    contractProduct: raw[DEAL_FIELD_API_NAMES.contractProduct] === true,
+    pmRequestId: text('pmRequestId'),
+    macP: text('macP'),
+    previousDealDisconnect: text('previousDealDisconnect'),
+    isDisconnected: raw[DEAL_FIELD_API_NAMES.isDisconnected] === true,
+    serviceAddress: readAddress(raw, SERVICE_ADDRESS_API_NAMES),
+    billingAddress: readAddress(raw, BILLING_ADDRESS_API_NAMES),
+    products: Array.isArray(raw[DEAL_FIELD_API_NAMES.products])
+      ? raw[DEAL_FIELD_API_NAMES.products] as ZohoProductSubform[]
+      : []
+  }
+}
+
+function readText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return String(value)
+  return ''
+}
+
+/**
+ * Reads a lookup ({ id, name }); some APIs return the lookup as a plain name string
+ */
+function readLookup(value: unknown): DealLookup | null {
+  if (isLookup(value)) {
+    return { id: value.id, name: typeof value.name === 'string' ? value.name : '' }
+  }
+  if (typeof value === 'string' && value) {
+    return { id: '', name: value }
+  }
+  return null
+}
+
+function readAddress(raw: Record<string, unknown>, apiNames: Record<keyof DealAddress, string>): DealAddress {
+  return {
+    street: readText(raw[apiNames.street]),
+    city: readText(raw[apiNames.city]),
+    state: readText(raw[apiNames.state]),
+    zip: readText(raw[apiNames.zip])
+  }
+}
+
+function isLookup(value: unknown): value is { id: string; name?: unknown } {
+  return !!value && typeof value === 'object' && typeof (value as { id?: unknown }).id === 'string'
+}
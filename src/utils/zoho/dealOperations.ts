@@ -1,34 +1,33 @@
-import type { ZohoApiResponse, ZohoConnectionResponse, ZohoContactRole, ZohoDealRecord, ZohoContact, ZohoExtendedWindow, ZohoAccountRecord } from './types'
-import { zohoApiCall, validateZohoAPI } from './core'
+import type { ZohoApiResponse, ZohoDealRecord, ZohoContact, ZohoAccountRecord, ZohoUpdateResponse } from './types'
+import type { Deal } from '../../types/deal'
+import { getZohoClient, type ZohoClient } from './client'
+import { toZohoApiError } from './errors'
+import { assertZohoWriteSuccess } from './core'
+import { dealFromRecord, dealFieldsToZoho, type DealFieldKey } from './deal/dealAdapters'
+import { fetchDealContactRoles } from './contact/contactRoles'
+import { findPreferredContactRole, resolveContactRolePriority, type ContactResolutionMethod } from './contact/contactRolePriority'
+import { decodeDealRecord, decodeContact, reportSchemaWarnings } from './schema/schemaDecoders'
 
 /**
  * Fetches deal data from Zoho CRM
  * @param dealId - The Zoho Deal ID
+ * @param client - Zoho transport (defaults to the SDK client)
  * @returns Promise with deal data
  */
-export async function fetchDealData(dealId: string): Promise<ZohoApiResponse> {
+export async function fetchDealData(dealId: string, client: ZohoClient = getZohoClient()): Promise<ZohoApiResponse> {
   console.log('=== FETCHING DEAL DATA ===')
   console.log('Deal ID:', dealId)
 
-  validateZohoAPI()
-  
   try {
-    const response = await zohoApiCall<ZohoApiResponse>(async () => {
-      return new Promise<ZohoApiResponse>((resolve, reject) => {
-        window.ZOHO!.CRM!.API!.getRecord({
-          Entity: "Deals",
-          RecordID: dealId
-        })
-        .then((response: unknown) => {
-          console.log('Deal Data Response:', response)
-          resolve(response as ZohoApiResponse)
-        })
-        .catch((error: unknown) => {
-          console.error('Error fetching deal data:', error)
-          reject(error)
-        })
-      })
-    })
+    const response = await client.getRecord('Deals', dealId)
+    console.log('Deal Data Response:', response)
+
+    // Decode the record so callers can rely on ZohoDealRecord (Subform_1 rows included)
+    if (response.data && response.data.length > 0) {
+      const { value, warnings } = decodeDealRecord(response.data[0])
+      reportSchemaWarnings(`getRecord Deals/${dealId}`, warnings)
+      response.data = [value, ...response.data.slice(1)]
+    }
 
     console.log('=== DEAL DATA FETCHED SUCCESSFULLY ===')
     return response
@@ -38,40 +37,62 @@ export async function fetchDealData(dealId: string): Promise<ZohoApiResponse> {
     console.error('Deal ID:', dealId)
     console.error('============================')
     
-    throw new Error(
-      `Failed to fetch deal data: ${error instanceof Error ? error.message : 'Unknown error'}`
-    )
+    throw toZohoApiError(error, 'fetchDealData')
+  }
+}
+
+/**
+ * Writes scalar Deal fields back to Zoho CRM (e.g. required fields filled in from the widget)
+ * @param dealId - The Zoho Deal ID
+ * @param changes - Deal fields to write, keyed by Deal model name
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @returns Promise with the update response
+ * @throws ZohoApiError describing why Zoho rejected the update
+ */
+export async function updateDealFields(
+  dealId: string,
+  changes: Partial<Pick<Deal, DealFieldKey>>,
+  client: ZohoClient = getZohoClient()
+): Promise<ZohoUpdateResponse> {
+  console.log('=== UPDATING DEAL FIELDS ===')
+  console.log('Deal ID:', dealId)
+
+  try {
+    const apiData = { id: dealId, ...dealFieldsToZoho(changes) }
+    console.log('API Data for Deal update:', JSON.stringify(apiData, null, 2))
+
+    const response = await client.updateRecord('Deals', apiData, { trigger: ['workflow'] })
+    assertZohoWriteSuccess(response, 'updateDealFields')
+
+    console.log('=== DEAL FIELDS UPDATED SUCCESSFULLY ===')
+    return response
+  } catch (error) {
+    console.error('=== DEAL FIELDS UPDATE FAILED ===')
+    console.error('Error:', error)
+
+    throw toZohoApiError(error, 'updateDealFields')
   }
 }
 
 /**
  * Fetches contact data from Zoho CRM
  * @param contactId - The Zoho Contact ID
+ * @param client - Zoho transport (defaults to the SDK client)
  * @returns Promise with contact data
  */
-export async function fetchContactData(contactId: string): Promise<ZohoApiResponse> {
+export async function fetchContactData(contactId: string, client: ZohoClient = getZohoClient()): Promise<ZohoApiResponse> {
   console.log('=== FETCHING CONTACT DATA ===')
   console.log('Contact ID:', contactId)
 
-  validateZohoAPI()
-  
   try {
-    const response = await zohoApiCall<ZohoApiResponse>(async () => {
-      return new Promise<ZohoApiResponse>((resolve, reject) => {
-        window.ZOHO!.CRM!.API!.getRecord({
-          Entity: "Contacts",
-          RecordID: contactId
-        })
-        .then((response: unknown) => {
-          console.log('Contact Data Response:', response)
-          resolve(response as ZohoApiResponse)
-        })
-        .catch((error: unknown) => {
-          console.error('Error fetching contact data:', error)
-          reject(error)
-        })
-      })
-    })
+    const response = await client.getRecord('Contacts', contactId)
+    console.log('Contact Data Response:', response)
+
+    if (response.data && response.data.length > 0) {
+      const { value, warnings } = decodeContact(response.data[0])
+      reportSchemaWarnings(`getRecord Contacts/${contactId}`, warnings)
+      response.data = [value, ...response.data.slice(1)]
+    }
 
     console.log('=== CONTACT DATA FETCHED SUCCESSFULLY ===')
     return response
@@ -81,40 +102,23 @@ export async function fetchContactData(contactId: string): Promise<ZohoApiRespon
     console.error('Contact ID:', contactId)
     console.error('===============================')
     
-    throw new Error(
-      `Failed to fetch contact data: ${error instanceof Error ? error.message : 'Unknown error'}`
-    )
+    throw toZohoApiError(error, 'fetchContactData')
   }
 }
 
 /**
  * Fetches account data from Zoho CRM
  * @param accountId - The Zoho Account ID
+ * @param client - Zoho transport (defaults to the SDK client)
  * @returns Promise with account data
  */
-export async function fetchAccountData(accountId: string): Promise<ZohoApiResponse> {
+export async function fetchAccountData(accountId: string, client: ZohoClient = getZohoClient()): Promise<ZohoApiResponse> {
   console.log('=== FETCHING ACCOUNT DATA ===')
   console.log('Account ID:', accountId)
 
-  validateZohoAPI()
-  
   try {
-    const response = await zohoApiCall<ZohoApiResponse>(async () => {
-      return new Promise<ZohoApiResponse>((resolve, reject) => {
-        window.ZOHO!.CRM!.API!.getRecord({
-          Entity: "Accounts",
-          RecordID: accountId
-        })
-        .then((response: unknown) => {
-          console.log('Account Data Response:', response)
-          resolve(response as ZohoApiResponse)
-        })
-        .catch((error: unknown) => {
-          console.error('Error fetching account data:', error)
-          reject(error)
-        })
-      })
-    })
+    const response = await client.getRecord('Accounts', accountId)
+    console.log('Account Data Response:', response)
 
     console.log('=== ACCOUNT DATA FETCHED SUCCESSFULLY ===')
     return response
@@ -124,118 +128,84 @@ export async function fetchAccountData(accountId: string): Promise<ZohoApiRespon
     console.error('Account ID:', accountId)
     console.error('==============================')
     
-    throw new Error(
-      `Failed to fetch account data: ${error instanceof Error ? error.message : 'Unknown error'}`
-    )
+    throw toZohoApiError(error, 'fetchAccountData')
   }
 }
 
+export interface DealPrimaryContact {
+  contactId: string | null
+  name: string
+  email: string
+  phone: string
+  // Contact Role name of the chosen contact (empty for non-role methods)
+  roleName: string
+  resolutionMethod: ContactResolutionMethod
+}
+
 /**
  * Finds the Primary Contact for a deal using Contact Roles API
- * Uses ZOHO.CRM.CONNECTION.invoke for proper Contact Roles access
+ * Reads all Contact Roles pages via fetchDealContactRoles (ZOHO.CRM.CONNECTION.invoke)
  * @param dealId - The Zoho Deal ID
- * @returns Promise with primary contact information
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param rolePriority - Contact Role names in order of preference
+ * @returns Promise with primary contact information and how it was found
  */
-export async function findDealPrimaryContact(dealId: string): Promise<{
-  contactId: string | null
-  email: string
-  phone: string
-}> {
+export async function findDealPrimaryContact(
+  dealId: string,
+  client: ZohoClient = getZohoClient(),
+  rolePriority: string[] = resolveContactRolePriority()
+): Promise<DealPrimaryContact> {
   console.log('=== FINDING DEAL PRIMARY CONTACT ===')
   console.log('Deal ID:', dealId)
 
-  validateZohoAPI()
-
   try {
-    // Method 1: Use CONNECTION.invoke to fetch Contact Roles
+    // Method 1: Contact Roles (every page, so a Primary Contact on page two is not missed)
     console.log('Attempting to fetch Contact Roles via CONNECTION.invoke...')
-      const contactRolesResponse = await zohoApiCall<ZohoConnectionResponse>(async () => {
-      return new Promise<ZohoConnectionResponse>((resolve, reject) => {
-        const extendedWindow = window as unknown as ZohoExtendedWindow
-        
-        if (!extendedWindow.ZOHO?.CRM?.CONNECTION) {
-          reject(new Error('ZOHO.CRM.CONNECTION not available'))
-          return
-        }
+    const contactRoles = await fetchDealContactRoles(dealId, client)
+    console.log('Contact Roles found:', contactRoles)
 
-        // Use different connection names based on environment
-        const connectionName = window.location.hostname === 'localhost' ? 'crm_con' : 'crm_conn'
-        console.log('Using connection name:', connectionName, 'for environment:', window.location.hostname)
+    if (contactRoles.length > 0) {
+      // Look for the highest-ranked role in the priority list first
+      let primaryContactRole = findPreferredContactRole(contactRoles, rolePriority)
+      let resolutionMethod: ContactResolutionMethod = 'contact_role_priority'
+      // If no preferred role found, use the first contact role
+      if (!primaryContactRole) {
+        primaryContactRole = contactRoles[0]
+        resolutionMethod = 'contact_role_first'
+        console.log('No preferred contact role found, using first contact role:', { rolePriority, primaryContactRole })
+      }
 
-        extendedWindow.ZOHO.CRM.CONNECTION.invoke!(connectionName, {
-          method: "GET",
-          url: `https://www.zohoapis.com/crm/v8/Deals/${dealId}/Contact_Roles?fields=Email,Department`,
-          param_type: 1
-        }).then((response: unknown) => {
-          console.log('Contact Roles API Response:', response)
-          resolve(response as ZohoConnectionResponse)
-        })
-        .catch((error: unknown) => {
-          console.log('Contact Roles API failed:', error)
-          reject(error)
-        })
-      })
-    })
+      console.log('Found primary contact via Contact Roles:', primaryContactRole)
+      const contactId = primaryContactRole.contactId
+      let email = primaryContactRole.email
+      let phone = primaryContactRole.phone
 
-    console.log('Contact Roles found:', contactRolesResponse?.details?.statusMessage?.data)
-    
-    // Process Contact Roles response
-    if (contactRolesResponse?.code === 'SUCCESS' && 
-        contactRolesResponse?.status === 'success' &&
-        contactRolesResponse?.details?.statusMessage?.data && 
-        Array.isArray(contactRolesResponse.details.statusMessage.data) && 
-        contactRolesResponse.details.statusMessage.data.length > 0) {
-      
-      console.log('Contact Roles found:', contactRolesResponse.details.statusMessage.data)
-      
-      // Look for Primary Contact or Decision Maker first
-      let primaryContactRole = contactRolesResponse.details.statusMessage.data.find((role: ZohoContactRole) => 
-        role.Contact_Role?.name === 'Primary Contact' || 
-        role.Contact_Role?.name === 'Decision Maker' ||
-        role.Contact_Role?.name === 'Primary' ||
-        role.Contact_Role?.name === 'Main Contact'
-      )
-        // If no specific primary contact found, use the first contact role
-      if (!primaryContactRole && contactRolesResponse.details.statusMessage.data.length > 0) {
-        primaryContactRole = contactRolesResponse.details.statusMessage.data[0]
-        console.log('No specific primary contact found, using first contact role:', primaryContactRole)
-      }
+      // If the role row is missing details, fetch the full contact record
+      if (contactId && (!email || !phone)) {
+        try {
+          console.log('Fetching full contact details for ID:', contactId)
+          const contactResponse = await fetchContactData(contactId, client)
+          if (contactResponse.data && contactResponse.data.length > 0) {
+            const contact = contactResponse.data[0] as ZohoContact
+            console.log('Fetched additional contact details:', contact)
 
-      if (primaryContactRole) {
-        console.log('Found primary contact via Contact Roles:', primaryContactRole)
-          // Extract contact ID from the contact role record
-        // Based on the API response, the contact ID might be the main 'id' field
-        const contactId = primaryContactRole.id
-        let email = primaryContactRole.Email || ''
-        let phone = ''
-        
-        console.log('Extracted contact ID:', contactId)
-        console.log('Extracted email from Contact Role:', email)
-        
-        // If we have a contact ID but need more details, fetch the full contact record
-        if (contactId && (!email || !phone)) {
-          try {
-            console.log('Fetching full contact details for ID:', contactId)
-            const contactResponse = await fetchContactData(contactId)
-            if (contactResponse.data && contactResponse.data.length > 0) {
-              const contact = contactResponse.data[0] as ZohoContact
-              console.log('Fetched additional contact details:', contact)
-              
-              email = email || contact.Email || ''
-              phone = contact.Phone || ''
-            }
-          } catch (contactError) {
-            console.warn('Failed to fetch additional contact details:', contactError)
+            email = email || contact.Email || ''
+            phone = phone || contact.Phone || ''
           }
+        } catch (contactError) {
+          console.warn('Failed to fetch additional contact details:', contactError)
         }
-        
-        console.log('Final contact details:', { contactId, email, phone })
-        
-        return {
-          contactId: contactId || null,
-          email: email,
-          phone: phone
-        }
+      }
+
+      console.log('Final contact details:', { contactId, email, phone, roleName: primaryContactRole.roleName, resolutionMethod })
+
+      return {
+        contactId: contactId || null,
+        name: primaryContactRole.name,
+        email: email,
+        phone: phone,
+        roleName: primaryContactRole.roleName,
+        resolutionMethod
       }
     }
 
@@ -244,25 +214,28 @@ export async function findDealPrimaryContact(dealId: string): Promise<{
     // Method 2: Fallback - Try to get contact from deal record directly
     console.log('Attempting to get contact from deal record...')
     
-    const dealResponse = await fetchDealData(dealId)
+    const dealResponse = await fetchDealData(dealId, client)
     if (dealResponse.data && dealResponse.data.length > 0) {
-      const deal = dealResponse.data[0] as ZohoDealRecord
+      const deal = dealFromRecord(dealResponse.data[0] as ZohoDealRecord)
       console.log('Deal data for contact lookup:', deal)
       
       // Check if deal has a direct contact reference
-      if (deal.Contact_Name && typeof deal.Contact_Name === 'object' && deal.Contact_Name.id) {
-        console.log('Found contact reference in deal:', deal.Contact_Name)
+      if (deal.contact?.id) {
+        console.log('Found contact reference in deal:', deal.contact)
         
         try {
-          const contactResponse = await fetchContactData(deal.Contact_Name.id)
+          const contactResponse = await fetchContactData(deal.contact.id, client)
           if (contactResponse.data && contactResponse.data.length > 0) {
             const contact = contactResponse.data[0] as ZohoContact
             console.log('Fetched contact from deal reference:', contact)
             
             return {
-              contactId: deal.Contact_Name.id,
+              contactId: deal.contact.id,
+              name: deal.contact.name,
               email: contact.Email || '',
-              phone: contact.Phone || ''
+              phone: contact.Phone || '',
+              roleName: '',
+              resolutionMethod: 'deal_contact'
             }
           }
         } catch (contactError) {
@@ -271,18 +244,18 @@ export async function findDealPrimaryContact(dealId: string): Promise<{
       }
       
       // Method 3: Final fallback - Try to get primary contact from account
-      if (deal.Account_Name && typeof deal.Account_Name === 'object' && deal.Account_Name.id) {
+      if (deal.account?.id) {
         console.log('Attempting to get primary contact from account...')
         
         try {
-          const accountResponse = await fetchAccountData(deal.Account_Name.id)
+          const accountResponse = await fetchAccountData(deal.account.id, client)
           if (accountResponse.data && accountResponse.data.length > 0) {
             const account = accountResponse.data[0] as ZohoAccountRecord
             console.log('Account data for contact lookup:', account)
             
             // Many CRM systems have a primary contact field on accounts
             if (account.Primary_Contact && account.Primary_Contact.id) {
-              const contactResponse = await fetchContactData(account.Primary_Contact.id)
+              const contactResponse = await fetchContactData(account.Primary_Contact.id, client)
               
               if (contactResponse.data && contactResponse.data.length > 0) {
                 const contact = contactResponse.data[0] as ZohoContact
@@ -290,8 +263,11 @@ export async function findDealPrimaryContact(dealId: string): Promise<{
                 
                 return {
                   contactId: account.Primary_Contact.id,
+                  name: account.Primary_Contact.name ?? '',
                   email: contact.Email || '',
-                  phone: contact.Phone || ''
+                  phone: contact.Phone || '',
+                  roleName: '',
+                  resolutionMethod: 'account_primary'
                 }
               }
             }
@@ -305,8 +281,11 @@ export async function findDealPrimaryContact(dealId: string): Promise<{
     console.log('All methods failed to find primary contact, returning empty result')
     return {
       contactId: null,
+      name: '',
       email: '',
-      phone: ''
+      phone: '',
+      roleName: '',
+      resolutionMethod: 'none'
     }
 
   } catch (error) {
@@ -314,8 +293,11 @@ export async function findDealPrimaryContact(dealId: string): Promise<{
     
     return {
       contactId: null,
+      name: '',
       email: '',
-      phone: ''
+      phone: '',
+      roleName: '',
+      resolutionMethod: 'none'
     }
   }
 }
@@ -0,0 +1,64 @@
+/**
+ * Debug Log Module
+ * Small in-memory event log shown in the widget's debug panel
+ * (API retries, schema warnings and other diagnostics that are easy to miss in the console)
+ */
+
+export type DebugEventLevel = 'info' | 'warning' | 'error'
+
+export interface DebugEvent {
+  id: number
+  timestamp: string
+  level: DebugEventLevel
+  category: string
+  message: string
+  details?: unknown
+}
+
+const MAX_EVENTS = 200
+
+let events: DebugEvent[] = []
+let nextEventId = 1
+const listeners = new Set<() => void>()
+
+/**
+ * Records a diagnostic event and notifies subscribers
+ * @param event - Level, category, message and optional details of the event
+ */
+export function recordDebugEvent(event: Omit<DebugEvent, 'id' | 'timestamp'>): void {
+  const entry: DebugEvent = {
+    ...event,
+    id: nextEventId++,
+    timestamp: new Date().toISOString()
+  }
+
+  // Keep the snapshot immutable so React's useSyncExternalStore sees a new reference
+  events = [...events, entry].slice(-MAX_EVENTS)
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Returns the current list of recorded events (oldest first)
+ */
+export function getDebugEvents(): DebugEvent[] {
+  return events
+}
+
+/**
+ * Subscribes to debug log changes
+ * @returns Function that removes the subscription
+ */
+export function subscribeDebugEvents(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Removes all recorded events
+ */
+export function clearDebugEvents(): void {
+  events = []
+  listeners.forEach(listener => listener())
+}
@@ -0,0 +1,313 @@
+/**
+ * Zoho Error Module
+ * Structured errors raised by zohoApiCall and the Zoho operations, so the UI can tell a
+ * missing mandatory field from a permission problem or a network failure
+ */
+
+export type ZohoErrorKind =
+  | 'validation'
+  | 'permission'
+  | 'not_found'
+  | 'rate_limit'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'unknown'
+
+export interface ZohoApiErrorDetails {
+  // Zoho error code (e.g. MANDATORY_NOT_FOUND, NO_PERMISSION) or a local code
+  code?: string
+  // HTTP-like status when the SDK provides one
+  status?: number | null
+  // API names of the fields Zoho (or local validation) complained about
+  fields?: string[]
+  // Original rejection value / response row from the SDK
+  payload?: unknown
+  // Operation that failed (e.g. "insertRecord PM_REQUEST")
+  operation?: string
+}
+
+// Zoho error codes grouped by how the user can recover from them
+const VALIDATION_CODES = [
+  'INVALID_DATA',
+  'MANDATORY_NOT_FOUND',
+  'REQUIRED_PARAM_MISSING',
+  'DUPLICATE_DATA',
+  'INVALID_REQUEST',
+  'MISSING_REQUIRED_FIELDS',
+  'INVALID_PM_REQUEST_DATA'
+]
+const PERMISSION_CODES = [
+  'NO_PERMISSION',
+  'OAUTH_SCOPE_MISMATCH',
+  'INVALID_TOKEN',
+  'AUTHENTICATION_FAILURE',
+  'AUTHORIZATION_FAILED',
+  'INVALID_OAUTHTOKEN'
+]
+const NOT_FOUND_CODES = ['NOT_FOUND', 'RECORD_NOT_FOUND', 'INVALID_URL_PATTERN']
+const RATE_LIMIT_CODES = ['RATE_LIMIT_EXCEEDED', 'TOO_MANY_REQUESTS', 'LIMIT_EXCEEDED', 'API_LIMIT_EXCEEDED']
+const SERVER_CODES = ['INTERNAL_ERROR', 'SERVICE_UNAVAILABLE', 'GATEWAY_TIMEOUT']
+
+/**
+ * Base class for every error coming out of the Zoho layer
+ */
+export class ZohoApiError extends Error {
+  readonly kind: ZohoErrorKind
+  readonly code: string
+  readonly status: number | null
+  readonly fields: string[]
+  readonly payload: unknown
+  readonly operation: string
+
+  constructor(message: string, details: ZohoApiErrorDetails = {}, kind: ZohoErrorKind = 'unknown') {
+    super(message)
+    this.name = 'ZohoApiError'
+    this.kind = kind
+    this.code = details.code || ''
+    this.status = details.status ?? null
+    this.fields = details.fields || []
+    this.payload = details.payload
+    this.operation = details.operation || ''
+  }
+}
+
+export class ZohoValidationError extends ZohoApiError {
+  constructor(message: string, details: ZohoApiErrorDetails = {}) {
+    super(message, details, 'validation')
+    this.name = 'ZohoValidationError'
+  }
+}
+
+export class ZohoPermissionError extends ZohoApiError {
+  constructor(message: string, details: ZohoApiErrorDetails = {}) {
+    super(message, details, 'permission')
+    this.name = 'ZohoPermissionError'
+  }
+}
+
+export class ZohoNotFoundError extends ZohoApiError {
+  constructor(message: string, details: ZohoApiErrorDetails = {}) {
+    super(message, details, 'not_found')
+    this.name = 'ZohoNotFoundError'
+  }
+}
+
+export class ZohoRateLimitError extends ZohoApiError {
+  constructor(message: string, details: ZohoApiErrorDetails = {}) {
+    super(message, details, 'rate_limit')
+    this.name = 'ZohoRateLimitError'
+  }
+}
+
+/**
+ * Network failures and timeouts (kind is 'network' or 'timeout')
+ */
+export class ZohoNetworkError extends ZohoApiError {
+  constructor(message: string, details: ZohoApiErrorDetails = {}, kind: 'network' | 'timeout' = 'network') {
+    super(message, details, kind)
+    this.name = 'ZohoNetworkError'
+  }
+}
+
+export class ZohoServerError extends ZohoApiError {
+  constructor(message: string, details: ZohoApiErrorDetails = {}) {
+    super(message, details, 'server')
+    this.name = 'ZohoServerError'
+  }
+}
+
+/**
+ * Converts any SDK rejection, response row or Error into the matching ZohoApiError subclass
+ * ZohoApiError instances are returned unchanged, so the first (most specific) operation name is kept
+ * @param error - The value that was thrown
+ * @param operation - Operation name to attach when the error does not have one yet
+ * @returns Typed Zoho error
+ */
+export function toZohoApiError(error: unknown, operation?: string): ZohoApiError {
+  if (error instanceof ZohoApiError) {
+    return error
+  }
+
+  const details: ZohoApiErrorDetails = {
+    code: readZohoErrorCode(error),
+    status: readZohoErrorStatus(error),
+    fields: readZohoErrorFields(error),
+    payload: error,
+    operation
+  }
+  const message = describeZohoError(error)
+
+  switch (classifyZohoError(error, details.code || '', details.status ?? null)) {
+    case 'validation':
+      return new ZohoValidationError(message, details)
+    case 'permission':
+      return new ZohoPermissionError(message, details)
+    case 'not_found':
+      return new ZohoNotFoundError(message, details)
+    case 'rate_limit':
+      return new ZohoRateLimitError(message, details)
+    case 'timeout':
+      return new ZohoNetworkError(message, details, 'timeout')
+    case 'network':
+      return new ZohoNetworkError(message, details, 'network')
+    case 'server':
+      return new ZohoServerError(message, details)
+    default:
+      return new ZohoApiError(message, details)
+  }
+}
+
+/**
+ * Short, user-facing title for an error
+ */
+export function getZohoErrorTitle(error: ZohoApiError): string {
+  switch (error.kind) {
+    case 'validation':
+      return 'Missing or invalid data'
+    case 'permission':
+      return 'Permission denied'
+    case 'not_found':
+      return 'Record not found'
+    case 'rate_limit':
+      return 'Zoho CRM API limit reached'
+    case 'timeout':
+      return 'Zoho CRM did not respond in time'
+    case 'network':
+      return 'Network error'
+    case 'server':
+      return 'Zoho CRM error'
+    default:
+      return 'Something went wrong'
+  }
+}
+
+/**
+ * Remediation hint telling the user what to do next
+ */
+export function getZohoErrorHint(error: ZohoApiError): string {
+  switch (error.kind) {
+    case 'validation':
+      return error.fields.length > 0
+        ? `Fill in or correct ${error.fields.join(', ')} on the Deal, then try again.`
+        : 'Check the Deal and product details, then try again.'
+    case 'permission':
+      return 'Your Zoho CRM profile does not allow this action. Ask a CRM administrator for access.'
+    case 'not_found':
+      return 'The record may have been deleted or merged. Reload the Deal and try again.'
+    case 'rate_limit':
+      return 'Too many requests were sent to Zoho CRM. Wait a minute and try again.'
+    case 'timeout':
+      return 'The change may still have been saved. Reload the Deal to check before trying again.'
+    case 'network':
+      return 'Check your internet connection and try again.'
+    case 'server':
+      return 'Zoho CRM is having trouble right now. Try again in a few minutes.'
+    default:
+      return 'Try again. If it keeps failing, open the debug data and share it with your CRM administrator.'
+  }
+}
+
+/**
+ * Reads the Zoho error code from an SDK rejection ({ code }, { data: [{ code }] } or Error)
+ */
+export function readZohoErrorCode(error: unknown): string {
+  if (!error || typeof error !== 'object') {
+    return ''
+  }
+
+  const record = error as { code?: unknown; data?: unknown }
+  if (typeof record.code === 'string') {
+    return record.code
+  }
+  if (Array.isArray(record.data) && record.data[0] && typeof record.data[0].code === 'string') {
+    return record.data[0].code
+  }
+  return ''
+}
+
+/**
+ * Reads an HTTP-like status code from an SDK rejection, if it has one
+ */
+export function readZohoErrorStatus(error: unknown): number | null {
+  if (!error || typeof error !== 'object') {
+    return null
+  }
+
+  const status = (error as { status?: unknown; statusCode?: unknown }).status ??
+    (error as { statusCode?: unknown }).statusCode
+  const numeric = typeof status === 'string' ? parseInt(status, 10) : status
+  return typeof numeric === 'number' && !isNaN(numeric) ? numeric : null
+}
+
+/**
+ * Builds a readable message from an SDK rejection value
+ */
+export function describeZohoError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message
+  }
+
+  const row = readErrorRow(error)
+  const code = readZohoErrorCode(error)
+  const message = typeof row?.message === 'string' ? row.message : ''
+
+  if (code && message) return `${code} - ${message}`
+  return code || message || 'Unknown error'
+}
+
+/**
+ * Collects the API field names from Zoho error details ({ details: { api_name } } or
+ * { data: [{ details: { api_name, parent_api_name } }] })
+ */
+function readZohoErrorFields(error: unknown): string[] {
+  const rows = error && typeof error === 'object' && Array.isArray((error as { data?: unknown }).data)
+    ? (error as { data: unknown[] }).data
+    : [error]
+
+  const fields = new Set<string>()
+  for (const row of rows) {
+    const details = row && typeof row === 'object' ? (row as { details?: unknown }).details : null
+    if (details && typeof details === 'object') {
+      const { api_name: apiName, parent_api_name: parentApiName } = details as { api_name?: unknown; parent_api_name?: unknown }
+      if (typeof apiName === 'string' && apiName) {
+        // Subform errors name the column and the subform it belongs to (e.g. Subform_1.Is_Contract)
+        fields.add(typeof parentApiName === 'string' && parentApiName ? `${parentApiName}.${apiName}` : apiName)
+      }
+    }
+  }
+  return [...fields]
+}
+
+/**
+ * Returns the object carrying code/message (the error itself or the first response row)
+ */
+function readErrorRow(error: unknown): Record<string, unknown> | null {
+  if (!error || typeof error !== 'object') {
+    return null
+  }
+
+  const record = error as Record<string, unknown>
+  if (typeof record.code !== 'string' && Array.isArray(record.data) && record.data[0] && typeof record.data[0] === 'object') {
+    return record.data[0] as Record<string, unknown>
+  }
+  return record
+}
+
+/**
+ * Picks the error kind from the Zoho code, the status and the shape of the rejection
+ */
+function classifyZohoError(error: unknown, code: string, status: number | null): ZohoErrorKind {
+  if (RATE_LIMIT_CODES.includes(code) || status === 429) return 'rate_limit'
+  if (code === 'TIMEOUT') return 'timeout'
+  if (code === 'NETWORK_ERROR') return 'network'
+  if (PERMISSION_CODES.includes(code) || status === 401 || status === 403) return 'permission'
+  if (NOT_FOUND_CODES.includes(code) || status === 404) return 'not_found'
+  if (VALIDATION_CODES.includes(code) || status === 400) return 'validation'
+  if (SERVER_CODES.includes(code) || (status !== null && status >= 500)) return 'server'
+
+  // Network failures surface as TypeErrors from fetch inside the SDK bridge
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return 'network'
+
+  return 'unknown'
+}
@@ -4,7 +4,57 @@
  */
 
 // Core utilities
-export { zohoApiCall, validateZohoAPI, showNotification } from './core'
+export {
+  zohoApiCall,
+  validateZohoAPI,
+  showNotification,
+  isRetryableZohoError,
+  assertZohoWriteSuccess,
+  DEFAULT_ZOHO_API_CALL_OPTIONS
+} from './core'
+export type { ZohoApiCallOptions } from './core'
+
+// Typed errors
+export {
+  ZohoApiError,
+  ZohoValidationError,
+  ZohoPermissionError,
+  ZohoNotFoundError,
+  ZohoRateLimitError,
+  ZohoNetworkError,
+  ZohoServerError,
+  toZohoApiError,
+  getZohoErrorTitle,
+  getZohoErrorHint
+} from './errors'
+export type { ZohoErrorKind, ZohoApiErrorDetails } from './errors'
+
+// Deal domain model adapters
+export { dealFromPageLoad, dealFromRecord, dealFieldsToZoho, DEAL_FIELD_API_NAMES } from './deal/dealAdapters'
+export type { DealFieldKey } from './deal/dealAdapters'
+
+// Runtime schema decoders
+export {
+  decodePageLoadData,
+  decodeDealData,
+  decodeDealRecord,
+  decodeProductSubform,
+  decodeContact,
+  decodeContactRolesResponse,
+  decodeCurrentUserResponse,
+  getProductRowIssues,
+  getProductName,
+  reportSchemaWarnings
+} from './schema/schemaDecoders'
+export type { SchemaWarning, DecodeResult } from './schema/schemaDecoders'
+
+// Debug log (shown in the widget's debug panel)
+export { recordDebugEvent, getDebugEvents, subscribeDebugEvents, clearDebugEvents } from './debugLog'
+export type { DebugEvent, DebugEventLevel } from './debugLog'
+
+// Zoho transport
+export { createSdkZohoClient, getZohoClient, setZohoClient } from './client'
+export type { ZohoClient, ZohoWriteOptions, ZohoSearchOptions, ZohoRetryOptions, ZohoAttachmentFile } from './client'
 
 // Types
 export type {
@@ -12,6 +62,8 @@ export type {
   ZohoUpdateResponse,
   ZohoDealRecord,
   ZohoContact,
+  ZohoConnectionRequest,
+  ZohoCurrentUser,
   PMRequestData
 } from './types'
 
@@ -20,8 +72,109 @@ export {
   fetchDealData,
   fetchContactData,
   fetchAccountData,
-  findDealPrimaryContact
+  findDealPrimaryContact,
+  updateDealFields
 } from './dealOperations'
+export type { DealPrimaryContact } from './dealOperations'
+
+// Contact Roles
+export { fetchDealContactRoles, getCrmConnectionName } from './contact/contactRoles'
+export type { DealContactRole, FetchContactRolesOptions } from './contact/contactRoles'
+
+// Contact Role priority
+export {
+  DEFAULT_CONTACT_ROLE_PRIORITY,
+  getContactRolePriority,
+  setContactRolePriority,
+  parseContactRolePriority,
+  resolveContactRolePriority,
+  findPreferredContactRole,
+  describeContactResolution
+} from './contact/contactRolePriority'
+export type { ContactRolePriorityConfig, ContactRoleContext, ContactResolutionMethod } from './contact/contactRolePriority'
+
+// Product field rules (product type x term matrix)
+export {
+  findProductFieldRule,
+  getRequiredDealFields,
+  getProductFieldHandling,
+  applyProductFieldHandling,
+  normalizeRuleValue,
+  REQUIRED_FIELD_LABELS
+} from './rules/productFieldRules'
+export type {
+  ProductFieldRule,
+  ProductFieldRulesConfig,
+  ProductFieldKey,
+  RequiredDealField,
+  FieldHandling
+} from './rules/productFieldRules'
+export { PRODUCT_FIELD_RULES } from './rules/productFieldRulesConfig'
+
+// Request types (Contract, Move, Disconnect, Upgrade, MAC)
+export {
+  PM_REQUEST_TYPES,
+  REQUEST_TYPE_RULES,
+  getRequestTypeRule,
+  isPMRequestType,
+  suggestRequestType
+} from './rules/requestTypeRules'
+export type { PMRequestType, RequestTypeRule, RequestTypeDealFlag } from './rules/requestTypeRules'
+export { REQUEST_TYPE_BUILDERS } from './pmRequest/requestTypeBuilders'
+export type { RequestTypeBuilder } from './pmRequest/requestTypeBuilders'
+
+// PM Request validation (errors and warnings)
+export {
+  validatePMRequest,
+  getRequiredFieldIssues,
+  getPMRequestWarnings,
+  partitionValidationIssues
+} from './validation/pmRequestValidation'
+export type {
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationSeverity,
+  PMRequestValidationInput
+} from './validation/pmRequestValidation'
+export {
+  DEFAULT_VALIDATION_OVERRIDE_CONFIG,
+  getValidationOverrideConfig,
+  setValidationOverrideConfig,
+  parseValidationOverrideConfig,
+  canOverrideValidation,
+  isOverridableIssue,
+  applyValidationOverride,
+  formatOverrideAudit
+} from './validation/validationOverride'
+export type { ValidationOverride, ValidationOverrideConfig } from './validation/validationOverride'
+export { calculateContractMRC, getProductGroups, processContractProducts } from './product/productProcessing'
+export type { ProductGroup, ProcessedProductInfo } from './product/productProcessing'
+export { buildAddresses, buildProductGroupAddresses } from './address/addressProcessing'
+export type { AddressInfo } from './address/addressProcessing'
+
+// PM assignment rules
+export {
+  DEFAULT_PM_ASSIGNMENT_CONFIG,
+  getPMAssignmentConfig,
+  setPMAssignmentConfig,
+  parsePMAssignmentConfig,
+  buildPMAssignmentInput,
+  resolvePMAssignment,
+  resolvePMAssignmentFromCRM
+} from './assignment/pmAssignment'
+export type {
+  PMAssignmentConfig,
+  PMAssignmentRule,
+  PMAssignmentCriteria,
+  PMAssignmentInput,
+  PMAssignment
+} from './assignment/pmAssignment'
+
+// Contact candidates (contact picker)
+export { fetchContactCandidates, pickAutomaticContact, getCandidateRoleName, getContactSourceLabel } from './contact/contactCandidates'
+export type { ContactCandidate, ContactCandidates, ContactCandidateSource, ContactSelection } from './contact/contactCandidates'
+export { validateEmailFormat } from './contact/contactManagement'
+export type { ContactInfo } from './contact/contactManagement'
 
 // Product operations
 export {
@@ -29,13 +182,58 @@ export {
   clearAllContractSelections,
   updateContractProductField
 } from './productOperations'
+export type { ContractSelectionUpdate } from './productOperations'
 
 // PM Request operations
-export { generatePMRequest } from './pmRequestOperations'
+export {
+  generatePMRequest,
+  preparePMRequest,
+  submitPMRequest,
+  generatePMRequestBatch,
+  preparePMRequestBatch,
+  submitPMRequestBatch
+} from './pmRequestOperations'
+export type {
+  GeneratePMRequestOptions,
+  SubmitPMRequestOptions,
+  PMRequestSubmission,
+  PMRequestBatchOptions,
+  PMRequestBatchPreview,
+  SubmitPMRequestBatchOptions,
+  PMRequestBatchResult,
+  PMRequestBatchSubmission
+} from './pmRequestOperations'
+export { describePMRequestFields, PM_REQUEST_FIELD_LABELS } from './pmRequest/pmRequestPreview'
+export type { PMRequestPreview, PMRequestFieldPreview, PMRequestFieldName } from './pmRequest/pmRequestPreview'
+export { findExistingPMRequests, fetchPMRequestSummary, formatRevisionNote, filterSameScopePMRequests } from './pmRequest/duplicateDetection'
+export type { ExistingPMRequest, ExistingPMRequestAction, PMRequestScope } from './pmRequest/duplicateDetection'
+export { fetchPMRequestHistory, diffPMRequest } from './pmRequest/pmRequestHistory'
+export type { PMRequestHistoryEntry, PMRequestFieldChange, FetchPMRequestHistoryOptions } from './pmRequest/pmRequestHistory'
+export {
+  DEFAULT_DESCRIPTION_TEMPLATES,
+  DESCRIPTION_TEMPLATE_PLACEHOLDERS,
+  getDescriptionTemplates,
+  setDescriptionTemplates,
+  parseDescriptionTemplates,
+  resolveDescriptionTemplate,
+  renderPMRequestDescription
+} from './pmRequest/descriptionTemplate'
+export type { DescriptionTemplateConfig, DescriptionTemplateInput, DescriptionPlaceholder } from './pmRequest/descriptionTemplate'
+export { PM_REQUEST_EXPORT_FORMATS, buildPMRequestExport, exportPMRequest } from './pmRequest/pmRequestExport'
+export type {
+  PMRequestExportFormat,
+  PMRequestExportPackage,
+  PMRequestExportProduct,
+  PMRequestExportFile
+} from './pmRequest/pmRequestExport'
+export { buildPMRequestSummaryPdf } from './pmRequest/pmRequestSummaryPdf'
+export type { PMRequestSummaryFile } from './pmRequest/pmRequestSummaryPdf'
 
 // Widget operations
 export {
   closeWidget,
   reloadWidget,
+  openRecord,
+  downloadFile,
   updateContractProductAndClose
 } from './widgetOperations'
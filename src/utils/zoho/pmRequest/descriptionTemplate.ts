@@ -0,0 +1,234 @@
+import type { Deal } from '../../../types/deal'
+import type { ZohoProductSubform } from '../../../types/zoho'
+import { getContractGroupProducts, parseProductPricing, type ProcessedProductInfo } from '../product/productProcessing'
+import { getProductName } from '../schema/schemaDecoders'
+
+/**
+ * Description Template Module
+ * Composes Request_Descriptions from a template instead of copying the Deal Description verbatim,
+ * so the PM sees what was sold without opening the product subform. Templates use {{placeholder}}
+ * tags; a line whose placeholders all come out empty is left out. The default template can be
+ * replaced per request type, via setDescriptionTemplates() or the VITE_PM_REQUEST_DESCRIPTION_TEMPLATES variable.
+ */
+
+export interface DescriptionTemplateConfig {
+  // Template used when no request type template matches
+  default: string
+  // Templates keyed by PM Request type (e.g. "Disconnect")
+  byRequestType: Record<string, string>
+}
+
+export interface DescriptionTemplateInput {
+  requestType: string
+  deal: Deal
+  productInfo: ProcessedProductInfo
+}
+
+// Placeholders a template may use, with what they are replaced by
+export const DESCRIPTION_TEMPLATE_PLACEHOLDERS = {
+  description: 'Deal Description',
+  requestType: 'PM Request type',
+  dealName: 'Deal name',
+  accountName: 'Account name',
+  accountNumber: 'Deal Account_Number',
+  circuitId: 'Deal Circuit_Id',
+  contractProduct: 'Contract product line (name, type, quantity, term, price)',
+  productGrouping: 'Product_Grouping of the contract product',
+  groupProducts: 'Every product of the contract group, one per line (every product when there is no contract product)',
+  mrc: 'MRC of the contract group',
+  movingTns: 'Porting / moving TNs (Yes or No)',
+  dataHandOff: 'Data hand-off (after the product field rules)'
+} as const
+
+export type DescriptionPlaceholder = keyof typeof DESCRIPTION_TEMPLATE_PLACEHOLDERS
+
+export const DEFAULT_DESCRIPTION_TEMPLATES: DescriptionTemplateConfig = {
+  default: [
+    '{{description}}',
+    '',
+    'Contract product: {{contractProduct}}',
+    'Product group: {{productGrouping}}',
+    'Group MRC: {{mrc}}',
+    '{{groupProducts}}',
+    'Moving TNs: {{movingTns}}',
+    'Data hand-off: {{dataHandOff}}'
+  ].join('\n'),
+  byRequestType: {
+    Disconnect: [
+      '{{description}}',
+      '',
+      'Disconnect account {{accountNumber}}',
+      'Circuit ID: {{circuitId}}',
+      'Services on the deal:',
+      '{{groupProducts}}'
+    ].join('\n'),
+    MAC: [
+      '{{description}}',
+      '',
+      'Changes on account {{accountNumber}}',
+      'Contract product: {{contractProduct}}',
+      '{{groupProducts}}',
+      'Moving TNs: {{movingTns}}'
+    ].join('\n')
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+let activeConfig: DescriptionTemplateConfig = DEFAULT_DESCRIPTION_TEMPLATES
+
+/**
+ * Returns the active description templates
+ */
+export function getDescriptionTemplates(): DescriptionTemplateConfig {
+  return activeConfig
+}
+
+/**
+ * Replaces the description templates (missing sections fall back to the defaults)
+ * @param config - New configuration, or null to restore the defaults
+ */
+export function setDescriptionTemplates(config: Partial<DescriptionTemplateConfig> | null): void {
+  activeConfig = config
+    ? { ...DEFAULT_DESCRIPTION_TEMPLATES, ...config }
+    : DEFAULT_DESCRIPTION_TEMPLATES
+  console.log('⚙️ Description templates updated:', activeConfig)
+}
+
+/**
+ * Parses description templates from JSON (e.g. the VITE_PM_REQUEST_DESCRIPTION_TEMPLATES variable)
+ * @param json - JSON object with optional default and byRequestType sections
+ * @returns Partial configuration for setDescriptionTemplates
+ * @throws Error when the JSON is malformed, a section has the wrong shape or a template
+ *         uses an unknown placeholder
+ */
+export function parseDescriptionTemplates(json: string): Partial<DescriptionTemplateConfig> {
+  const parsed: unknown = JSON.parse(json)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Description templates must be a JSON object')
+  }
+
+  const { default: defaultTemplate, byRequestType } = parsed as Record<string, unknown>
+  const config: Partial<DescriptionTemplateConfig> = {}
+
+  if (defaultTemplate !== undefined) {
+    if (typeof defaultTemplate !== 'string') throw new Error('"default" must be a template string')
+    assertKnownPlaceholders(defaultTemplate, 'default')
+    config.default = defaultTemplate
+  }
+  if (byRequestType !== undefined) {
+    if (!isTemplateMap(byRequestType)) throw new Error('"byRequestType" must map request types to template strings')
+    for (const [requestType, template] of Object.entries(byRequestType)) {
+      assertKnownPlaceholders(template, `byRequestType.${requestType}`)
+    }
+    config.byRequestType = byRequestType
+  }
+
+  return config
+}
+
+/**
+ * Resolves the template of a request type (request type template, else the default one)
+ * @param requestType - PM Request type, matched ignoring case
+ * @param config - Configuration to read (defaults to the active one)
+ * @returns The template and the request type it was configured for (null for the default)
+ */
+export function resolveDescriptionTemplate(
+  requestType: string,
+  config: DescriptionTemplateConfig = getDescriptionTemplates()
+): { template: string; requestType: string | null } {
+  const wanted = requestType.trim().toLowerCase()
+  const entry = Object.entries(config.byRequestType)
+    .find(([candidate]) => candidate.trim().toLowerCase() === wanted)
+
+  return entry ? { template: entry[1], requestType: entry[0] } : { template: config.default, requestType: null }
+}
+
+/**
+ * Renders the Request_Descriptions of a PM Request from its request type template
+ * @param input - Request type, deal and processed product information
+ * @param config - Configuration to read (defaults to the active one)
+ */
+export function renderPMRequestDescription(
+  input: DescriptionTemplateInput,
+  config: DescriptionTemplateConfig = getDescriptionTemplates()
+): string {
+  const { template } = resolveDescriptionTemplate(input.requestType, config)
+  return renderTemplate(template, getPlaceholderValues(input))
+}
+
+/**
+ * Fills a template, leaving out lines whose placeholders are all empty
+ * Unknown placeholders render empty; runs of blank lines are collapsed
+ */
+function renderTemplate(template: string, values: Record<DescriptionPlaceholder, string>): string {
+  const lines: string[] = []
+
+  for (const line of template.split('\n')) {
+    const placeholders = Array.from(line.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+    const valueOf = (name: string) => isPlaceholder(name) ? values[name] : ''
+    if (placeholders.length > 0 && placeholders.every(name => !valueOf(name))) {
+      continue
+    }
+    lines.push(line.replace(PLACEHOLDER_PATTERN, (_tag, name: string) => valueOf(name)))
+  }
+
+  return lines.join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function getPlaceholderValues({ requestType, deal, productInfo }: DescriptionTemplateInput): Record<DescriptionPlaceholder, string> {
+  const { contractProduct } = productInfo
+  const groupProducts = getContractGroupProducts(deal, productInfo)
+
+  return {
+    description: deal.description.trim(),
+    requestType,
+    dealName: deal.name,
+    accountName: deal.account?.name ?? '',
+    accountNumber: deal.accountNumber,
+    circuitId: deal.circuitId,
+    contractProduct: contractProduct ? formatProductLine(contractProduct) : '',
+    productGrouping: productInfo.productGrouping,
+    groupProducts: groupProducts.map(product => `  • ${formatProductLine(product)}`).join('\n'),
+    mrc: contractProduct ? formatAmount(productInfo.mrcTotal) : '',
+    movingTns: productInfo.movingTns ? 'Yes' : 'No',
+    dataHandOff: productInfo.dataHandOff
+  }
+}
+
+/**
+ * One product as "name - type, qty N, term T, $total"
+ */
+function formatProductLine(product: ZohoProductSubform): string {
+  const details = [
+    product.Product_Type,
+    `qty ${product.Quantity || 0}`,
+    product.Terms ? `term ${product.Terms}` : '',
+    formatAmount(parseProductPricing(product.Total_Pricing))
+  ].filter(Boolean)
+
+  return `${getProductName(product)} - ${details.join(', ')}`
+}
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function assertKnownPlaceholders(template: string, section: string): void {
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!isPlaceholder(match[1])) {
+      throw new Error(`"${section}" uses the unknown placeholder {{${match[1]}}}`)
+    }
+  }
+}
+
+function isPlaceholder(name: string): name is DescriptionPlaceholder {
+  return Object.prototype.hasOwnProperty.call(DESCRIPTION_TEMPLATE_PLACEHOLDERS, name)
+}
+
+function isTemplateMap(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(template => typeof template === 'string')
+}
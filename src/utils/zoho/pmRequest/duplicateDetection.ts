@@ -0,0 +1,176 @@
+import { getZohoClient, type ZohoClient } from '../client'
+import { toZohoApiError } from '../errors'
+import { recordDebugEvent } from '../debugLog'
+
+/**
+ * Duplicate PM Request Detection Module
+ * Finds PM_REQUEST records that already exist for a deal - the one linked from the Deal's
+ * PM_Request_Id field and any found by searching PM_REQUEST on its Deals lookup - so a second
+ * Generate updates the existing request or creates an explicit revision instead of a duplicate.
+ */
+
+export interface ExistingPMRequest {
+  id: string
+  name: string
+  status: string
+  requestType: string
+  productType: string
+  serviceAddress: string
+  createdTime: string
+  // How the request was found
+  source: 'deal_link' | 'search'
+}
+
+/**
+ * What to do with an existing PM Request
+ * - update: write the new values onto the existing record (its Status is kept)
+ * - revision: create a new record noting which request it revises
+ */
+export interface ExistingPMRequestAction {
+  mode: 'update' | 'revision'
+  requestId: string
+}
+
+/**
+ * Looks up PM_REQUEST records that already exist for a deal, newest first
+ * Lookup failures are logged and skipped so a CRM hiccup does not block the request
+ * @param dealId - The Zoho Deal ID
+ * @param linkedRequestId - The Deal's PM_Request_Id, if set
+ * @param client - Zoho transport (defaults to the SDK client)
+ */
+export async function findExistingPMRequests(
+  dealId: string,
+  linkedRequestId: string,
+  client: ZohoClient = getZohoClient()
+): Promise<ExistingPMRequest[]> {
+  const found = new Map<string, ExistingPMRequest>()
+
+  if (linkedRequestId) {
+    try {
+      const linked = await fetchPMRequestSummary(linkedRequestId, client)
+      if (linked) {
+        found.set(linked.id, linked)
+      }
+    } catch (error) {
+      reportLookupFailure(`PM_Request_Id ${linkedRequestId}`, error)
+    }
+  }
+
+  try {
+    const response = await client.searchRecords('PM_REQUEST', `(Deals:equals:${dealId})`)
+    for (const record of response.data ?? []) {
+      if (isRecord(record) && !found.has(String(record.id))) {
+        found.set(String(record.id), toExistingPMRequest(record, 'search'))
+      }
+    }
+  } catch (error) {
+    reportLookupFailure(`search on Deals ${dealId}`, error)
+  }
+
+  const existing = Array.from(found.values())
+    .sort((a, b) => b.createdTime.localeCompare(a.createdTime))
+  console.log('🔎 Existing PM Requests for deal:', { dealId, count: existing.length, existing })
+  return existing
+}
+
+/**
+ * What a PM Request covers - existing requests only count as duplicates of the same scope
+ */
+export interface PMRequestScope {
+  requestType: string
+  productType: string
+  // Service address of a product group request (multi-location deals); omitted for deal-level requests
+  serviceAddress?: string
+}
+
+/**
+ * Keeps the existing PM Requests that cover the same scope as the request being built
+ * A request of another type (e.g. the Contract request before a Disconnect), for another product
+ * type or, on multi-location deals, for another product group's service address is not a
+ * duplicate and must not be offered for an update in place. Empty fields on older records match.
+ * @param existing - Existing PM Requests of the deal
+ * @param scope - Request type, product type and service address of the new request
+ */
+export function filterSameScopePMRequests(existing: ExistingPMRequest[], scope: PMRequestScope): ExistingPMRequest[] {
+  const matches = (recorded: string, wanted: string | undefined) =>
+    !recorded || wanted === undefined || normalizeScopeValue(recorded) === normalizeScopeValue(wanted)
+
+  return existing.filter(request =>
+    matches(request.requestType, scope.requestType) &&
+    matches(request.productType, scope.productType) &&
+    matches(request.serviceAddress, scope.serviceAddress)
+  )
+}
+
+/**
+ * Reads the PM Request linked from a Deal's PM_Request_Id field
+ * @param requestId - PM_REQUEST record ID
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @returns The request summary, or null when the record no longer exists
+ * @throws ZohoApiError for any other failure
+ */
+export async function fetchPMRequestSummary(
+  requestId: string,
+  client: ZohoClient = getZohoClient()
+): Promise<ExistingPMRequest | null> {
+  try {
+    const response = await client.getRecord('PM_REQUEST', requestId)
+    const record = response.data?.[0]
+    return isRecord(record) ? toExistingPMRequest(record, 'deal_link') : null
+  } catch (error) {
+    const zohoError = toZohoApiError(error, 'fetchPMRequestSummary')
+    // Zoho answers INVALID_DATA for the ID of a deleted record
+    if (zohoError.kind === 'not_found' || zohoError.code === 'INVALID_DATA') {
+      return null
+    }
+    throw zohoError
+  }
+}
+
+/**
+ * Builds the note appended to Request_Descriptions of a revision
+ * @param action - The revision action chosen by the user
+ * @param existing - Existing PM Requests of the deal
+ */
+export function formatRevisionNote(action: ExistingPMRequestAction, existing: ExistingPMRequest[]): string {
+  const revised = existing.find(request => request.id === action.requestId)
+  const label = revised?.name ? `${revised.name} (${action.requestId})` : action.requestId
+  return `--- Revision of PM Request ${label} ---`
+}
+
+function toExistingPMRequest(record: Record<string, unknown>, source: ExistingPMRequest['source']): ExistingPMRequest {
+  const text = (key: string) => typeof record[key] === 'string' ? record[key] as string : ''
+  return {
+    id: String(record.id),
+    name: text('Name'),
+    status: text('Status'),
+    requestType: text('Request_Type'),
+    productType: text('Product_Type'),
+    serviceAddress: text('Service_Address'),
+    createdTime: text('Created_Time'),
+    source
+  }
+}
+
+function normalizeScopeValue(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function reportLookupFailure(lookup: string, error: unknown): void {
+  const zohoError = toZohoApiError(error, 'findExistingPMRequests')
+  if (zohoError.kind === 'not_found') {
+    return
+  }
+
+  console.warn(`⚠️ Could not check existing PM Requests (${lookup}):`, zohoError)
+  recordDebugEvent({
+    level: 'warning',
+    category: 'pm_request',
+    message: `Duplicate check skipped ${lookup}: ${zohoError.message}`,
+    details: zohoError
+  })
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && 'id' in value
+}
@@ -0,0 +1,287 @@
+/**
+ * PDF Document Module
+ * Minimal PDF 1.4 writer for the printable PM Request summary - text in the standard Helvetica
+ * fonts, table rows and rules on US Letter pages, with page numbers in the footer.
+ * Generated entirely in the browser, so no PDF library or server round trip is needed.
+ */
+
+export interface PdfTextOptions {
+  // Font size in points (defaults to 10)
+  size?: number
+  bold?: boolean
+  // Left indent from the margin, in points
+  indent?: number
+  // Grey level from 0 (black) to 1 (white)
+  gray?: number
+}
+
+export interface PdfColumn {
+  text: string
+  // Column width in points
+  width: number
+  align?: 'left' | 'right'
+}
+
+export interface PdfDocument {
+  // Writes text, wrapped to the page width; newlines start a new line
+  text: (text: string, options?: PdfTextOptions) => void
+  // Writes one table row; cell text is wrapped within its column
+  row: (columns: PdfColumn[], options?: PdfTextOptions) => void
+  // Draws a horizontal line across the page
+  rule: () => void
+  // Moves down by the given number of points
+  gap: (points: number) => void
+  // Starts a new page when less than the given height is left on the current one
+  keepTogether: (points: number) => void
+  // Width available between the margins, in points
+  contentWidth: number
+  // Serializes the document
+  toBytes: () => Uint8Array
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 50
+const FOOTER_SIZE = 8
+const LINE_SPACING = 1.35
+
+// Advance widths (1/1000 em) of the printable ASCII characters 32-126, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+// Used for the WinAnsi characters outside of printable ASCII
+const FALLBACK_WIDTH = 556
+
+// Unicode characters outside of Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+}
+
+/**
+ * Creates an empty PDF document
+ * @param title - Document title, stored in the PDF metadata
+ * @returns Writer that lays content out top to bottom, adding pages as needed
+ */
+export function createPdfDocument(title: string): PdfDocument {
+  const pages: string[][] = [[]]
+  let cursorY = PAGE_HEIGHT - MARGIN
+  const contentWidth = PAGE_WIDTH - MARGIN * 2
+  const bottom = MARGIN + FOOTER_SIZE * 3
+
+  const currentPage = () => pages[pages.length - 1]
+
+  const newPage = () => {
+    pages.push([])
+    cursorY = PAGE_HEIGHT - MARGIN
+  }
+
+  // Moves the cursor down by one line of the given height, breaking the page when it would not fit
+  const advance = (lineHeight: number) => {
+    if (cursorY - lineHeight < bottom) {
+      newPage()
+    }
+    cursorY -= lineHeight
+  }
+
+  const drawText = (text: string, x: number, size: number, bold: boolean, gray: number) => {
+    currentPage().push(
+      `${formatNumber(gray)} g BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(cursorY)} Td (${encodeText(text)}) Tj ET`
+    )
+  }
+
+  return {
+    contentWidth,
+
+    text(text, options = {}) {
+      const { size = 10, bold = false, indent = 0, gray = 0 } = options
+      const lineHeight = size * LINE_SPACING
+
+      for (const paragraph of text.split(/\r?\n/)) {
+        const lines = wrapText(paragraph, contentWidth - indent, size, bold)
+        for (const line of lines) {
+          advance(lineHeight)
+          if (line) {
+            drawText(line, MARGIN + indent, size, bold, gray)
+          }
+        }
+      }
+    },
+
+    row(columns, options = {}) {
+      const { size = 10, bold = false, indent = 0, gray = 0 } = options
+      const cellLines = columns.map(column => column.text
+        .split(/\r?\n/)
+        .flatMap(paragraph => wrapText(paragraph, column.width - 4, size, bold)))
+      const lineCount = Math.max(1, ...cellLines.map(lines => lines.length))
+
+      for (let lineIndex = 0; lineIndex < lineCount; lineIndex++) {
+        advance(size * LINE_SPACING)
+
+        let x = MARGIN + indent
+        columns.forEach((column, columnIndex) => {
+          const line = cellLines[columnIndex][lineIndex]
+          if (line) {
+            const offset = column.align === 'right' ? column.width - 4 - measureText(line, size, bold) : 0
+            drawText(line, x + offset, size, bold, gray)
+          }
+          x += column.width
+        })
+      }
+    },
+
+    rule() {
+      advance(6)
+      currentPage().push(`0.75 G 0.5 w ${MARGIN} ${formatNumber(cursorY + 3)} m ${PAGE_WIDTH - MARGIN} ${formatNumber(cursorY + 3)} l S`)
+    },
+
+    gap(points) {
+      cursorY = Math.max(cursorY - points, bottom)
+    },
+
+    keepTogether(points) {
+      if (cursorY - points < bottom) {
+        newPage()
+      }
+    },
+
+    toBytes() {
+      return serializeDocument(title, pages)
+    }
+  }
+}
+
+/**
+ * Builds the PDF file: catalog, page tree, the two fonts, then a page and a content stream
+ * per page, followed by the cross-reference table
+ */
+function serializeDocument(title: string, pages: string[][]): Uint8Array {
+  const objects: string[] = []
+  const pageIds = pages.map((_page, index) => 6 + index * 2)
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  objects[5] = `<< /Title (${encodeText(title)}) /Producer (PM Request Contract widget) /CreationDate (${formatPdfDate(new Date())}) >>`
+
+  pages.forEach((commands, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`
+    const footerX = PAGE_WIDTH - MARGIN - measureText(footer, FOOTER_SIZE, false)
+    const stream = [
+      ...commands,
+      `0.4 g BT /F1 ${FOOTER_SIZE} Tf ${formatNumber(footerX)} ${MARGIN} Td (${encodeText(footer)}) Tj ET`
+    ].join('\n')
+
+    objects[pageIds[index]] = [
+      '<< /Type /Page /Parent 2 0 R',
+      `/MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]`,
+      '/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >>',
+      `/Contents ${pageIds[index] + 1} 0 R >>`
+    ].join(' ')
+    objects[pageIds[index] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+  })
+
+  // Every character is a single byte (encodeText escapes anything above 0x7E), so string
+  // lengths are byte offsets
+  let output = '%PDF-1.4\n'
+  const offsets: number[] = []
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+  }
+
+  const xrefOffset = output.length
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Uint8Array.from(output, character => character.charCodeAt(0))
+}
+
+/**
+ * Splits a paragraph into lines that fit the width, breaking between words
+ * (a word longer than a whole line is broken where it overflows)
+ */
+function wrapText(text: string, width: number, size: number, bold: boolean): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/ +/)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (measureText(candidate, size, bold) <= width) {
+      line = candidate
+      continue
+    }
+
+    if (line) {
+      lines.push(line)
+    }
+    line = word
+    while (measureText(line, size, bold) > width) {
+      let fits = line.length - 1
+      while (fits > 1 && measureText(line.slice(0, fits), size, bold) > width) fits--
+      lines.push(line.slice(0, fits))
+      line = line.slice(fits)
+    }
+  }
+
+  lines.push(line)
+  return lines
+}
+
+function measureText(text: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let total = 0
+  for (const character of text) {
+    const code = character.charCodeAt(0)
+    total += code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH
+  }
+  return (total * size) / 1000
+}
+
+/**
+ * Escapes text for a PDF literal string in WinAnsiEncoding; characters the encoding
+ * does not have are written as "?"
+ */
+function encodeText(text: string): string {
+  let encoded = ''
+  for (const character of text) {
+    const code = WIN_ANSI_CODES[character] ?? character.charCodeAt(0)
+    if (character === '\\' || character === '(' || character === ')') {
+      encoded += `\\${character}`
+    } else if (code >= 32 && code <= 126) {
+      encoded += character
+    } else if (code >= 128 && code <= 255 && character.length === 1) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`
+    } else {
+      encoded += code === 9 ? ' ' : '?'
+    }
+  }
+  return encoded
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function formatPdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
@@ -1,7 +1,12 @@
-import type { ZohoDealRecord, PMRequestData } from '../types'
+import type { PMRequestData } from '../types'
+import type { Deal } from '../../../types/deal'
 import type { ContactInfo } from '../contact/contactManagement'
 import type { ProcessedProductInfo } from '../product/productProcessing'
 import type { AddressInfo } from '../address/addressProcessing'
+import type { PMAssignment } from '../assignment/pmAssignment'
+import { getRequestTypeRule, isPMRequestType, type PMRequestType } from '../rules/requestTypeRules'
+import { REQUEST_TYPE_BUILDERS } from './requestTypeBuilders'
+import { renderPMRequestDescription } from './descriptionTemplate'
 
 /**
  * PM Request Data Builder Module
@@ -10,11 +15,15 @@ import type { AddressInfo } from '../address/addressProcessing'
 
 export interface PMRequestBuilderInput {
   dealId: string
-  dealData: ZohoDealRecord
+  deal: Deal
+  requestType: PMRequestType
   contactInfo: ContactInfo
   productInfo: ProcessedProductInfo
   addressInfo: AddressInfo
   companyName: string
+  assignment: PMAssignment
+  // Audit note for overridden required fields, appended to Request_Descriptions
+  overrideAudit?: string
 }
 
 /**
@@ -27,20 +36,26 @@ export function buildPMRequestData(input: PMRequestBuilderInput): PMRequestData
   
   const {
     dealId,
-    dealData,
+    deal,
+    requestType,
     contactInfo,
     productInfo,
     addressInfo,
-    companyName
+    companyName,
+    assignment,
+    overrideAudit
   } = input
   
-  // Normalize product type and term (remove dashes)
-  const normalizedProductType = normalizeFieldValue(productInfo.contractProductType)
-  const normalizedTerm = normalizeFieldValue(productInfo.contractTerm)
+  // Normalize product type and term (remove dashes); request types that do not need a
+  // contract product send them empty rather than the 'N/A' of "no contract product"
+  const withoutProduct = !getRequestTypeRule(requestType).requiresContractProduct &&
+    productInfo.contractProductType === 'N/A'
+  const normalizedProductType = withoutProduct ? '' : normalizeFieldValue(productInfo.contractProductType)
+  const normalizedTerm = withoutProduct ? '' : normalizeFieldValue(productInfo.contractTerm)
   
-  const pmRequestData: PMRequestData = {
+  const commonRequestData: PMRequestData = {
     // Basic request information
-    Request_Type: 'Contract',
+    Request_Type: requestType,
     Deals: dealId,
     Company_Name: companyName,
     Status: 'Pending',
@@ -55,13 +70,17 @@ export function buildPMRequestData(input: PMRequestBuilderInput): PMRequestData
     Service_Address: addressInfo.serviceAddress,
     
     // Request details
-    Request_Descriptions: dealData.Description || '',
-    Requested_Services: dealData.Curent_Services || '',
-    Current_Account_Number: dealData.Account_Number || '',
-    New_Circuit_ID: dealData.Circuit_Id || '',
+    // Composed from the request type's description template (deal description, products, porting, hand-off)
+    Request_Descriptions: [
+      renderPMRequestDescription({ requestType, deal, productInfo }),
+      overrideAudit ?? ''
+    ].filter(Boolean).join('\n\n'),
+    Requested_Services: deal.currentServices,
+    Current_Account_Number: deal.accountNumber,
+    New_Circuit_ID: deal.circuitId,
     
-    // Assignment
-    Assigned_PM: 'Marifel Esperida',
+    // Assignment (chosen by the PM assignment rules)
+    Assigned_PM: assignment.pm,
     
     // Contract-specific details
     Product_Type: normalizedProductType,
@@ -74,6 +93,9 @@ export function buildPMRequestData(input: PMRequestBuilderInput): PMRequestData
     Sub_Account_ID: productInfo.subAccountId
   }
   
+  // Per-type adjustments (see requestTypeBuilders.ts)
+  const pmRequestData = REQUEST_TYPE_BUILDERS[requestType].adjust(commonRequestData, input)
+  
   console.log('✅ PM Request data built successfully:', {
     dealId,
     requestType: pmRequestData.Request_Type,
@@ -123,11 +145,15 @@ export function validatePMRequestData(pmRequestData: PMRequestData): string[] {
     issues.push('Requested Services is missing')
   }
   
-  if (!pmRequestData.Product_Type || pmRequestData.Product_Type.trim() === '') {
+  // Product type and term come from the contract product, which only some request types need
+  const needsProduct = !isPMRequestType(pmRequestData.Request_Type) ||
+    getRequestTypeRule(pmRequestData.Request_Type).requiresContractProduct
+
+  if (needsProduct && (!pmRequestData.Product_Type || pmRequestData.Product_Type.trim() === '')) {
     issues.push('Product Type is missing')
   }
   
-  if (!pmRequestData.Requested_Term || pmRequestData.Requested_Term.trim() === '') {
+  if (needsProduct && (!pmRequestData.Requested_Term || pmRequestData.Requested_Term.trim() === '')) {
     issues.push('Requested Term is missing')
   }
   
@@ -0,0 +1,214 @@
+import type { PMRequestData } from '../types'
+import type { PMRequestPreview } from './pmRequestPreview'
+import { describeContactResolution } from '../contact/contactRolePriority'
+import { parseProductPricing } from '../product/productProcessing'
+import { getProductName } from '../schema/schemaDecoders'
+
+/**
+ * PM Request Export Module
+ * Serializes a prepared PM Request - the PMRequestData built by preparePMRequest, the contract
+ * group products and the contact - as JSON, CSV or a Markdown summary, for carriers that want an
+ * emailed order summary. Exports are made from the same preview that is submitted, so the file
+ * always matches the PM Request.
+ */
+
+export type PMRequestExportFormat = 'json' | 'csv' | 'markdown'
+
+export const PM_REQUEST_EXPORT_FORMATS: Record<PMRequestExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+}
+
+export interface PMRequestExportProduct {
+  name: string
+  productType: string
+  quantity: number
+  term: string
+  pricing: number
+  totalPricing: number
+  vendor: string
+  productGrouping: string
+  isContract: boolean
+}
+
+export interface PMRequestExportPackage {
+  dealId: string
+  requestType: string
+  preparedAt: string
+  // Exactly what is inserted into PM_REQUEST
+  data: PMRequestData
+  contact: {
+    id: string | null
+    name: string
+    email: string
+    phone: string
+    // How the contact was found (e.g. 'Contact Role "Primary Contact"')
+    source: string
+  }
+  products: PMRequestExportProduct[]
+}
+
+export interface PMRequestExportFile {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+/**
+ * Collects what is exported from a prepared PM Request
+ * @param preview - Result of preparePMRequest
+ */
+export function buildPMRequestExport(preview: PMRequestPreview): PMRequestExportPackage {
+  const { contact } = preview
+
+  return {
+    dealId: preview.dealId,
+    requestType: String(preview.data.Request_Type ?? ''),
+    preparedAt: preview.preparedAt,
+    data: preview.data,
+    contact: {
+      id: contact.id,
+      name: contact.name,
+      email: contact.email,
+      phone: contact.phone,
+      source: describeContactResolution(contact.resolutionMethod, contact.roleName)
+    },
+    products: preview.groupProducts.map(product => ({
+      name: getProductName(product),
+      productType: product.Product_Type || '',
+      quantity: product.Quantity || 0,
+      term: product.Terms || '',
+      pricing: product.Pricing || 0,
+      totalPricing: parseProductPricing(product.Total_Pricing),
+      vendor: product.Vendor || '',
+      productGrouping: product.Product_Grouping || '',
+      isContract: product.Is_Contract === true
+    }))
+  }
+}
+
+/**
+ * Serializes a prepared PM Request in the requested format
+ * @param preview - Result of preparePMRequest
+ * @param format - json, csv or markdown
+ * @returns File name, MIME type and content, ready to download
+ */
+export function exportPMRequest(preview: PMRequestPreview, format: PMRequestExportFormat): PMRequestExportFile {
+  const exportPackage = buildPMRequestExport(preview)
+  const { extension, mimeType } = PM_REQUEST_EXPORT_FORMATS[format]
+
+  const content = format === 'json'
+    ? JSON.stringify(exportPackage, null, 2)
+    : format === 'csv' ? formatPMRequestCSV(preview, exportPackage) : formatPMRequestMarkdown(preview, exportPackage)
+
+  console.log('📤 PM Request exported:', { dealId: preview.dealId, format })
+  return {
+    filename: `pm-request-${exportPackage.requestType.toLowerCase() || 'request'}-${preview.dealId}.${extension}`,
+    mimeType,
+    content
+  }
+}
+
+/**
+ * One Section,Field,Value row per PM Request field, contact detail and product attribute
+ */
+function formatPMRequestCSV(preview: PMRequestPreview, exportPackage: PMRequestExportPackage): string {
+  const rows: string[][] = [['Section', 'Field', 'Value']]
+
+  for (const field of preview.fields) {
+    rows.push(['PM Request', field.label, formatValue(field.value)])
+  }
+
+  const { contact } = exportPackage
+  rows.push(
+    ['Contact', 'Name', contact.name],
+    ['Contact', 'Email', contact.email],
+    ['Contact', 'Phone', contact.phone],
+    ['Contact', 'Source', contact.source]
+  )
+
+  exportPackage.products.forEach((product, index) => {
+    const section = `Product ${index + 1}`
+    rows.push(
+      [section, 'Name', product.name],
+      [section, 'Product Type', product.productType],
+      [section, 'Quantity', String(product.quantity)],
+      [section, 'Term', product.term],
+      [section, 'Price', product.pricing.toFixed(2)],
+      [section, 'Total Price', product.totalPricing.toFixed(2)],
+      [section, 'Vendor', product.vendor],
+      [section, 'Product Group', product.productGrouping],
+      [section, 'Contract Product', product.isContract ? 'Yes' : 'No']
+    )
+  })
+
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\r\n')
+}
+
+/**
+ * Printable summary: PM Request fields, contact and the contract group products
+ */
+function formatPMRequestMarkdown(preview: PMRequestPreview, exportPackage: PMRequestExportPackage): string {
+  const { contact, products, data } = exportPackage
+  const lines = [
+    `# ${exportPackage.requestType} PM Request - ${String(data.Company_Name || exportPackage.dealId)}`,
+    '',
+    `Deal ${exportPackage.dealId} - prepared ${new Date(exportPackage.preparedAt).toLocaleString()}`,
+    '',
+    '## Request',
+    '',
+    '| Field | Value |',
+    '| --- | --- |',
+    ...preview.fields
+      .filter(field => field.apiName !== 'Request_Descriptions')
+      .map(field => `| ${field.label} | ${escapeMarkdown(field.apiName === 'Current_MRC'
+        ? formatAmount(Number(field.value) || 0)
+        : formatValue(field.value, '—'))} |`),
+    '',
+    '## Contact',
+    '',
+    `- Name: ${contact.name || '—'}`,
+    `- Email: ${contact.email || '—'}`,
+    `- Phone: ${contact.phone || '—'}`,
+    `- Source: ${contact.source}`,
+    '',
+    '## Products',
+    '',
+    '| Product | Type | Qty | Term | Total | Vendor | Group |',
+    '| --- | --- | ---: | --- | ---: | --- | --- |',
+    ...products.map(product => `| ${[
+      `${product.name}${product.isContract ? ' (contract)' : ''}`,
+      product.productType,
+      String(product.quantity),
+      product.term,
+      formatAmount(product.totalPricing),
+      product.vendor,
+      product.productGrouping
+    ].map(escapeMarkdown).join(' | ')} |`),
+    '',
+    '## Description',
+    '',
+    String(data.Request_Descriptions || '—')
+  ]
+
+  return lines.join('\n')
+}
+
+function formatValue(value: unknown, empty = ''): string {
+  if (value === null || value === undefined || value === '') return empty
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function escapeCSV(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+}
@@ -0,0 +1,147 @@
+import type { PMRequestData } from '../types'
+import { getZohoClient, type ZohoClient } from '../client'
+import { toZohoApiError } from '../errors'
+import { recordDebugEvent } from '../debugLog'
+import { PM_REQUEST_FIELD_LABELS, type PMRequestFieldName } from './pmRequestPreview'
+
+/**
+ * PM Request History Module
+ * Lists every PM_REQUEST record of a deal and compares a stored request with
+ * what buildPMRequestData produces from the deal today.
+ */
+
+export interface PMRequestHistoryEntry {
+  id: string
+  name: string
+  requestType: string
+  productType: string
+  term: string
+  mrc: number | null
+  status: string
+  assignedPM: string
+  createdTime: string
+  // Raw PM_REQUEST record, for the diff against the current deal
+  record: Record<string, unknown>
+}
+
+export interface PMRequestFieldChange {
+  apiName: PMRequestFieldName
+  label: string
+  previous: string
+  current: string
+}
+
+export interface FetchPMRequestHistoryOptions {
+  // Records requested per page (Zoho allows up to 200)
+  perPage?: number
+  // Safety cap on the number of pages followed
+  maxPages?: number
+}
+
+// Status is set by the PM after creation, so it always differs from a freshly built request
+const DIFF_IGNORED_FIELDS: PMRequestFieldName[] = ['Status']
+
+const DEFAULT_PER_PAGE = 200
+const DEFAULT_MAX_PAGES = 10
+
+/**
+ * Fetches every PM Request of a deal (search on the Deals lookup), page by page
+ * @param dealId - The Zoho Deal ID
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Page size and page cap
+ * @returns The deal's PM Requests, newest first
+ * @throws ZohoApiError when a page request fails
+ */
+export async function fetchPMRequestHistory(
+  dealId: string,
+  client: ZohoClient = getZohoClient(),
+  options: FetchPMRequestHistoryOptions = {}
+): Promise<PMRequestHistoryEntry[]> {
+  const perPage = options.perPage ?? DEFAULT_PER_PAGE
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+
+  const entries: PMRequestHistoryEntry[] = []
+  let moreRecords = false
+  let page = 0
+
+  try {
+    do {
+      page++
+      const response = await client.searchRecords('PM_REQUEST', `(Deals:equals:${dealId})`, { page, perPage })
+      for (const record of response.data ?? []) {
+        if (record && typeof record === 'object' && 'id' in record) {
+          entries.push(toHistoryEntry(record as Record<string, unknown>))
+        }
+      }
+      moreRecords = !!response.info?.more_records
+    } while (moreRecords && page < maxPages)
+  } catch (error) {
+    console.error('❌ Failed to fetch PM Request history:', { dealId, page, error })
+    throw toZohoApiError(error, 'fetchPMRequestHistory')
+  }
+
+  if (moreRecords) {
+    console.warn(`⚠️ Stopped following PM Request history after ${maxPages} pages`, { dealId, fetched: entries.length })
+    recordDebugEvent({
+      level: 'warning',
+      category: 'pm_request',
+      message: `PM Request history for deal ${dealId} truncated after ${maxPages} pages (${entries.length} requests)`
+    })
+  }
+
+  console.log(`📜 Fetched ${entries.length} PM Request(s) for deal ${dealId}`)
+  return entries.sort((a, b) => b.createdTime.localeCompare(a.createdTime))
+}
+
+/**
+ * Compares a stored PM Request with freshly built PM Request data
+ * Lookups are compared by ID; empty values (null, '', missing) are treated as equal
+ * @param previous - Stored PM_REQUEST record
+ * @param current - Data buildPMRequestData produces now
+ * @returns The fields whose values differ, in display order
+ */
+export function diffPMRequest(previous: Record<string, unknown>, current: PMRequestData): PMRequestFieldChange[] {
+  return (Object.keys(PM_REQUEST_FIELD_LABELS) as PMRequestFieldName[])
+    .filter(apiName => !DIFF_IGNORED_FIELDS.includes(apiName))
+    .map(apiName => ({
+      apiName,
+      label: PM_REQUEST_FIELD_LABELS[apiName],
+      previous: formatComparableValue(previous[apiName]),
+      current: formatComparableValue(current[apiName])
+    }))
+    .filter(change => change.previous !== change.current)
+}
+
+function toHistoryEntry(record: Record<string, unknown>): PMRequestHistoryEntry {
+  // Show lookups (e.g. a user lookup for Assigned_PM) by name
+  const text = (key: string) => {
+    const value = record[key]
+    return value && typeof value === 'object' && 'name' in value
+      ? String((value as { name: unknown }).name ?? '')
+      : formatComparableValue(value)
+  }
+  const mrc = Number(record.Current_MRC)
+
+  return {
+    id: String(record.id),
+    name: text('Name'),
+    requestType: text('Request_Type'),
+    productType: text('Product_Type'),
+    term: text('Requested_Term'),
+    mrc: record.Current_MRC === null || record.Current_MRC === undefined || Number.isNaN(mrc) ? null : mrc,
+    status: text('Status'),
+    assignedPM: text('Assigned_PM'),
+    createdTime: text('Created_Time'),
+    record
+  }
+}
+
+// Lookups come back as { id, name }; compare and show them by ID
+function formatComparableValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'object') {
+    const lookup = value as { id?: unknown; name?: unknown }
+    return lookup.id !== undefined ? String(lookup.id) : JSON.stringify(value)
+  }
+  return String(value).trim()
+}
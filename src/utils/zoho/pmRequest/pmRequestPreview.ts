@@ -0,0 +1,140 @@
+import type { PMRequestData } from '../types'
+import type { PMAssignment } from '../assignment/pmAssignment'
+import type { ValidationIssue } from '../validation/pmRequestValidation'
+import type { ProductFieldKey } from '../rules/productFieldRules'
+import type { PMRequestBuilderInput } from './pmRequestBuilder'
+import type { ExistingPMRequest } from './duplicateDetection'
+import type { ContactInfo } from '../contact/contactManagement'
+import type { ZohoProductSubform } from '../../../types/zoho'
+import { describeContactResolution } from '../contact/contactRolePriority'
+import { getRequestTypeRule } from '../rules/requestTypeRules'
+import { REQUEST_TYPE_BUILDERS } from './requestTypeBuilders'
+import { resolveDescriptionTemplate } from './descriptionTemplate'
+import { BILLING_ADDRESS_API_NAMES, DEAL_FIELD_API_NAMES, SERVICE_ADDRESS_API_NAMES } from '../deal/dealAdapters'
+
+/**
+ * PM Request Preview Module
+ * Describes a built PM Request field by field - value and where it came from (deal field,
+ * contact resolution, product rule, computed MRC) - so it can be reviewed before the insert.
+ */
+
+// PM_REQUEST fields in display order
+export const PM_REQUEST_FIELD_LABELS = {
+  Request_Type: 'Request Type',
+  Status: 'Status',
+  Deals: 'Deal',
+  Company_Name: 'Company Name',
+  Contact_Person: 'Contact Person',
+  Email: 'Email',
+  Phone: 'Phone',
+  Service_Address: 'Service Address',
+  Billing_Address: 'Billing Address',
+  Request_Descriptions: 'Request Description',
+  Requested_Services: 'Requested Services',
+  Current_Account_Number: 'Current Account Number',
+  New_Circuit_ID: 'New Circuit ID',
+  Assigned_PM: 'Assigned PM',
+  Product_Type: 'Product Type',
+  Requested_Term: 'Requested Term',
+  Requested_Data_Hand_Off: 'Requested Data Hand-Off',
+  Circuit_ID: 'Circuit ID',
+  Current_MRC: 'Current MRC',
+  Are_we_Moving_TNs: 'Are we Moving TNs',
+  Contract_ID_Number_ADIVB_Number: 'Contract ID Number / ADIVB Number',
+  Sub_Account_ID: 'Sub Account ID'
+} as const
+
+export type PMRequestFieldName = keyof typeof PM_REQUEST_FIELD_LABELS
+
+export interface PMRequestFieldPreview {
+  apiName: PMRequestFieldName
+  label: string
+  value: string | number | boolean | null
+  // Where the value came from, e.g. 'Deal Curent_Services' or 'Contact Role "Primary Contact"'
+  source: string
+}
+
+export interface PMRequestPreview {
+  dealId: string
+  // Exactly what will be inserted into PM_REQUEST
+  data: PMRequestData
+  fields: PMRequestFieldPreview[]
+  assignment: PMAssignment
+  // Non-blocking validation issues found while preparing
+  warnings: ValidationIssue[]
+  // PM Requests already created for the deal, newest first
+  existingRequests: ExistingPMRequest[]
+  // The Deal's PM_Request_Id when the preview was built ('' when the deal links no request)
+  dealPMRequestId: string
+  // Contact the request was built with (the data only carries its ID, email and phone)
+  contact: ContactInfo
+  // Product rows of the contract group, i.e. the rows making up Current_MRC
+  groupProducts: ZohoProductSubform[]
+  // ISO timestamp of when the preview was built
+  preparedAt: string
+}
+
+/**
+ * Lists every PM_REQUEST field with its value and source
+ * @param data - Built PM Request data
+ * @param input - The builder input the data was built from
+ */
+export function describePMRequestFields(data: PMRequestData, input: PMRequestBuilderInput): PMRequestFieldPreview[] {
+  const sources = describeFieldSources(input)
+
+  return (Object.keys(PM_REQUEST_FIELD_LABELS) as PMRequestFieldName[]).map(apiName => ({
+    apiName,
+    label: PM_REQUEST_FIELD_LABELS[apiName],
+    value: data[apiName],
+    source: sources[apiName]
+  }))
+}
+
+function describeFieldSources(input: PMRequestBuilderInput): Record<PMRequestFieldName, string> {
+  const { requestType, contactInfo, productInfo, addressInfo, assignment, overrideAudit } = input
+  const descriptionTemplate = resolveDescriptionTemplate(requestType)
+  const withoutProduct = !getRequestTypeRule(requestType).requiresContractProduct &&
+    productInfo.contractProductType === 'N/A'
+  const contactSource = describeContactResolution(contactInfo.resolutionMethod, contactInfo.roleName)
+
+  // Product-dependent fields are either copied from the deal or blanked by the product field rule
+  const fromProductRule = (key: ProductFieldKey, dealField: string) =>
+    productInfo.fieldRule?.fieldHandling[key] === 'blank'
+      ? `Left blank for ${productInfo.fieldRule.label}`
+      : `Deal ${dealField}`
+
+  return {
+    Request_Type: 'Request type selector',
+    Status: 'Fixed value',
+    Deals: 'Deal record',
+    Company_Name: `Deal ${DEAL_FIELD_API_NAMES.account}`,
+    Contact_Person: contactSource,
+    Email: contactInfo.resolutionMethod === 'user_selected' ? 'Entered in the contact picker' : contactSource,
+    Phone: contactInfo.resolutionMethod === 'user_selected' ? 'Entered in the contact picker' : contactSource,
+    Service_Address: addressInfo.serviceAddressGrouping !== undefined
+      ? `Service_Address of product group "${addressInfo.serviceAddressGrouping}"`
+      : `Deal ${Object.values(SERVICE_ADDRESS_API_NAMES).join(', ')}`,
+    Billing_Address: `Deal ${Object.values(BILLING_ADDRESS_API_NAMES).join(', ')}`,
+    Request_Descriptions: [
+      descriptionTemplate.requestType
+        ? `${descriptionTemplate.requestType} description template`
+        : 'Default description template',
+      overrideAudit ? 'required field override note' : ''
+    ].filter(Boolean).join(' + '),
+    Requested_Services: `Deal ${DEAL_FIELD_API_NAMES.currentServices}`,
+    Current_Account_Number: `Deal ${DEAL_FIELD_API_NAMES.accountNumber}`,
+    New_Circuit_ID: `Deal ${DEAL_FIELD_API_NAMES.circuitId}`,
+    Assigned_PM: assignment.reason,
+    Product_Type: withoutProduct ? 'No contract product' : 'Contract product Product_Type (dashes removed)',
+    Requested_Term: withoutProduct ? 'No contract product' : 'Contract product Terms (dashes removed)',
+    Requested_Data_Hand_Off: fromProductRule('dataHandOff', DEAL_FIELD_API_NAMES.dataInterfaceType),
+    Circuit_ID: fromProductRule('circuitId', DEAL_FIELD_API_NAMES.circuitId),
+    Current_MRC: productInfo.productGrouping
+      ? `Computed: Total_Pricing of product group "${productInfo.productGrouping}"`
+      : 'Computed: Total_Pricing of the contract product',
+    Are_we_Moving_TNs: fromProductRule('movingTns', DEAL_FIELD_API_NAMES.portingMovingTns),
+    Contract_ID_Number_ADIVB_Number: fromProductRule('contractIdNumber', DEAL_FIELD_API_NAMES.contractIdNumber),
+    Sub_Account_ID: fromProductRule('subAccountId', DEAL_FIELD_API_NAMES.subAccountId),
+    ...REQUEST_TYPE_BUILDERS[requestType].sources
+  }
+}
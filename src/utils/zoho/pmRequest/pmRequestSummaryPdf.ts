@@ -0,0 +1,144 @@
+import type { PMRequestPreview } from './pmRequestPreview'
+import { buildPMRequestExport } from './pmRequestExport'
+import { createPdfDocument, type PdfColumn, type PdfDocument } from './pdfDocument'
+import { getProductGroups } from '../product/productProcessing'
+import { getProductName } from '../schema/schemaDecoders'
+
+/**
+ * PM Request Summary PDF Module
+ * Printable contract summary attached to the PM_REQUEST record after it is written, so the PM
+ * can read the order - company, addresses, contact, contract product, the contract group line
+ * items with their total, term and circuit / contract IDs - without opening the deal.
+ * Built from the same preview that is submitted.
+ */
+
+export interface PMRequestSummaryFile {
+  filename: string
+  mimeType: 'application/pdf'
+  content: Uint8Array
+}
+
+// Line item columns; the widths add up to the page content width (512pt)
+const LINE_ITEM_COLUMNS: Array<Omit<PdfColumn, 'text'> & { label: string }> = [
+  { label: 'Product', width: 170 },
+  { label: 'Type', width: 92 },
+  { label: 'Qty', width: 34, align: 'right' },
+  { label: 'Term', width: 70 },
+  { label: 'Price', width: 70, align: 'right' },
+  { label: 'Total', width: 76, align: 'right' }
+]
+
+/**
+ * Renders the contract summary of a prepared PM Request
+ * @param preview - Result of preparePMRequest
+ * @param requestId - ID of the PM_REQUEST record the summary belongs to, once it is written
+ * @returns The PDF file, ready to attach or download
+ */
+export function buildPMRequestSummaryPdf(preview: PMRequestPreview, requestId = ''): PMRequestSummaryFile {
+  const { data, contact, products, requestType } = buildPMRequestExport(preview)
+  const companyName = String(data.Company_Name || '')
+  const document = createPdfDocument(`${requestType} PM Request - ${companyName || preview.dealId}`)
+
+  document.text(`${requestType} PM Request Summary`, { size: 18, bold: true })
+  document.text(companyName || `Deal ${preview.dealId}`, { size: 13 })
+  document.text(
+    [
+      `Deal ${preview.dealId}`,
+      requestId ? `PM Request ${requestId}` : '',
+      `prepared ${new Date(preview.preparedAt).toLocaleString()}`
+    ].filter(Boolean).join('  •  '),
+    { size: 9, gray: 0.4 }
+  )
+  document.gap(6)
+
+  writeSection(document, 'Company', [
+    ['Company Name', companyName],
+    ['Account Number', data.Current_Account_Number],
+    ['Sub Account ID', data.Sub_Account_ID]
+  ])
+  writeSection(document, 'Addresses', [
+    ['Service Address', data.Service_Address],
+    ['Billing Address', data.Billing_Address]
+  ])
+  writeSection(document, 'Contact', [
+    ['Name', contact.name],
+    ['Email', contact.email],
+    ['Phone', contact.phone]
+  ])
+
+  // The contract product, or the lead product of the group for a multi-location request
+  const leadProduct = getProductGroups(preview.groupProducts)[0]?.leadProduct
+  writeSection(document, 'Contract', [
+    ['Contract Product', leadProduct ? `${getProductName(leadProduct)} (${leadProduct.Product_Type || '—'})` : ''],
+    ['Requested Services', data.Requested_Services],
+    ['Product Type', data.Product_Type],
+    ['Term', data.Requested_Term],
+    ['Circuit ID', data.Circuit_ID],
+    ['New Circuit ID', data.New_Circuit_ID],
+    ['Contract ID / ADIVB', data.Contract_ID_Number_ADIVB_Number],
+    ['Data Hand-Off', data.Requested_Data_Hand_Off],
+    ['Moving TNs', data.Are_we_Moving_TNs === true ? 'Yes' : data.Are_we_Moving_TNs === false ? 'No' : ''],
+    ['Current MRC', data.Current_MRC === undefined ? '' : formatAmount(Number(data.Current_MRC) || 0)]
+  ])
+
+  writeHeading(document, leadProduct?.Product_Grouping ? `Line Items - ${leadProduct.Product_Grouping}` : 'Line Items')
+  document.row(LINE_ITEM_COLUMNS.map(column => ({ ...column, text: column.label })), { size: 9, bold: true, gray: 0.35 })
+  for (const product of products) {
+    document.row([
+      product.name,
+      product.productType,
+      String(product.quantity),
+      product.term,
+      formatAmount(product.pricing),
+      formatAmount(product.totalPricing)
+    ].map((text, index) => ({ ...LINE_ITEM_COLUMNS[index], text })), { size: 9 })
+  }
+  if (products.length === 0) {
+    document.text('No products on the deal', { size: 9, gray: 0.4 })
+  }
+  document.rule()
+  document.row([
+    { text: `Total (${products.length} item${products.length === 1 ? '' : 's'})`, width: document.contentWidth - 76 },
+    { text: formatAmount(products.reduce((total, product) => total + product.totalPricing, 0)), width: 76, align: 'right' }
+  ], { size: 10, bold: true })
+  document.gap(10)
+
+  const description = String(data.Request_Descriptions || '').trim()
+  if (description) {
+    writeHeading(document, 'Description')
+    document.text(description, { size: 9 })
+  }
+
+  console.log('📄 PM Request summary PDF built:', { dealId: preview.dealId, requestId, products: products.length })
+  return {
+    filename: `pm-request-summary-${requestType.toLowerCase() || 'request'}-${requestId || preview.dealId}.pdf`,
+    mimeType: 'application/pdf',
+    content: document.toBytes()
+  }
+}
+
+function writeHeading(document: PdfDocument, heading: string): void {
+  // Keep a heading on the same page as its first lines
+  document.keepTogether(60)
+  document.text(heading, { size: 12, bold: true })
+  document.rule()
+}
+
+/**
+ * Heading followed by label / value rows; empty values are shown as a dash
+ */
+function writeSection(document: PdfDocument, heading: string, rows: Array<[string, unknown]>): void {
+  writeHeading(document, heading)
+
+  for (const [label, value] of rows) {
+    document.row([
+      { text: label, width: 130 },
+      { text: value === null || value === undefined || value === '' ? '—' : String(value), width: document.contentWidth - 130 }
+    ], { size: 10 })
+  }
+  document.gap(10)
+}
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
@@ -0,0 +1,54 @@
+import type { PMRequestData } from '../types'
+import type { PMRequestType } from '../rules/requestTypeRules'
+import type { PMRequestBuilderInput } from './pmRequestBuilder'
+import type { PMRequestFieldName } from './pmRequestPreview'
+import { DEAL_FIELD_API_NAMES } from '../deal/dealAdapters'
+
+/**
+ * Request Type Builders Module
+ * Per-type adjustments applied on top of the common PM Request fields built by
+ * buildPMRequestData (contact, addresses, products and assignment are shared by every type).
+ */
+
+export interface RequestTypeBuilder {
+  // Adjusts the common PM Request fields for the request type
+  adjust: (data: PMRequestData, input: PMRequestBuilderInput) => PMRequestData
+  // Preview sources of the fields adjust() changes
+  sources: Partial<Record<PMRequestFieldName, string>>
+}
+
+export const REQUEST_TYPE_BUILDERS: Record<PMRequestType, RequestTypeBuilder> = {
+  Contract: {
+    adjust: data => data,
+    sources: {}
+  },
+
+  // The PM needs to know whether numbers move with the services, whatever the product rule says
+  Move: {
+    adjust: (data, { deal }) => ({ ...data, Are_we_Moving_TNs: deal.portingMovingTns }),
+    sources: { Are_we_Moving_TNs: `Deal ${DEAL_FIELD_API_NAMES.portingMovingTns} (always sent for Move)` }
+  },
+
+  // Nothing new is installed, so there is no new term or circuit; the PM needs the circuit
+  // being disconnected even when no contract product is selected
+  Disconnect: {
+    adjust: (data, { deal }) => ({ ...data, Requested_Term: '', New_Circuit_ID: '', Circuit_ID: deal.circuitId }),
+    sources: {
+      Requested_Term: 'Left blank for Disconnect',
+      New_Circuit_ID: 'Left blank for Disconnect',
+      Circuit_ID: `Deal ${DEAL_FIELD_API_NAMES.circuitId} (always sent for Disconnect)`
+    }
+  },
+
+  // The circuit being upgraded is needed even when the product rule blanks Circuit ID
+  Upgrade: {
+    adjust: (data, { deal }) => ({ ...data, Circuit_ID: deal.circuitId }),
+    sources: { Circuit_ID: `Deal ${DEAL_FIELD_API_NAMES.circuitId} (always sent for Upgrade)` }
+  },
+
+  // Changes on existing services keep the current term
+  MAC: {
+    adjust: data => ({ ...data, Requested_Term: '' }),
+    sources: { Requested_Term: 'Left blank for MAC' }
+  }
+}
@@ -1,84 +1,303 @@
-import type { ZohoDealRecord } from './types'
-import { zohoApiCall, validateZohoAPI } from './core'
-import { fetchDealData } from './dealOperations'
+import type { PMRequestData, ZohoDealRecord, ZohoUpdateResponse } from './types'
+import { getZohoClient, type ZohoClient } from './client'
+import { fetchDealData, updateDealFields } from './dealOperations'
+import { dealFromRecord } from './deal/dealAdapters'
+import { assertZohoWriteSuccess } from './core'
+import { toZohoApiError, ZohoNotFoundError, ZohoValidationError, type ZohoApiError } from './errors'
+import { recordDebugEvent } from './debugLog'
 
 // Import modular components
-import { validateRequiredFieldsForPMRequest } from './validation/pmRequestValidation'
-import { findAndValidatePrimaryContact } from './contact/contactManagement'
-import { processContractProducts, extractCompanyName } from './product/productProcessing'
-import { buildAddresses } from './address/addressProcessing'
-import { buildPMRequestData, validatePMRequestData, logPMRequestSummary } from './pmRequest/pmRequestBuilder'
+import { getRequiredFieldIssues, getPMRequestWarnings } from './validation/pmRequestValidation'
+import { findAndValidatePrimaryContact, contactInfoFromSelection } from './contact/contactManagement'
+import type { ContactSelection } from './contact/contactCandidates'
+import { applyValidationOverride, formatOverrideAudit, type ValidationOverride } from './validation/validationOverride'
+import { getContractGroupProducts, getProductGroups, processContractProducts, processProductGroup } from './product/productProcessing'
+import { getRequestTypeRule, type PMRequestType } from './rules/requestTypeRules'
+import { buildAddresses, buildProductGroupAddresses } from './address/addressProcessing'
+import { buildPMRequestData, validatePMRequestData, logPMRequestSummary, type PMRequestBuilderInput } from './pmRequest/pmRequestBuilder'
+import { describePMRequestFields, type PMRequestPreview } from './pmRequest/pmRequestPreview'
+import { buildPMRequestSummaryPdf } from './pmRequest/pmRequestSummaryPdf'
+import { filterSameScopePMRequests, findExistingPMRequests, formatRevisionNote, type ExistingPMRequestAction } from './pmRequest/duplicateDetection'
+import { buildPMAssignmentInput, resolvePMAssignmentFromCRM } from './assignment/pmAssignment'
+
+export interface GeneratePMRequestOptions {
+  // Type of request to build (defaults to 'Contract')
+  requestType?: PMRequestType
+  // Contact picked in the contact picker; when omitted the primary contact is looked up automatically
+  contact?: ContactSelection | null
+  // Missing required fields an authorized user chose to override, with the reason
+  override?: ValidationOverride | null
+  // What to do when the deal already has a PM Request (update it or create a revision)
+  existingRequest?: ExistingPMRequestAction | null
+  // Build the request for one Product_Grouping (multi-location deals) instead of the contract product
+  productGrouping?: string
+}
+
+export interface PMRequestSubmission {
+  response: ZohoUpdateResponse
+  // ID of the PM_REQUEST record that was created or updated
+  requestId: string
+  // False when the Deal's PM_Request_Id could not be updated (the request itself was written)
+  linkedToDeal: boolean
+  // False when the summary PDF could not be attached, attaching it was turned off or an
+  // existing request was updated in place (it already has its summary)
+  summaryAttached: boolean
+}
+
+export interface SubmitPMRequestOptions {
+  // Update an existing PM Request or create a revision of it instead of a new request
+  existingRequest?: ExistingPMRequestAction | null
+  // Set the Deal's PM_Request_Id to the written request (defaults to true)
+  linkToDeal?: boolean
+  // Attach the contract summary PDF to a newly inserted request (defaults to true)
+  attachSummary?: boolean
+}
+
+// Shared by every group of a batch; what to do with a group's existing requests is chosen per group
+export type PMRequestBatchOptions = Omit<GeneratePMRequestOptions, 'existingRequest' | 'productGrouping'>
+
+export interface PMRequestBatchPreview {
+  grouping: string
+  // Prepared request for the group (null when preparing it failed)
+  preview: PMRequestPreview | null
+  // Why the group could not be prepared (null when it was)
+  error: ZohoApiError | null
+}
+
+export interface SubmitPMRequestBatchOptions {
+  // Action chosen per Product_Grouping for the groups that already have a PM Request
+  existingRequests?: Record<string, ExistingPMRequestAction | null>
+  // Point the Deal's PM_Request_Id at the first request written even when it already links
+  // another request (by default an existing link is kept)
+  replaceDealLink?: boolean
+}
+
+export interface PMRequestBatchResult {
+  grouping: string
+  status: 'created' | 'updated' | 'failed'
+  // ID of the created or updated PM_REQUEST record ('' when the group failed)
+  requestId: string
+  // Why the group failed (null when it was written)
+  error: ZohoApiError | null
+}
+
+export interface PMRequestBatchSubmission {
+  // One result per submitted group, in the order given
+  results: PMRequestBatchResult[]
+  // Request written to the Deal's PM_Request_Id (the first one written), '' when none was linked
+  linkedRequestId: string
+  // PM_Request_Id the Deal already had and kept instead of the batch's first request ('' when none)
+  keptDealLink: string
+}
 
 /**
  * Generate PM Request by creating a new record directly using Zoho CRM insertRecord API
- * Replicates the logic from automation.generate_pm_request_type_contract function
+ * Replicates the logic from automation.generate_pm_request_type_contract function, for
+ * Contract and the other request types (see rules/requestTypeRules.ts)
+ * Same as preparePMRequest followed by submitPMRequest, without a review step in between
  * @param dealId - The Zoho Deal ID to create PM Request for
- * @returns Promise with the insertion response
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Contact, required field overrides and the action on an existing request
+ * @returns The write response, the PM Request ID and whether it was linked on the Deal
+ * @throws ZohoValidationError when required Deal fields are missing (field names in `fields`)
+ *         or the deal already has a PM Request and no existingRequest action was given,
+ *         ZohoPermissionError when the user may not override them,
+ *         or the ZohoApiError raised by the failing Zoho call
  */
-export async function generatePMRequest(dealId: string): Promise<{ data: { code: string; details: { id: string } }[] }> {
-  console.log('=== CREATING PM REQUEST USING ZOHO SDK ===')
+export async function generatePMRequest(
+  dealId: string,
+  client: ZohoClient = getZohoClient(),
+  options: GeneratePMRequestOptions = {}
+): Promise<PMRequestSubmission> {
+  const preview = await preparePMRequest(dealId, client, options)
+
+  if (preview.existingRequests.length > 0 && !options.existingRequest) {
+    throw new ZohoValidationError(
+      `Deal ${dealId} already has ${preview.existingRequests.length} PM Request(s). Choose to update one or create a revision.`,
+      {
+        code: 'DUPLICATE_PM_REQUEST',
+        payload: preview.existingRequests,
+        operation: 'generatePMRequest'
+      }
+    )
+  }
+
+  return submitPMRequest(preview, client, { existingRequest: options.existingRequest })
+}
+
+/**
+ * Runs the PM Request pipeline up to the insert (steps 1-8) - a dry run for review
+ * @param dealId - The Zoho Deal ID to create PM Request for
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Contact and required field overrides chosen by the user
+ * @returns The PM Request data with the source of every field; nothing is written
+ * @throws The same errors as generatePMRequest, except for the insert itself
+ */
+export async function preparePMRequest(
+  dealId: string,
+  client: ZohoClient = getZohoClient(),
+  options: GeneratePMRequestOptions = {}
+): Promise<PMRequestPreview> {
+  const requestType = options.requestType ?? 'Contract'
+  const requestTypeRule = getRequestTypeRule(requestType)
+  console.log('=== PREPARING PM REQUEST (DRY RUN) ===')
   console.log('Deal ID:', dealId)
-  console.log('API: ZOHO.CRM.API.insertRecord')
-  
-  validateZohoAPI()
+  console.log('Request Type:', requestType)
   
   try {
     // Step 1: Get Deal record with all required data
     console.log('Step 1: Fetching deal record...')
-    const dealResponse = await fetchDealData(dealId)
+    const dealResponse = await fetchDealData(dealId, client)
     
     if (!dealResponse.data || dealResponse.data.length === 0) {
-      throw new Error(`Deal with ID ${dealId} not found`)
+      throw new ZohoNotFoundError(`Deal with ID ${dealId} not found`, { code: 'RECORD_NOT_FOUND', operation: 'generatePMRequest' })
     }
     
-    const dealData = dealResponse.data[0] as ZohoDealRecord
-    console.log('✅ Deal data retrieved:', dealData.id)
+    const deal = dealFromRecord(dealResponse.data[0] as ZohoDealRecord)
+    console.log('✅ Deal data retrieved:', deal.id)
+
+    // Step 1b: Look for PM Requests already created for this deal
+    console.log('Step 1b: Checking for existing PM Requests...')
+    // Narrowed to the requests of the same scope once the request is built (step 7b)
+    const dealRequests = await findExistingPMRequests(dealId, deal.pmRequestId, client)
 
-    // Step 2: Process contract products and extract product information
+    // Step 2: Process contract products (or the requested product group) and extract product information
     console.log('Step 2: Processing contract products...')
-    const productInfo = processContractProducts(dealData)
+    const { productGrouping } = options
+    const productGroup = productGrouping !== undefined
+      ? getProductGroups(deal.products).find(group => group.grouping === productGrouping)
+      : undefined
+    if (productGrouping !== undefined && !productGroup) {
+      throw new ZohoValidationError(`Product group "${productGrouping}" is not on deal ${dealId}`, {
+        code: 'PRODUCT_GROUP_NOT_FOUND',
+        operation: 'generatePMRequest'
+      })
+    }
+    const productInfo = productGrouping !== undefined
+      ? processProductGroup(deal, productGrouping)
+      : processContractProducts(deal)
+    // 'N/A' is what product processing returns when no contract product is flagged
+    if (requestTypeRule.requiresContractProduct && productInfo.contractProductType === 'N/A') {
+      throw new ZohoValidationError(`${requestTypeRule.label} requests need a contract product. Please select a product first.`, {
+        code: 'NO_CONTRACT_PRODUCT',
+        operation: 'generatePMRequest'
+      })
+    }
     console.log('✅ Product processing complete')
 
     // Step 3: Validate required fields based on product configuration
     console.log('Step 3: Validating required fields...')
-    const missingRequiredFields = validateRequiredFieldsForPMRequest(
+    let requiredFieldIssues = getRequiredFieldIssues(
       productInfo.contractProductType, 
       productInfo.contractTerm, 
-      dealData
+      deal,
+      requestType
     )
     
-    if (missingRequiredFields.length > 0) {
-      const errorMessage = `❌ Cannot create PM Request. Missing required fields for ${productInfo.contractProductType} (${productInfo.contractTerm}):\n\n${missingRequiredFields.map(field => `• ${field}`).join('\n')}\n\nPlease ensure all required fields have valid (non-empty) values before generating the PM Request.`
+    // Step 3b: Let an authorized user override missing fields (recorded on the PM Request)
+    let overrideAudit: string | undefined
+    if (requiredFieldIssues.length > 0 && options.override) {
+      const currentUser = await client.getCurrentUser()
+      const { remaining, overridden } = applyValidationOverride(requiredFieldIssues, options.override, currentUser)
+      if (overridden.length > 0) {
+        overrideAudit = formatOverrideAudit(overridden, options.override.reason, currentUser)
+        console.warn('⚠️ Required fields overridden:', { user: currentUser.name, fields: overridden.map(issue => issue.field) })
+        recordDebugEvent({
+          level: 'warning',
+          category: 'validation',
+          message: `${currentUser.name || currentUser.id} overrode ${overridden.length} required field(s) on deal ${dealId}`,
+          details: { overridden, reason: options.override.reason }
+        })
+      }
+      requiredFieldIssues = remaining
+    }
+    
+    if (requiredFieldIssues.length > 0) {
+      const errorMessage = `❌ Cannot create ${requestType} PM Request. Missing required fields for ${productInfo.contractProductType} (${productInfo.contractTerm}):\n\n${requiredFieldIssues.map(issue => `• ${issue.message}`).join('\n')}\n\nPlease ensure all required fields have valid (non-empty) values before generating the PM Request.`
       console.error('🚫 PM Request validation failed:', errorMessage)
-      throw new Error(errorMessage)
+      throw new ZohoValidationError(errorMessage, {
+        code: 'MISSING_REQUIRED_FIELDS',
+        fields: requiredFieldIssues.flatMap(issue => issue.field ? [issue.field] : []),
+        operation: 'generatePMRequest'
+      })
     }
     
     console.log('✅ All required fields validation passed')
 
-    // Step 4: Find and validate primary contact
+    // Step 4: Use the contact picked by the user, or find and validate the primary contact
     console.log('Step 4: Finding primary contact...')
-    const contactInfo = await findAndValidatePrimaryContact(dealId, dealData)
-    console.log('✅ Contact processing complete')
+    const contactInfo = options.contact
+      ? contactInfoFromSelection(options.contact)
+      : await findAndValidatePrimaryContact(dealId, deal, client, {
+          requestType,
+          productType: productInfo.contractProductType
+        })
+    console.log('✅ Contact processing complete:', {
+      resolutionMethod: contactInfo.resolutionMethod,
+      roleName: contactInfo.roleName
+    })
 
     // Step 5: Build addresses
     console.log('Step 5: Building addresses...')
-    const addressInfo = buildAddresses(dealData)
+    const addressInfo = productGroup
+      ? buildProductGroupAddresses(deal, productGroup.grouping, productGroup.products)
+      : buildAddresses(deal)
     console.log('✅ Address processing complete')
 
+    // Step 5b: Warnings do not block the request (the user acknowledges them before submitting)
+    const hasContractProduct = productInfo.contractProductType !== 'N/A'
+    const warnings = getPMRequestWarnings({
+      productType: productInfo.contractProductType,
+      term: productInfo.contractTerm,
+      deal,
+      requestType,
+      contactPhone: contactInfo.phone,
+      addresses: addressInfo,
+      mrcTotal: hasContractProduct ? productInfo.mrcTotal : undefined
+    })
+    if (warnings.length > 0) {
+      console.warn('⚠️ PM Request has warnings (not blocking):', warnings)
+      recordDebugEvent({
+        level: 'warning',
+        category: 'validation',
+        message: `PM Request for deal ${dealId} has ${warnings.length} warning(s)`,
+        details: warnings
+      })
+    }
+
     // Step 6: Extract company name
     console.log('Step 6: Extracting company information...')
-    const companyName = extractCompanyName(dealData.Account_Name)
+    const companyName = deal.account?.name || ''
     console.log('✅ Company name extracted:', companyName)
 
+    // Step 6b: Pick the assigned PM
+    const assignment = await resolvePMAssignmentFromCRM(
+      buildPMAssignmentInput(deal, productInfo.contractProductType, productInfo.vendor),
+      client
+    )
+    console.log('✅ PM assigned:', assignment)
+
     // Step 7: Build PM Request data
     console.log('Step 7: Building PM Request data...')
-    const pmRequestData = buildPMRequestData({
+    const builderInput: PMRequestBuilderInput = {
       dealId,
-      dealData,
+      deal,
+      requestType,
       contactInfo,
       productInfo,
       addressInfo,
-      companyName
+      companyName,
+      assignment,
+      overrideAudit
+    }
+    const pmRequestData = buildPMRequestData(builderInput)
+
+    // Step 7b: Only requests of the same type, product type and (for a product group) service
+    // address are duplicates - another group's request must never be updated with this data
+    const existingRequests = filterSameScopePMRequests(dealRequests, {
+      requestType,
+      productType: pmRequestData.Product_Type,
+      serviceAddress: productGroup ? pmRequestData.Service_Address : undefined
     })
 
     // Step 8: Final validation of PM Request data
@@ -87,35 +306,380 @@ export async function generatePMRequest(dealId: string): Promise<{ data: { code:
     if (dataValidationIssues.length > 0) {
       const errorMessage = `❌ PM Request data validation failed:\n\n${dataValidationIssues.map(issue => `• ${issue}`).join('\n')}`
       console.error('🚫 Data validation failed:', errorMessage)
-      throw new Error(errorMessage)
+      throw new ZohoValidationError(errorMessage, {
+        code: 'INVALID_PM_REQUEST_DATA',
+        payload: pmRequestData,
+        operation: 'generatePMRequest'
+      })
     }
 
+    console.log('=== PM REQUEST PREPARED ===')
+    return {
+      dealId,
+      data: pmRequestData,
+      fields: describePMRequestFields(pmRequestData, builderInput),
+      assignment,
+      warnings,
+      existingRequests,
+      dealPMRequestId: deal.pmRequestId,
+      contact: contactInfo,
+      groupProducts: getContractGroupProducts(deal, productInfo),
+      preparedAt: new Date().toISOString()
+    }
+    
+  } catch (error) {
+    console.error('=== PM REQUEST PREPARATION FAILED ===')
+    console.error('Error:', error)
+    console.error('======================================')
+    
+    // Re-throw as a typed error so the UI can show field-level details and hints
+    throw toZohoApiError(error, 'preparePMRequest')
+  }
+}
+
+/**
+ * Inserts a prepared PM Request (step 9) exactly as it was previewed
+ * With an existingRequest action the existing record is updated in place (its Status is kept),
+ * or a new record is inserted with a note naming the request it revises.
+ * The contract summary PDF is then attached to an inserted record
+ * @param preview - Result of preparePMRequest, confirmed by the user
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Action on an existing PM Request of the deal
+ * @returns The write response, the PM Request ID, whether it was linked on the Deal and
+ *          whether the summary PDF was attached
+ * @throws ZohoApiError describing why Zoho rejected the write
+ */
+export async function submitPMRequest(
+  preview: PMRequestPreview,
+  client: ZohoClient = getZohoClient(),
+  options: SubmitPMRequestOptions = {}
+): Promise<PMRequestSubmission> {
+  console.log('=== CREATING PM REQUEST USING ZOHO SDK ===')
+  console.log('Deal ID:', preview.dealId)
+  console.log('API: ZOHO.CRM.API.insertRecord')
+
+  try {
     // Step 9: Log summary and submit
     console.log('Step 9: Submitting PM Request...')
-    logPMRequestSummary(pmRequestData)
+    logPMRequestSummary(preview.data)
     
-    const insertResponse = await zohoApiCall(async () => {
-      return await window.ZOHO!.CRM!.API!.insertRecord({
-        Entity: 'PM_REQUEST',
-        APIData: pmRequestData,
-        Trigger: ['approval', 'workflow', 'blueprint']
-      }) as { data: { code: string; details: { id: string } }[] }
-    })
+    const { existingRequest } = options
+    let response: ZohoUpdateResponse
+    let requestId: string
+
+    if (existingRequest && !preview.existingRequests.some(request => request.id === existingRequest.requestId)) {
+      throw new ZohoValidationError(
+        `PM Request ${existingRequest.requestId} is not a request of this deal for the same type, product and service address`,
+        {
+          code: 'PM_REQUEST_SCOPE_MISMATCH',
+          payload: existingRequest,
+          operation: 'submitPMRequest'
+        }
+      )
+    }
+
+    if (existingRequest?.mode === 'update') {
+      // Keep the Status and Assigned_PM of the existing request - the PM may already be working on it
+      const changes = omitFieldsKeptOnUpdate(preview.data)
+      console.log('Updating existing PM Request:', existingRequest.requestId)
+      response = await client.updateRecord('PM_REQUEST', { ...changes, id: existingRequest.requestId }, {
+        trigger: ['workflow']
+      })
+      assertZohoWriteSuccess(response, `updateRecord PM_REQUEST/${existingRequest.requestId}`)
+      requestId = existingRequest.requestId
+    } else {
+      const data = existingRequest?.mode === 'revision'
+        ? {
+            ...preview.data,
+            Request_Descriptions: [
+              preview.data.Request_Descriptions,
+              formatRevisionNote(existingRequest, preview.existingRequests)
+            ].filter(Boolean).join('\n\n')
+          }
+        : preview.data
+
+      response = await client.insertRecord('PM_REQUEST', data, {
+        trigger: ['approval', 'workflow', 'blueprint']
+      })
+      assertZohoWriteSuccess(response, 'insertRecord PM_REQUEST')
+      requestId = String(response.data[0]?.details?.id ?? '')
+    }
+
+    // Step 10: Point the Deal's PM_Request_Id at the request just written
+    const linkedToDeal = options.linkToDeal === false
+      ? false
+      : await linkPMRequestToDeal(preview, requestId, client)
+
+    // Step 11: Attach the contract summary PDF so the PM can read the order without the deal
+    // (only to new records - an updated request would collect one more PDF per update)
+    const summaryAttached = options.attachSummary === false || existingRequest?.mode === 'update'
+      ? false
+      : await attachPMRequestSummary(preview, requestId, client)
     
-    console.log('=== PM REQUEST CREATED SUCCESSFULLY ===')
-    console.log('Insert Response:', insertResponse)
-    console.log('PM Request ID:', insertResponse.data[0]?.details?.id)
+    console.log(`=== PM REQUEST ${existingRequest?.mode === 'update' ? 'UPDATED' : 'CREATED'} SUCCESSFULLY ===`)
+    console.log('Response:', response)
+    console.log('PM Request ID:', requestId)
     console.log('==========================================')
     
-    return insertResponse
+    return { response, requestId, linkedToDeal, summaryAttached }
     
   } catch (error) {
     console.error('=== PM REQUEST CREATION FAILED ===')
     console.error('Error:', error)
     console.error('===================================')
     
-    // Re-throw with more descriptive error message
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-    throw new Error(`Failed to create PM Request: ${errorMessage}`)
+    // Re-throw as a typed error so the UI can show field-level details and hints
+    throw toZohoApiError(error, 'generatePMRequest')
+  }
+}
+
+/**
+ * Creates one PM Request per product group of a multi-location deal
+ * Same as preparePMRequestBatch followed by submitPMRequestBatch, without a review step in
+ * between - so a group that already has a PM Request fails with DUPLICATE_PM_REQUEST
+ * @param dealId - The Zoho Deal ID to create PM Requests for
+ * @param groupings - Product_Grouping values to create a request for
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Request type, contact and required field overrides shared by every group
+ * @returns The outcome of every group and the request linked on the Deal
+ */
+export async function generatePMRequestBatch(
+  dealId: string,
+  groupings: string[],
+  client: ZohoClient = getZohoClient(),
+  options: PMRequestBatchOptions = {}
+): Promise<PMRequestBatchSubmission> {
+  const prepared = await preparePMRequestBatch(dealId, groupings, client, options)
+  return submitPMRequestBatch(prepared, client)
+}
+
+/**
+ * Runs preparePMRequest for every product group - a dry run of the whole batch for review
+ * A group that cannot be prepared (missing fields, unknown grouping) is reported with its
+ * error and the batch moves on to the next one
+ * @param dealId - The Zoho Deal ID to create PM Requests for
+ * @param groupings - Product_Grouping values to create a request for
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Request type, contact and required field overrides shared by every group
+ * @returns The preview, or the error, of every group in the order given; nothing is written
+ */
+export async function preparePMRequestBatch(
+  dealId: string,
+  groupings: string[],
+  client: ZohoClient = getZohoClient(),
+  options: PMRequestBatchOptions = {}
+): Promise<PMRequestBatchPreview[]> {
+  console.log('=== PREPARING PM REQUEST BATCH (DRY RUN) ===')
+  console.log('Deal ID:', dealId)
+  console.log('Product groups:', groupings)
+
+  const prepared: PMRequestBatchPreview[] = []
+  for (const grouping of groupings) {
+    try {
+      const preview = await preparePMRequest(dealId, client, { ...options, productGrouping: grouping })
+      prepared.push({ grouping, preview, error: null })
+    } catch (error) {
+      const zohoError = toZohoApiError(error, 'preparePMRequestBatch')
+      console.error(`❌ PM Request for product group "${grouping}" could not be prepared:`, zohoError)
+      prepared.push({ grouping, preview: null, error: zohoError })
+    }
+  }
+
+  return prepared
+}
+
+/**
+ * Writes the prepared requests of a batch one group after another
+ * A group that already has a PM Request is only written with an update or revision action
+ * chosen for it, otherwise it fails with DUPLICATE_PM_REQUEST like generatePMRequest. A group
+ * that failed to prepare or to write is reported and the batch moves on to the next one.
+ * The Deal's PM_Request_Id is set to the first request written when the Deal links no
+ * request yet, or when replaceDealLink is set.
+ * @param prepared - Result of preparePMRequestBatch, confirmed by the user
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @param options - Actions on existing requests per group and whether to replace the Deal link
+ * @returns The outcome of every group and the request linked on the Deal
+ */
+export async function submitPMRequestBatch(
+  prepared: PMRequestBatchPreview[],
+  client: ZohoClient = getZohoClient(),
+  options: SubmitPMRequestBatchOptions = {}
+): Promise<PMRequestBatchSubmission> {
+  console.log('=== SUBMITTING PM REQUEST BATCH ===')
+  console.log('Product groups:', prepared.map(({ grouping }) => grouping))
+
+  const results: PMRequestBatchResult[] = []
+  let firstWritten: { preview: PMRequestPreview; requestId: string } | null = null
+
+  for (const { grouping, preview, error: prepareError } of prepared) {
+    try {
+      if (!preview) {
+        throw prepareError ?? new ZohoValidationError(`Product group "${grouping}" was not prepared`, {
+          code: 'PM_REQUEST_NOT_PREPARED',
+          operation: 'submitPMRequestBatch'
+        })
+      }
+
+      const existingRequest = options.existingRequests?.[grouping] ?? null
+      if (preview.existingRequests.length > 0 && !existingRequest) {
+        throw new ZohoValidationError(
+          `Product group "${grouping}" on deal ${preview.dealId} already has ${preview.existingRequests.length} PM Request(s). Choose to update one or create a revision.`,
+          {
+            code: 'DUPLICATE_PM_REQUEST',
+            payload: preview.existingRequests,
+            operation: 'submitPMRequestBatch'
+          }
+        )
+      }
+
+      const { requestId } = await submitPMRequest(preview, client, { existingRequest, linkToDeal: false })
+      results.push({ grouping, status: existingRequest?.mode === 'update' ? 'updated' : 'created', requestId, error: null })
+      firstWritten ??= { preview, requestId }
+    } catch (error) {
+      const zohoError = toZohoApiError(error, 'submitPMRequestBatch')
+      const dealId = preview?.dealId ?? ''
+      console.error(`❌ PM Request for product group "${grouping}" failed:`, zohoError)
+      recordDebugEvent({
+        level: 'error',
+        category: 'pm_request',
+        message: `Batch PM Request for product group "${grouping}" on deal ${dealId} failed: ${zohoError.message}`,
+        details: zohoError
+      })
+      results.push({ grouping, status: 'failed', requestId: '', error: zohoError })
+    }
+  }
+
+  // Only take over the Deal's PM_Request_Id when it is empty or the user asked for it
+  let linkedRequestId = ''
+  let keptDealLink = ''
+  if (firstWritten) {
+    const currentLink = options.replaceDealLink
+      ? ''
+      : await readDealPMRequestId(firstWritten.preview.dealId, client)
+    if (currentLink && currentLink !== firstWritten.requestId) {
+      keptDealLink = currentLink
+      console.log('ℹ️ Deal already links PM Request, keeping it:', currentLink)
+    } else if (currentLink !== null && await linkPMRequestToDeal(firstWritten.preview, firstWritten.requestId, client)) {
+      linkedRequestId = firstWritten.requestId
+    }
+  }
+
+  const written = results.filter(result => result.status !== 'failed').length
+  const dealId = prepared.find(({ preview }) => preview)?.preview?.dealId ?? ''
+  recordDebugEvent({
+    level: written === results.length ? 'info' : 'warning',
+    category: 'pm_request',
+    message: `Batch on deal ${dealId}: ${written} of ${results.length} PM Request(s) written`,
+    details: {
+      results: results.map(({ grouping, status, requestId }) => ({ grouping, status, requestId })),
+      linkedRequestId,
+      keptDealLink
+    }
+  })
+  console.log('=== PM REQUEST BATCH COMPLETE ===', { written, failed: results.length - written })
+
+  return { results, linkedRequestId, keptDealLink }
+}
+
+/**
+ * Copy of the PM Request data without Status and Assigned_PM, for updates that must not
+ * reset the progress or move the request to another PM
+ */
+function omitFieldsKeptOnUpdate(data: PMRequestData): Omit<PMRequestData, 'Status' | 'Assigned_PM'> {
+  const changes: Partial<PMRequestData> = { ...data }
+  delete changes.Status
+  delete changes.Assigned_PM
+  return changes as Omit<PMRequestData, 'Status' | 'Assigned_PM'>
+}
+
+/**
+ * Writes the PM Request ID to the Deal's PM_Request_Id field
+ * A failure is logged rather than thrown - the PM Request itself was already written
+ * @returns Whether the Deal now points at the request
+ */
+async function linkPMRequestToDeal(
+  preview: PMRequestPreview,
+  requestId: string,
+  client: ZohoClient
+): Promise<boolean> {
+  const alreadyLinked = preview.existingRequests.some(request =>
+    request.source === 'deal_link' && request.id === requestId
+  )
+  if (!requestId || alreadyLinked) {
+    return !!requestId
+  }
+
+  try {
+    await updateDealFields(preview.dealId, { pmRequestId: requestId }, client)
+    console.log('✅ Deal linked to PM Request:', requestId)
+    return true
+  } catch (error) {
+    const zohoError = toZohoApiError(error, 'linkPMRequestToDeal')
+    console.warn('⚠️ PM Request written but the Deal could not be linked:', zohoError)
+    recordDebugEvent({
+      level: 'warning',
+      category: 'pm_request',
+      message: `Could not set PM_Request_Id ${requestId} on deal ${preview.dealId}: ${zohoError.message}`,
+      details: zohoError
+    })
+    return false
+  }
+}
+
+/**
+ * Reads the Deal's current PM_Request_Id, so a batch does not replace a link made since it was prepared
+ * @returns The linked request ID ('' when none), or null when the Deal could not be read
+ */
+async function readDealPMRequestId(dealId: string, client: ZohoClient): Promise<string | null> {
+  try {
+    const dealResponse = await fetchDealData(dealId, client)
+    const record = dealResponse.data?.[0]
+    return record ? dealFromRecord(record as ZohoDealRecord).pmRequestId : null
+  } catch (error) {
+    const zohoError = toZohoApiError(error, 'readDealPMRequestId')
+    console.warn('⚠️ Could not read the Deal before linking the batch:', zohoError)
+    recordDebugEvent({
+      level: 'warning',
+      category: 'pm_request',
+      message: `Could not read PM_Request_Id of deal ${dealId}, the Deal link was left unchanged: ${zohoError.message}`,
+      details: zohoError
+    })
+    return null
+  }
+}
+
+/**
+ * Uploads the contract summary PDF to the PM_REQUEST record
+ * A failed upload does not fail the submission - the request is already written - it is
+ * reported in the debug log and through summaryAttached instead
+ */
+async function attachPMRequestSummary(
+  preview: PMRequestPreview,
+  requestId: string,
+  client: ZohoClient
+): Promise<boolean> {
+  if (!requestId) {
+    return false
+  }
+
+  try {
+    const summary = buildPMRequestSummaryPdf(preview, requestId)
+    const response = await client.attachFile('PM_REQUEST', requestId, {
+      name: summary.filename,
+      content: new Blob([summary.content], { type: summary.mimeType })
+    })
+    assertZohoWriteSuccess(response, `attachFile PM_REQUEST/${requestId}`)
+    console.log('✅ Summary PDF attached to PM Request:', summary.filename)
+    return true
+  } catch (error) {
+    const zohoError = toZohoApiError(error, 'attachPMRequestSummary')
+    console.warn('⚠️ PM Request written but the summary PDF could not be attached:', zohoError)
+    recordDebugEvent({
+      level: 'warning',
+      category: 'pm_request',
+      message: `Could not attach the summary PDF to PM Request ${requestId}: ${zohoError.message}`,
+      details: zohoError
+    })
+    return false
   }
 }
@@ -1,5 +1,11 @@
-import type { ZohoDealRecord } from '../types'
+import type { Deal } from '../../../types/deal'
 import type { ZohoProductSubform } from '../../../types/zoho'
+import {
+  findProductFieldRule,
+  getProductFieldHandling,
+  applyProductFieldHandling,
+  type ProductFieldRule
+} from '../rules/productFieldRules'
 
 /**
  * Product Processing Module
@@ -15,17 +21,25 @@ export interface ProcessedProductInfo {
   movingTns: boolean
   contractIdNumber: string
   subAccountId: string
+  // Vendor of the contract product (used by PM assignment rules)
+  vendor: string
+  // Product_Grouping whose Total_Pricing makes up the MRC
+  productGrouping: string
+  // Subform row the request is built from (null when there is no contract product)
+  contractProduct: ZohoProductSubform | null
+  // Rule that decided which fields were copied or blanked (null when every field is copied)
+  fieldRule: ProductFieldRule | null
 }
 
 /**
  * Processes products to extract contract product information and calculate MRC
- * @param dealData - The deal record containing product subform data
+ * @param deal - The deal containing the product subform rows
  * @returns Processed product information
  */
-export function processContractProducts(dealData: ZohoDealRecord): ProcessedProductInfo {
+export function processContractProducts(deal: Deal): ProcessedProductInfo {
   console.log('🔍 Processing contract products...')
   
-  const products = dealData.Subform_1 || []
+  const products = deal.products
   
   // Initialize default values
   const result: ProcessedProductInfo = {
@@ -36,7 +50,11 @@ export function processContractProducts(dealData: ZohoDealRecord): ProcessedProd
     circuitId: '',
     movingTns: false,
     contractIdNumber: '',
-    subAccountId: ''
+    subAccountId: '',
+    vendor: '',
+    productGrouping: '',
+    contractProduct: null,
+    fieldRule: null
   }
 
   if (products.length === 0) {
@@ -45,16 +63,16 @@ export function processContractProducts(dealData: ZohoDealRecord): ProcessedProd
   }
 
   if (products.length === 1) {
-    return processSingleProduct(products[0], dealData)
+    return processSingleProduct(products[0], deal)
   } else {
-    return processMultipleProducts(products, dealData)
+    return processMultipleProducts(products, deal)
   }
 }
 
 /**
  * Processes a single product scenario
  */
-function processSingleProduct(product: ZohoProductSubform, dealData: ZohoDealRecord): ProcessedProductInfo {
+function processSingleProduct(product: ZohoProductSubform, deal: Deal): ProcessedProductInfo {
   console.log('📋 Processing single product scenario')
   
   const contractProductType = product.Product_Type || ''
@@ -64,15 +82,21 @@ function processSingleProduct(product: ZohoProductSubform, dealData: ZohoDealRec
   const totalPricing = parseProductPricing(product.Total_Pricing)
   const mrcTotal = totalPricing || 0
   
+  // Single-product deals copy every field; the rules table applies when the contract
+  // product is picked among several
   const result: ProcessedProductInfo = {
     contractProductType,
     contractTerm,
     mrcTotal,
-    dataHandOff: dealData.Data_Interface_Type || '',
-    circuitId: dealData.Circuit_Id || '',
-    movingTns: dealData.Porting_Moving_TNs || false,
-    contractIdNumber: dealData.Contract_ID_ADIVB_Number || '',
-    subAccountId: dealData.Sub_Account_ID || ''
+    dataHandOff: deal.dataInterfaceType,
+    circuitId: deal.circuitId,
+    movingTns: deal.portingMovingTns,
+    contractIdNumber: deal.contractIdNumber,
+    subAccountId: deal.subAccountId,
+    vendor: product.Vendor || '',
+    productGrouping: product.Product_Grouping || '',
+    contractProduct: product,
+    fieldRule: null
   }
   
   console.log('✅ Single product configuration:', result)
@@ -82,142 +106,165 @@ function processSingleProduct(product: ZohoProductSubform, dealData: ZohoDealRec
 /**
  * Processes multiple products scenario - finds the contract product
  */
-function processMultipleProducts(products: ZohoProductSubform[], dealData: ZohoDealRecord): ProcessedProductInfo {
+function processMultipleProducts(products: ZohoProductSubform[], deal: Deal): ProcessedProductInfo {
   console.log('📋 Processing multiple products scenario')
   
-  const accComplex = ['12', '24', '36', 'MTM']
-  const accComplexRenewal = ['12-Renewal', '24-Renewal', '36-Renewal', '42-Renewal']
-  
-  let selectedGroupMCR = ''
-  let contractProduct: ZohoProductSubform | null = null
-  
   // Find the contract product
-  for (const product of products) {
-    if (product.Is_Contract === true) {
-      contractProduct = product
-      selectedGroupMCR = product.Product_Grouping || ''
-      
-      const productType = product.Product_Type || ''
-      const terms = product.Terms || ''
-      const normalizedProductType = productType.replace(/-/g, ' ').trim()
-      
-      console.log('🎯 Found contract product:', { 
-        originalProductType: productType, 
-        normalizedProductType, 
-        terms,
-        productGrouping: selectedGroupMCR
-      })
-      
-      // Check if this matches our complex product patterns
-      if (isComplexProduct(normalizedProductType, terms, accComplex, accComplexRenewal)) {
-        console.log('✅ Matched complex product pattern')
-        break
-      } else {
-        console.log('✅ Using general contract product')
-        break
-      }
-    }
-  }
+  const contractProduct = products.find(product => product.Is_Contract === true) ?? null
   
   if (!contractProduct) {
     console.log('⚠️  No contract product found')
-    return {
-      contractProductType: 'N/A',
-      contractTerm: 'N/A',
-      mrcTotal: 0,
-      dataHandOff: '',
-      circuitId: '',
-      movingTns: false,
-      contractIdNumber: '',
-      subAccountId: ''
-    }
+    return noContractProductInfo()
   }
   
+  console.log('🎯 Found contract product:', { 
+    productType: contractProduct.Product_Type || '', 
+    terms: contractProduct.Terms || '',
+    productGrouping: contractProduct.Product_Grouping || ''
+  })
+  
+  const result = processGroupProduct(contractProduct, products, deal)
+  console.log('✅ Multiple products configuration:', result)
+  return result
+}
+
+/**
+ * Product information when there is no contract product
+ */
+function noContractProductInfo(): ProcessedProductInfo {
+  return {
+    contractProductType: 'N/A',
+    contractTerm: 'N/A',
+    mrcTotal: 0,
+    dataHandOff: '',
+    circuitId: '',
+    movingTns: false,
+    contractIdNumber: '',
+    subAccountId: '',
+    vendor: '',
+    productGrouping: '',
+    contractProduct: null,
+    fieldRule: null
+  }
+}
+
+/**
+ * Builds the product information of one product, with the MRC of its whole product group
+ * and the fields decided by the product field rules table
+ */
+function processGroupProduct(contractProduct: ZohoProductSubform, products: ZohoProductSubform[], deal: Deal): ProcessedProductInfo {
+  const selectedGroupMCR = contractProduct.Product_Grouping || ''
+  
   // Calculate MRC total for the selected product group
   const mrcTotal = calculateGroupMRC(products, selectedGroupMCR)
   
-  // Determine which fields to populate based on product type and terms
+  // Determine which fields to populate from the product field rules table
+  const productType = contractProduct.Product_Type || ''
+  const terms = contractProduct.Terms || ''
+  const rule = findProductFieldRule(productType, terms)
   const { dataHandOff, circuitId, contractIdNumber, subAccountId, movingTns } = 
-    determineRequiredFields(contractProduct, dealData, accComplex, accComplexRenewal)
+    applyProductFieldHandling(deal, getProductFieldHandling(productType, terms))
+  console.log('📋 Applied field configuration:', rule ? rule.label : 'general product (no rule matched)')
   
-  const result: ProcessedProductInfo = {
-    contractProductType: contractProduct.Product_Type || '',
-    contractTerm: contractProduct.Terms || '',
+  return {
+    contractProductType: productType,
+    contractTerm: terms,
     mrcTotal,
     dataHandOff,
     circuitId,
     movingTns,
     contractIdNumber,
-    subAccountId
+    subAccountId,
+    vendor: contractProduct.Vendor || '',
+    productGrouping: selectedGroupMCR,
+    contractProduct,
+    fieldRule: rule
   }
-  
-  console.log('✅ Multiple products configuration:', result)
-  return result
+}
+
+export interface ProductGroup {
+  // Product_Grouping value ('' for rows without a grouping)
+  grouping: string
+  // Product the group's PM Request is built from: its contract product, else its main
+  // product, else its first row
+  leadProduct: ZohoProductSubform
+  products: ZohoProductSubform[]
+  mrcTotal: number
 }
 
 /**
- * Checks if a product matches complex product patterns
+ * Groups the product rows by Product_Grouping, in the order the groups first appear
+ * (multi-location deals carry one group per site)
+ * @param products - Product subform rows
  */
-function isComplexProduct(
-  normalizedProductType: string, 
-  terms: string, 
-  accComplex: string[], 
-  accComplexRenewal: string[]
-): boolean {
-  const isComplexType = normalizedProductType === 'ACC Complex' || normalizedProductType === 'AT&T Complex'
-  const isStandardTerm = accComplex.includes(terms)
-  const isRenewalTerm = accComplexRenewal.includes(terms)
-  
-  return isComplexType && (isStandardTerm || isRenewalTerm)
+export function getProductGroups(products: ZohoProductSubform[]): ProductGroup[] {
+  const groups = new Map<string, ZohoProductSubform[]>()
+  for (const product of products) {
+    const grouping = product.Product_Grouping || ''
+    groups.set(grouping, [...(groups.get(grouping) ?? []), product])
+  }
+
+  return Array.from(groups, ([grouping, groupProducts]) => ({
+    grouping,
+    leadProduct: groupProducts.find(product => product.Is_Contract === true)
+      ?? groupProducts.find(product => product.Main_Product)
+      ?? groupProducts[0],
+    products: groupProducts,
+    mrcTotal: groupProducts.reduce((total, product) => total + parseProductPricing(product.Total_Pricing), 0)
+  }))
 }
 
 /**
- * Determines which fields should be populated based on product configuration
+ * Processes the products of one product group, for a multi-location PM Request
+ * The group's lead product takes the place of the contract product
+ * @param deal - The deal containing the product subform rows
+ * @param grouping - Product_Grouping of the group
+ * @returns Processed product information ('N/A' product type when the group does not exist)
  */
-function determineRequiredFields(
-  contractProduct: ZohoProductSubform,
-  dealData: ZohoDealRecord,
-  accComplex: string[],
-  accComplexRenewal: string[]
-): Pick<ProcessedProductInfo, 'dataHandOff' | 'circuitId' | 'contractIdNumber' | 'subAccountId' | 'movingTns'> {
-  const productType = contractProduct.Product_Type || ''
-  const terms = contractProduct.Terms || ''
-  const normalizedProductType = productType.replace(/-/g, ' ').trim()
-  
-  const result = {
-    dataHandOff: '',
-    circuitId: '',
-    contractIdNumber: '',
-    subAccountId: '',
-    movingTns: false
-  }
-  
-  if ((normalizedProductType === 'ACC Complex' || normalizedProductType === 'AT&T Complex') && accComplex.includes(terms)) {
-    // Standard terms configuration
-    result.dataHandOff = dealData.Data_Interface_Type || ''
-    result.circuitId = dealData.Circuit_Id || ''
-    result.movingTns = dealData.Porting_Moving_TNs || false
-    result.subAccountId = dealData.Sub_Account_ID || ''
-    console.log('📋 Applied standard terms field configuration')
-  } else if ((normalizedProductType === 'ACC Complex' || normalizedProductType === 'AT&T Complex') && accComplexRenewal.includes(terms)) {
-    // Renewal terms configuration
-    result.circuitId = dealData.Circuit_Id || ''
-    result.contractIdNumber = dealData.Contract_ID_ADIVB_Number || ''
-    result.subAccountId = dealData.Sub_Account_ID || ''
-    console.log('📋 Applied renewal terms field configuration')
-  } else {
-    // General product configuration
-    result.dataHandOff = dealData.Data_Interface_Type || ''
-    result.circuitId = dealData.Circuit_Id || ''
-    result.movingTns = dealData.Porting_Moving_TNs || false
-    result.contractIdNumber = dealData.Contract_ID_ADIVB_Number || ''
-    result.subAccountId = dealData.Sub_Account_ID || ''
-    console.log('📋 Applied general product field configuration')
+export function processProductGroup(deal: Deal, grouping: string): ProcessedProductInfo {
+  console.log('🔍 Processing product group:', grouping || '(no grouping)')
+
+  const group = getProductGroups(deal.products).find(candidate => candidate.grouping === grouping)
+  if (!group) {
+    console.log('⚠️  Product group not found on the deal:', grouping)
+    return noContractProductInfo()
   }
-  
+
+  const result = processGroupProduct(group.leadProduct, deal.products, deal)
+  console.log('✅ Product group configuration:', result)
   return result
 }
 
+/**
+ * Calculates the MRC the PM Request will carry for the selected contract product
+ * (its own price for a single-product deal, otherwise the total of its product group)
+ * @param products - Product subform rows, with the contract product flagged
+ * @returns The MRC, or 0 when no contract product is selected
+ */
+export function calculateContractMRC(products: ZohoProductSubform[]): number {
+  const contractProduct = products.find(product => product.Is_Contract === true)
+  if (!contractProduct) {
+    return 0
+  }
+  if (products.length === 1) {
+    return parseProductPricing(contractProduct.Total_Pricing)
+  }
+  return calculateGroupMRC(products, contractProduct.Product_Grouping || '')
+}
+
+/**
+ * Lists the product rows behind a PM Request: the rows of the contract product's group
+ * (the rows making up the MRC), or every row when there is no contract product
+ * @param deal - The deal containing the product subform rows
+ * @param productInfo - Result of processContractProducts or processProductGroup
+ */
+export function getContractGroupProducts(deal: Deal, productInfo: ProcessedProductInfo): ZohoProductSubform[] {
+  if (!productInfo.contractProduct) {
+    return deal.products
+  }
+  return deal.products.filter(product => (product.Product_Grouping || '') === productInfo.productGrouping)
+}
+
 /**
  * Calculates total MRC for a product group
  */
@@ -227,7 +274,8 @@ function calculateGroupMRC(products: ZohoProductSubform[], selectedGroupMCR: str
   console.log('💰 Calculating MRC for product group:', selectedGroupMCR)
   
   for (const product of products) {
-    if (product.Product_Grouping === selectedGroupMCR) {
+    // Same grouping as getProductGroups: rows without a Product_Grouping form the '' group
+    if ((product.Product_Grouping || '') === selectedGroupMCR) {
       const totalPricing = parseProductPricing(product.Total_Pricing)
       mrcTotal += totalPricing || 0
       
@@ -242,7 +290,7 @@ function calculateGroupMRC(products: ZohoProductSubform[], selectedGroupMCR: str
 /**
  * Safely parses product pricing from string or number
  */
-function parseProductPricing(pricing: string | number | undefined): number {
+export function parseProductPricing(pricing: string | number | undefined): number {
   if (typeof pricing === 'number') {
     return pricing
   }
@@ -256,20 +304,3 @@ function parseProductPricing(pricing: string | number | undefined): number {
   
   return 0
 }
-
-/**
- * Extracts company name from Account_Name field (handles both string and object formats)
- */
-export function extractCompanyName(accountName: unknown): string {
-  if (accountName && 
-      typeof accountName === 'object' && 
-      'name' in accountName) {
-    return (accountName as { name: string }).name
-  }
-  
-  if (typeof accountName === 'string') {
-    return accountName
-  }
-  
-  return ''
-}
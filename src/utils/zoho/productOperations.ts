@@ -1,101 +1,62 @@
 import type { ZohoProductSubform } from '../../types/zoho'
-import type { ZohoUpdateResponse } from './types'
-import { zohoApiCall, validateZohoAPI } from './core'
+import type { ZohoDealRecord, ZohoUpdateResponse } from './types'
+import { getZohoClient, type ZohoClient } from './client'
+import { toZohoApiError, ZohoNotFoundError, ZohoValidationError } from './errors'
+import { assertZohoWriteSuccess } from './core'
+import { fetchDealData } from './dealOperations'
+
+export interface ContractSelectionUpdate {
+  response: ZohoUpdateResponse
+  // Subform rows as they are now in Zoho (rows added since PageLoad included), with the new Is_Contract values
+  products: ZohoProductSubform[]
+}
 
 /**
- * Updates a product's Is_Contract field in Zoho CRM Deal subform with exclusive selection
- * IMPORTANT: Implements exclusive contract selection - only one product can be contract at a time
- * Sends ALL products in the subform to prevent data loss
- * Zoho CRM replaces the entire subform array, so all existing records must be included
+ * Marks one product row of the Deal subform as the contract product (exclusive selection)
+ * IMPORTANT: Only one product can be contract at a time - any other contract row is cleared
+ * The subform is re-read before the write and rows are addressed by their row id, so rows
+ * added or edited by someone else since PageLoad are kept as they are
  * @param dealId - The Zoho Deal ID
- * @param productIndex - Index of the product in the subform array to update
- * @param productData - The complete product record data (for logging/validation)
- * @param allProducts - ALL products in the subform (CRITICAL: prevents other records from being deleted)
- * @returns Promise with the update response
+ * @param rowId - Subform row id of the product to mark as contract
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @returns The update response and the subform rows after the update
+ * @throws ZohoValidationError when rowId is empty (a row Zoho sent without an id),
+ *         ZohoNotFoundError when the row is no longer on the deal,
+ *         or ZohoApiError describing why Zoho rejected the update, including rejected rows in a resolved response
  */
 export async function updateProductContractStatus(
   dealId: string,
-  productIndex: number,
-  productData: ZohoProductSubform,
-  allProducts: ZohoProductSubform[]
-): Promise<ZohoUpdateResponse> {
+  rowId: string,
+  client: ZohoClient = getZohoClient()
+): Promise<ContractSelectionUpdate> {
   console.log('=== ZOHO API UPDATE START (EXCLUSIVE SELECTION) ===')
   console.log('Deal ID:', dealId)
-  console.log('Product Index:', productIndex)
-  console.log('Product Data:', productData)
-  console.log('All Products Count:', allProducts.length)
-  
-  validateZohoAPI()
+  console.log('Subform Row ID:', rowId)
   
   try {
-    // EXCLUSIVE CONTRACT SELECTION: Set all other products' Is_Contract to false
-    // Only the selected product will have Is_Contract = true
-    const updatedProducts = allProducts.map((product, index) => {
-      if (index === productIndex) {
-        // Update the target product's Is_Contract field to true
-        return {
-          ...product,
-          Is_Contract: true
-        }
-      } else {
-        // Set all other products' Is_Contract to false (exclusive selection)
-        return {
-          ...product,
-          Is_Contract: false
-        }
-      }
-    })
-    
-    console.log('Target Product Index:', productIndex)
-    console.log('All Products Before Update:', allProducts)
-    console.log('All Products After Update (EXCLUSIVE):', updatedProducts)
-    console.log('Previous contract products will be set to false')
-
-    // CRITICAL: Send ALL products in subform to prevent data loss
-    // Zoho replaces the entire subform array, so we must include all records
-    const apiConfig = {
-      Entity: "Deals",
-      APIData: {
-        id: dealId,
-        Contract_Product: true, // Set to true when a contract product is selected
-        Subform_1: updatedProducts // Send ALL products to retain existing records
-      },
-      Trigger: ["workflow"]
+    // An empty id matches no row, so the write would clear every contract selection
+    if (!rowId) {
+      throw new ZohoValidationError('The product row has no subform row id and cannot be selected', {
+        code: 'SUBFORM_ROW_ID_MISSING',
+        operation: 'updateProductContractStatus'
+      })
     }
 
-    console.log('API Config:', JSON.stringify(apiConfig, null, 2))
-
-    // Use modern async/await with Zoho SDK
-    const response = await zohoApiCall<ZohoUpdateResponse>(async () => {
-      return new Promise<ZohoUpdateResponse>((resolve, reject) => {
-        window.ZOHO!.CRM!.API!.updateRecord(apiConfig)
-          .then((response: unknown) => {
-            console.log('Raw Zoho API Response:', response)
-            resolve(response as ZohoUpdateResponse)
-          })
-          .catch((error: unknown) => {
-            console.error('Zoho API Error Details:', error)
-            reject(error)
-          })
-      })
-    })
+    const update = await writeContractSelection(dealId, rowId, true, 'updateProductContractStatus', client)
 
     console.log('=== ZOHO API UPDATE SUCCESS ===')
-    console.log('Response:', response)
+    console.log('Response:', update.response)
     console.log('===============================')
 
-    return response
+    return update
   } catch (error) {
     console.error('=== ZOHO API UPDATE ERROR ===')
     console.error('Error updating product contract status:', error)
     console.error('Deal ID:', dealId)
-    console.error('Product Index:', productIndex)
-    console.error('Product Data:', productData)
+    console.error('Subform Row ID:', rowId)
     console.error('=============================')
     
-    throw new Error(
-      `Failed to update contract status: ${error instanceof Error ? error.message : 'Unknown error'}`
-    )
+    throw toZohoApiError(error, 'updateProductContractStatus')
   }
 }
 
@@ -103,62 +64,24 @@ export async function updateProductContractStatus(
  * Clears all contract selections by setting Is_Contract to false for all products
  * This is called when the widget is closed to reset the contract selections
  * @param dealId - The Zoho Deal ID
- * @param allProducts - ALL products in the subform
- * @returns Promise with the update response
+ * @param client - Zoho transport (defaults to the SDK client)
+ * @returns The update response and the subform rows after the update
  */
 export async function clearAllContractSelections(
   dealId: string,
-  allProducts: ZohoProductSubform[]
-): Promise<ZohoUpdateResponse> {
+  client: ZohoClient = getZohoClient()
+): Promise<ContractSelectionUpdate> {
   console.log('=== CLEARING ALL CONTRACT SELECTIONS ===')
   console.log('Deal ID:', dealId)
-  console.log('All Products Count:', allProducts.length)
-
-  validateZohoAPI()
 
   try {
-    // Set all products' Is_Contract to false
-    const updatedProducts = allProducts.map((product) => ({
-      ...product,
-      Is_Contract: false
-    }))
-    
-    console.log('All products will have Is_Contract set to false')
-    console.log('Updated Products Count:', updatedProducts.length)
-
-    // CRITICAL: Send ALL products in subform to prevent data loss
-    const apiConfig = {
-      Entity: "Deals",
-      APIData: {
-        id: dealId,
-        Contract_Product: false, // Add Contract_Product field at deal level
-        Subform_1: updatedProducts
-      },
-      Trigger: ["workflow"]
-    }
-
-    console.log('API Config for clearing contracts:', JSON.stringify(apiConfig, null, 2))
-
-    // Use modern async/await with Zoho SDK
-    const response = await zohoApiCall<ZohoUpdateResponse>(async () => {
-      return new Promise<ZohoUpdateResponse>((resolve, reject) => {
-        window.ZOHO!.CRM!.API!.updateRecord(apiConfig)
-          .then((response: unknown) => {
-            console.log('Raw Zoho API Response (Clear Contracts):', response)
-            resolve(response as ZohoUpdateResponse)
-          })
-          .catch((error: unknown) => {
-            console.error('Zoho API Error Details (Clear Contracts):', error)
-            reject(error)
-          })
-      })
-    })
+    const update = await writeContractSelection(dealId, null, false, 'clearAllContractSelections', client)
 
     console.log('=== ALL CONTRACT SELECTIONS CLEARED ===')
-    console.log('Response:', response)
+    console.log('Response:', update.response)
     console.log('=======================================')
 
-    return response
+    return update
 
   } catch (error) {
     console.error('=== CLEAR CONTRACTS ERROR ===')
@@ -166,10 +89,56 @@ export async function clearAllContractSelections(
     console.error('Deal ID:', dealId)
     console.error('============================')
     
-    throw new Error(
-      `Failed to clear contract selections: ${error instanceof Error ? error.message : 'Unknown error'}`
+    throw toZohoApiError(error, 'clearAllContractSelections')
+  }
+}
+
+/**
+ * Sets Is_Contract on the current subform rows: true on the selected row, false on every other
+ * Zoho deletes subform rows that are left out of an update, so every current row is sent -
+ * rows whose Is_Contract changes as { id, Is_Contract }, all others as { id } alone, which
+ * Zoho keeps unchanged
+ */
+async function writeContractSelection(
+  dealId: string,
+  selectedRowId: string | null,
+  contractProduct: boolean,
+  operation: string,
+  client: ZohoClient
+): Promise<ContractSelectionUpdate> {
+  const dealResponse = await fetchDealData(dealId, client)
+  const currentRows = (dealResponse.data?.[0] as ZohoDealRecord | undefined)?.Subform_1 ?? []
+
+  if (selectedRowId !== null && !currentRows.some(row => row.id === selectedRowId)) {
+    throw new ZohoNotFoundError(
+      `The selected product row is no longer on deal ${dealId} - it was removed after the widget was opened`,
+      { code: 'SUBFORM_ROW_NOT_FOUND', payload: { rowId: selectedRowId }, operation }
     )
   }
+
+  const products = currentRows.map(row => ({ ...row, Is_Contract: !!row.id && row.id === selectedRowId }))
+  // Rows without an id cannot be addressed; Zoho always sends one for saved rows
+  const subformRows = products
+    .filter(row => row.id)
+    .map(row => row.Is_Contract === currentRows.find(current => current.id === row.id)?.Is_Contract
+      ? { id: row.id }
+      : { id: row.id, Is_Contract: row.Is_Contract })
+
+  console.log('Rows changed:', subformRows.filter(row => 'Is_Contract' in row))
+  console.log('Rows kept (id only):', subformRows.filter(row => !('Is_Contract' in row)).length)
+
+  const apiData = {
+    id: dealId,
+    Contract_Product: contractProduct,
+    Subform_1: subformRows
+  }
+  console.log('API Data:', JSON.stringify(apiData, null, 2))
+
+  const response = await client.updateRecord('Deals', apiData, { trigger: ['workflow'] })
+  console.log('Raw Zoho API Response:', response)
+  assertZohoWriteSuccess(response, operation)
+
+  return { response, products }
 }
 
 /**
@@ -177,45 +146,31 @@ export async function clearAllContractSelections(
  * This function updates the deal's Contract_Product field
  * @param dealId - The Zoho Deal ID
  * @param contractProductValue - Value to set for Contract_Product field
+ * @param client - Zoho transport (defaults to the SDK client)
  * @returns Promise with the update response
  */
 export async function updateContractProductField(
   dealId: string,
-  contractProductValue: boolean
+  contractProductValue: boolean,
+  client: ZohoClient = getZohoClient()
 ): Promise<ZohoUpdateResponse> {
   console.log('=== UPDATING CONTRACT_PRODUCT FIELD ===')
   console.log('Deal ID:', dealId)
   console.log('Contract_Product value:', contractProductValue)
   
-  validateZohoAPI()
-  
   try {
     // Update only the Contract_Product field
-    const apiConfig = {
-      Entity: "Deals",
-      APIData: {
-        id: dealId,
-        Contract_Product: contractProductValue
-      },
-      Trigger: ["workflow"]
+    const apiData = {
+      id: dealId,
+      Contract_Product: contractProductValue
     }
 
-    console.log('API Config for Contract_Product update:', JSON.stringify(apiConfig, null, 2))
+    console.log('API Data for Contract_Product update:', JSON.stringify(apiData, null, 2))
 
     // Update the field
-    const response = await zohoApiCall<ZohoUpdateResponse>(async () => {
-      return new Promise<ZohoUpdateResponse>((resolve, reject) => {
-        window.ZOHO!.CRM!.API!.updateRecord(apiConfig)
-          .then((response: unknown) => {
-            console.log('Contract_Product update response:', response)
-            resolve(response as ZohoUpdateResponse)
-          })
-          .catch((error: unknown) => {
-            console.error('Contract_Product update error:', error)
-            reject(error)
-          })
-      })
-    })
+    const response = await client.updateRecord('Deals', apiData, { trigger: ['workflow'] })
+    console.log('Contract_Product update response:', response)
+    assertZohoWriteSuccess(response, 'updateContractProductField')
 
     console.log('=== CONTRACT_PRODUCT UPDATED SUCCESSFULLY ===')
     console.log('Response:', response)
@@ -226,8 +181,6 @@ export async function updateContractProductField(
     console.error('=== CONTRACT_PRODUCT UPDATE FAILED ===')
     console.error('Error:', error)
     
-    throw new Error(
-      `Failed to update Contract_Product field: ${error instanceof Error ? error.message : 'Unknown error'}`
-    )
+    throw toZohoApiError(error, 'updateContractProductField')
   }
 }
@@ -0,0 +1,132 @@
+import type { Deal } from '../../../types/deal'
+import { PRODUCT_FIELD_RULES } from './productFieldRulesConfig'
+
+/**
+ * Product Field Rules Module
+ * Reads the product type x term rules table (productFieldRulesConfig.ts) for both PM Request
+ * validation (which Deal fields are required) and product processing (which Deal fields are
+ * copied into the PM Request and which are left blank).
+ */
+
+// Deal fields a rule can require
+export type RequiredDealField = keyof Pick<Deal,
+  'description' | 'currentServices' | 'circuitId' | 'dataInterfaceType' | 'contractIdNumber' | 'accountNumber'>
+
+// PM Request values taken from the deal by product processing
+export type ProductFieldKey = 'dataHandOff' | 'circuitId' | 'movingTns' | 'contractIdNumber' | 'subAccountId'
+
+export type FieldHandling = 'copy' | 'blank'
+
+export interface ProductFieldRule {
+  id: string
+  label: string
+  productTypes: string[]
+  terms: string[]
+  // Required in addition to the base required fields
+  requiredFields: RequiredDealField[]
+  // Base required fields this product does not need
+  exemptFields?: RequiredDealField[]
+  fieldHandling: Record<ProductFieldKey, FieldHandling>
+}
+
+export interface ProductFieldRulesConfig {
+  // Required for every PM Request unless a rule exempts them
+  baseRequiredFields: RequiredDealField[]
+  // Checked in order, first match wins
+  rules: ProductFieldRule[]
+  // Used when no rule matches the product type and term
+  defaultFieldHandling: Record<ProductFieldKey, FieldHandling>
+}
+
+// Labels shown to the user (and returned by validateRequiredFieldsForPMRequest)
+export const REQUIRED_FIELD_LABELS: Record<RequiredDealField, string> = {
+  description: 'Description',
+  currentServices: 'Current Services',
+  circuitId: 'Circuit ID',
+  dataInterfaceType: 'Requested Data Hand-Off',
+  contractIdNumber: 'Contract ID Number / ADIVB Number',
+  accountNumber: 'Account Number'
+}
+
+/**
+ * Finds the rule for a product type and term
+ * @param productType - Product type (e.g. "AT&T-Complex")
+ * @param term - Term (e.g. "12-Renewal")
+ * @param config - Rules table (defaults to PRODUCT_FIELD_RULES)
+ * @returns The first matching rule, or null when the defaults apply
+ */
+export function findProductFieldRule(
+  productType: string,
+  term: string,
+  config: ProductFieldRulesConfig = PRODUCT_FIELD_RULES
+): ProductFieldRule | null {
+  const normalizedProductType = normalizeRuleValue(productType)
+  const normalizedTerm = normalizeRuleValue(term)
+
+  return config.rules.find(rule =>
+    rule.productTypes.some(candidate => normalizeRuleValue(candidate) === normalizedProductType) &&
+    rule.terms.some(candidate => normalizeRuleValue(candidate) === normalizedTerm)
+  ) ?? null
+}
+
+/**
+ * Lists the Deal fields required for a product type and term, in display order
+ * @param productType - Product type of the contract product
+ * @param term - Term of the contract product
+ * @param config - Rules table (defaults to PRODUCT_FIELD_RULES)
+ */
+export function getRequiredDealFields(
+  productType: string,
+  term: string,
+  config: ProductFieldRulesConfig = PRODUCT_FIELD_RULES
+): RequiredDealField[] {
+  const rule = findProductFieldRule(productType, term, config)
+  const exempt = rule?.exemptFields ?? []
+  const required = config.baseRequiredFields.filter(field => !exempt.includes(field))
+
+  for (const field of rule?.requiredFields ?? []) {
+    if (!required.includes(field)) required.push(field)
+  }
+  return required
+}
+
+/**
+ * Returns how each PM Request field is taken from the deal for a product type and term
+ * @param productType - Product type of the contract product
+ * @param term - Term of the contract product
+ * @param config - Rules table (defaults to PRODUCT_FIELD_RULES)
+ */
+export function getProductFieldHandling(
+  productType: string,
+  term: string,
+  config: ProductFieldRulesConfig = PRODUCT_FIELD_RULES
+): Record<ProductFieldKey, FieldHandling> {
+  return findProductFieldRule(productType, term, config)?.fieldHandling ?? config.defaultFieldHandling
+}
+
+/**
+ * Copies or blanks the product-dependent PM Request fields according to the field handling
+ * @param deal - The deal the values are copied from
+ * @param handling - Field handling from getProductFieldHandling
+ */
+export function applyProductFieldHandling(
+  deal: Deal,
+  handling: Record<ProductFieldKey, FieldHandling>
+): { dataHandOff: string; circuitId: string; movingTns: boolean; contractIdNumber: string; subAccountId: string } {
+  const copy = (key: ProductFieldKey) => handling[key] === 'copy'
+
+  return {
+    dataHandOff: copy('dataHandOff') ? deal.dataInterfaceType : '',
+    circuitId: copy('circuitId') ? deal.circuitId : '',
+    movingTns: copy('movingTns') ? deal.portingMovingTns : false,
+    contractIdNumber: copy('contractIdNumber') ? deal.contractIdNumber : '',
+    subAccountId: copy('subAccountId') ? deal.subAccountId : ''
+  }
+}
+
+/**
+ * Normalizes a product type or term for comparison ("AT&T-Complex" -> "at&t complex")
+ */
+export function normalizeRuleValue(value: string): string {
+  return value.replace(/-/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
+}
@@ -0,0 +1,71 @@
+import type { ProductFieldRulesConfig } from './productFieldRules'
+
+/**
+ * Product Field Rules Configuration
+ * Product type x term matrix used by PM Request validation and product processing.
+ * Product types and terms are compared ignoring case and dashes ("AT&T-Complex" = "AT&T Complex",
+ * "12-Renewal" = "12 Renewal"). To support a new product, add a rule here - no code changes needed.
+ */
+
+const STANDARD_TERMS = ['12', '24', '36', 'MTM']
+const RENEWAL_TERMS = ['12 Renewal', '24 Renewal', '36 Renewal']
+
+export const PRODUCT_FIELD_RULES: ProductFieldRulesConfig = {
+  baseRequiredFields: ['description', 'currentServices', 'circuitId'],
+
+  // Products without a matching rule copy every field from the deal
+  defaultFieldHandling: {
+    dataHandOff: 'copy',
+    circuitId: 'copy',
+    movingTns: 'copy',
+    contractIdNumber: 'copy',
+    subAccountId: 'copy'
+  },
+
+  rules: [
+    {
+      id: 'att-complex-standard',
+      label: 'AT&T Complex with standard terms',
+      productTypes: ['AT&T Complex'],
+      terms: STANDARD_TERMS,
+      requiredFields: ['dataInterfaceType'],
+      // Circuit ID is not required for AT&T Complex on standard terms
+      exemptFields: ['circuitId'],
+      fieldHandling: {
+        dataHandOff: 'copy',
+        circuitId: 'copy',
+        movingTns: 'copy',
+        contractIdNumber: 'blank',
+        subAccountId: 'copy'
+      }
+    },
+    {
+      id: 'acc-complex-standard',
+      label: 'ACC Complex with standard terms',
+      productTypes: ['ACC Complex'],
+      terms: STANDARD_TERMS,
+      requiredFields: ['dataInterfaceType'],
+      fieldHandling: {
+        dataHandOff: 'copy',
+        circuitId: 'copy',
+        movingTns: 'copy',
+        contractIdNumber: 'blank',
+        subAccountId: 'copy'
+      }
+    },
+    {
+      id: 'complex-renewal',
+      label: 'AT&T / ACC Complex renewal',
+      productTypes: ['AT&T Complex', 'ACC Complex'],
+      terms: RENEWAL_TERMS,
+      requiredFields: ['contractIdNumber'],
+      fieldHandling: {
+        dataHandOff: 'blank',
+        circuitId: 'copy',
+        movingTns: 'blank',
+        contractIdNumber: 'copy',
+        subAccountId: 'copy'
+      }
+    }
+  ]
+}
@@ -0,0 +1,106 @@
+import type { Deal } from '../../../types/deal'
+import type { RequiredDealField } from './productFieldRules'
+
+/**
+ * Request Type Rules Module
+ * Describes the PM Request types (Contract, Move, Disconnect, Upgrade, MAC): whether a contract
+ * product is needed, which Deal fields each type requires on top of the product field rules,
+ * and which Deal flag (MAC_P, Is_Disconnected, Previous_Deal_Disconnect) marks a deal for it.
+ */
+
+export const PM_REQUEST_TYPES = ['Contract', 'Move', 'Disconnect', 'Upgrade', 'MAC'] as const
+
+export type PMRequestType = typeof PM_REQUEST_TYPES[number]
+
+export interface RequestTypeDealFlag {
+  // Deal API names shown when the flag is missing
+  fields: string[]
+  isSet: (deal: Deal) => boolean
+}
+
+export interface RequestTypeRule {
+  type: PMRequestType
+  label: string
+  description: string
+  // Contract and Upgrade requests are built around the selected contract product
+  requiresContractProduct: boolean
+  // Required in addition to the product field rules
+  requiredFields: RequiredDealField[]
+  // Deal flag that marks a deal for this type (used to suggest the type and warn on a mismatch)
+  dealFlag?: RequestTypeDealFlag
+}
+
+// Checked in this order when suggesting a type; the first type whose flag is set wins
+export const REQUEST_TYPE_RULES: Record<PMRequestType, RequestTypeRule> = {
+  Disconnect: {
+    type: 'Disconnect',
+    label: 'Disconnect',
+    description: 'Disconnect existing services',
+    requiresContractProduct: false,
+    requiredFields: ['accountNumber'],
+    dealFlag: {
+      fields: ['Is_Disconnected', 'Previous_Deal_Disconnect'],
+      isSet: deal => deal.isDisconnected || isYes(deal.previousDealDisconnect)
+    }
+  },
+  MAC: {
+    type: 'MAC',
+    label: 'MAC',
+    description: 'Move, add or change services on an existing account',
+    requiresContractProduct: false,
+    requiredFields: ['accountNumber'],
+    dealFlag: {
+      fields: ['MAC_P'],
+      isSet: deal => isYes(deal.macP)
+    }
+  },
+  Contract: {
+    type: 'Contract',
+    label: 'Contract',
+    description: 'New contract for the selected contract product',
+    requiresContractProduct: true,
+    requiredFields: []
+  },
+  Move: {
+    type: 'Move',
+    label: 'Move',
+    description: 'Relocate existing services to the service address',
+    requiresContractProduct: false,
+    requiredFields: ['accountNumber']
+  },
+  Upgrade: {
+    type: 'Upgrade',
+    label: 'Upgrade',
+    description: 'Upgrade the existing circuit to the selected contract product',
+    requiresContractProduct: true,
+    requiredFields: ['accountNumber']
+  }
+}
+
+/**
+ * Returns the rule of a request type
+ * @param requestType - PM Request type
+ */
+export function getRequestTypeRule(requestType: PMRequestType): RequestTypeRule {
+  return REQUEST_TYPE_RULES[requestType]
+}
+
+/**
+ * Checks whether a value (e.g. a stored Request_Type) is a supported request type
+ */
+export function isPMRequestType(value: unknown): value is PMRequestType {
+  return typeof value === 'string' && (PM_REQUEST_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Suggests the request type from the Deal flags (Contract when no flag is set)
+ * @param deal - The deal the request is for
+ */
+export function suggestRequestType(deal: Deal): PMRequestType {
+  const flagged = Object.values(REQUEST_TYPE_RULES).find(rule => rule.dealFlag?.isSet(deal))
+  return flagged?.type ?? 'Contract'
+}
+
+function isYes(value: string): boolean {
+  return value.trim().toLowerCase() === 'yes'
+}
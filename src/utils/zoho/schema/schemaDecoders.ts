@@ -0,0 +1,364 @@
+import type { ZohoDealData, ZohoPageLoadData, ZohoProductSubform } from '../../../types/zoho'
+import type { ZohoConnectionResponse, ZohoContact, ZohoContactRole, ZohoCurrentUser, ZohoDealRecord } from '../types'
+import { recordDebugEvent } from '../debugLog'
+
+/**
+ * Schema Decoders Module
+ * Runtime checks for the payloads the widget receives from Zoho (PageLoad, Deals, Contacts,
+ * Contact Roles). Each decoder returns a typed value with safe defaults plus a list of schema
+ * warnings, instead of trusting a cast and crashing later on a renamed field or a null lookup.
+ */
+
+export interface SchemaWarning {
+  // Location of the problem, e.g. "Deals.Subform_1[2].Products"
+  path: string
+  message: string
+}
+
+export interface DecodeResult<T> {
+  value: T
+  warnings: SchemaWarning[]
+}
+
+type UnknownRecord = Record<string, unknown>
+
+// Deal text fields the validation, address and PM Request builders read
+const DEAL_TEXT_FIELDS = [
+  'Deal_Name',
+  'Description',
+  'Curent_Services',
+  'Circuit_Id',
+  'Data_Interface_Type',
+  'Contract_ID_ADIVB_Number',
+  'Account_Number',
+  'Deal_Department',
+  'Street',
+  'City',
+  'State',
+  'Zip_Code1',
+  'Service_Street',
+  'Service_City',
+  'Service_State',
+  'Service_Zip_Code',
+  'MAC_P',
+  'Previous_Deal_Disconnect'
+]
+
+/**
+ * Decodes the PageLoad event payload ({ Entity, EntityId, data })
+ * @param raw - Payload passed to the PageLoad listener
+ * @returns Decoded payload, or null when it has no deal data at all
+ */
+export function decodePageLoadData(raw: unknown): DecodeResult<ZohoPageLoadData | null> {
+  if (!isRecord(raw) || !isRecord(raw.data)) {
+    return {
+      value: null,
+      warnings: [{ path: 'PageLoad.data', message: 'PageLoad payload has no deal data' }]
+    }
+  }
+
+  const deal = decodeDealData(raw.data)
+  return {
+    value: { ...raw, data: deal.value } as ZohoPageLoadData,
+    warnings: deal.warnings
+  }
+}
+
+/**
+ * Decodes a Deal as delivered by PageLoad
+ */
+export function decodeDealData(raw: unknown): DecodeResult<ZohoDealData> {
+  const { value, warnings } = decodeDealFields(raw)
+  return { value: value as unknown as ZohoDealData, warnings }
+}
+
+/**
+ * Decodes a Deal returned by getRecord('Deals', id)
+ */
+export function decodeDealRecord(raw: unknown): DecodeResult<ZohoDealRecord> {
+  const { value, warnings } = decodeDealFields(raw)
+  return { value: value as ZohoDealRecord, warnings }
+}
+
+/**
+ * Decodes one Subform_1 row, filling safe defaults for malformed values
+ * A missing Products lookup is kept as null (sending a made-up id back to Zoho would be rejected)
+ * @param raw - Raw subform row
+ * @param path - Path used in warnings
+ */
+export function decodeProductSubform(raw: unknown, path = 'Subform_1[]'): DecodeResult<ZohoProductSubform> {
+  const warnings: SchemaWarning[] = []
+  const row: UnknownRecord = isRecord(raw) ? raw : {}
+
+  let products: ZohoProductSubform['Products'] = null
+  if (isRecord(row.Products) && typeof row.Products.id === 'string') {
+    products = {
+      ...row.Products,
+      id: row.Products.id,
+      name: typeof row.Products.name === 'string' ? row.Products.name : ''
+    }
+    if (!products.name) {
+      warnings.push({ path: `${path}.Products.name`, message: 'Product lookup has no name' })
+    }
+  } else {
+    warnings.push({ path: `${path}.Products`, message: 'Product lookup is missing' })
+  }
+
+  const value: ZohoProductSubform = {
+    ...row,
+    id: readText(row, 'id', path, warnings, true),
+    Is_Contract: readBoolean(row, 'Is_Contract', path, warnings),
+    Main_Product: readBoolean(row, 'Main_Product', path, warnings),
+    Products: products,
+    Product_Type: readText(row, 'Product_Type', path, warnings, true),
+    Quantity: readNumber(row, 'Quantity', path, warnings),
+    Terms: readText(row, 'Terms', path, warnings, true),
+    Pricing: readNumber(row, 'Pricing', path, warnings),
+    Total_Pricing: readText(row, 'Total_Pricing', path, warnings, true) || '0',
+    Vendor: typeof row.Vendor === 'string' ? row.Vendor : null
+  }
+
+  return { value, warnings }
+}
+
+/**
+ * Decodes a Contact returned by getRecord('Contacts', id)
+ */
+export function decodeContact(raw: unknown): DecodeResult<ZohoContact> {
+  const warnings: SchemaWarning[] = []
+  const record: UnknownRecord = isRecord(raw) ? raw : {}
+
+  if (typeof record.id !== 'string' || !record.id) {
+    warnings.push({ path: 'Contacts.id', message: 'Contact record has no id' })
+  }
+
+  const value: ZohoContact = {
+    ...record,
+    id: typeof record.id === 'string' ? record.id : '',
+    Email: readOptionalText(record, 'Email', 'Contacts', warnings),
+    Phone: readOptionalText(record, 'Phone', 'Contacts', warnings)
+  }
+
+  return { value, warnings }
+}
+
+/**
+ * Decodes a CONNECTION.invoke response for /Deals/{id}/Contact_Roles
+ * Rows without a contact id are dropped; rows without a role keep an empty role name
+ */
+export function decodeContactRolesResponse(raw: unknown): DecodeResult<ZohoConnectionResponse> {
+  const warnings: SchemaWarning[] = []
+  const response: UnknownRecord = isRecord(raw) ? raw : {}
+  const details = isRecord(response.details) ? response.details : {}
+  const statusMessage = isRecord(details.statusMessage) ? details.statusMessage : null
+
+  // Connections answer 204 (no statusMessage body) when the deal has no contact roles
+  const rawRows = statusMessage && Array.isArray(statusMessage.data) ? statusMessage.data : []
+  if (statusMessage && statusMessage.data !== undefined && !Array.isArray(statusMessage.data)) {
+    warnings.push({ path: 'Contact_Roles.data', message: 'Expected an array of contact roles' })
+  }
+
+  const roles: ZohoContactRole[] = []
+  rawRows.forEach((rawRole, index) => {
+    const path = `Contact_Roles.data[${index}]`
+    if (!isRecord(rawRole) || typeof rawRole.id !== 'string' || !rawRole.id) {
+      warnings.push({ path: `${path}.id`, message: 'Contact role has no contact id and was skipped' })
+      return
+    }
+
+    const contactRole = isRecord(rawRole.Contact_Role) ? rawRole.Contact_Role : null
+    if (!contactRole || typeof contactRole.name !== 'string') {
+      warnings.push({ path: `${path}.Contact_Role`, message: 'Contact role has no role name' })
+    }
+
+    roles.push({
+      ...rawRole,
+      id: rawRole.id,
+      Contact_Role: {
+        id: contactRole && typeof contactRole.id === 'string' ? contactRole.id : '',
+        name: contactRole && typeof contactRole.name === 'string' ? contactRole.name : ''
+      },
+      Full_Name: readOptionalText(rawRole, 'Full_Name', path, warnings),
+      Email: readOptionalText(rawRole, 'Email', path, warnings),
+      Phone: readOptionalText(rawRole, 'Phone', path, warnings)
+    })
+  })
+
+  const value: ZohoConnectionResponse = {
+    ...response,
+    code: typeof response.code === 'string' ? response.code : undefined,
+    status: typeof response.status === 'string' ? response.status : undefined,
+    details: {
+      ...details,
+      statusMessage: statusMessage
+        ? { ...statusMessage, data: roles } as NonNullable<ZohoConnectionResponse['details']>['statusMessage']
+        : undefined
+    }
+  }
+
+  return { value, warnings }
+}
+
+/**
+ * Decodes the getCurrentUser response ({ users: [{ id, full_name, email, profile, role }] })
+ * @returns The user, or null when the response has no user with an id
+ */
+export function decodeCurrentUserResponse(raw: unknown): DecodeResult<ZohoCurrentUser | null> {
+  const warnings: SchemaWarning[] = []
+  const response: UnknownRecord = isRecord(raw) ? raw : {}
+  const rawUser = Array.isArray(response.users) ? response.users[0] : undefined
+
+  if (!isRecord(rawUser) || typeof rawUser.id !== 'string' || !rawUser.id) {
+    warnings.push({ path: 'users[0].id', message: 'Current user response has no user id' })
+    return { value: null, warnings }
+  }
+
+  const profile = isRecord(rawUser.profile) ? rawUser.profile : null
+  if (!profile || typeof profile.name !== 'string') {
+    warnings.push({ path: 'users[0].profile', message: 'Current user has no profile name' })
+  }
+  const role = isRecord(rawUser.role) ? rawUser.role : null
+
+  const value: ZohoCurrentUser = {
+    id: rawUser.id,
+    name: readOptionalText(rawUser, 'full_name', 'users[0]', warnings) ?? '',
+    email: readOptionalText(rawUser, 'email', 'users[0]', warnings) ?? '',
+    profile: profile && typeof profile.name === 'string' ? profile.name : '',
+    role: role && typeof role.name === 'string' ? role.name : ''
+  }
+
+  return { value, warnings }
+}
+
+/**
+ * Describes what is wrong with a product row, for inline display (empty when the row is fine)
+ */
+export function getProductRowIssues(product: ZohoProductSubform): string[] {
+  const issues: string[] = []
+  if (!product.Products?.id) issues.push('Product lookup is missing')
+  else if (!product.Products.name) issues.push('Product lookup has no name')
+  if (!product.Product_Type) issues.push('Product Type is empty')
+  return issues
+}
+
+/**
+ * Display name for a product row, tolerating a missing lookup
+ */
+export function getProductName(product: ZohoProductSubform): string {
+  return product.Products?.name || 'Unnamed product'
+}
+
+/**
+ * Sends schema warnings to the console and the debug panel
+ * @param source - Payload the warnings belong to (e.g. "PageLoad", "getRecord Deals/123")
+ * @param warnings - Warnings returned by a decoder
+ */
+export function reportSchemaWarnings(source: string, warnings: SchemaWarning[]): void {
+  if (warnings.length === 0) {
+    return
+  }
+
+  console.warn(`⚠️ ${source}: ${warnings.length} schema warning(s)`, warnings)
+  warnings.forEach(warning => {
+    recordDebugEvent({
+      level: 'warning',
+      category: 'schema',
+      message: `${source}: ${warning.path} - ${warning.message}`,
+      details: warning
+    })
+  })
+}
+
+/**
+ * Shared Deal decoding for PageLoad and getRecord payloads
+ */
+function decodeDealFields(raw: unknown): DecodeResult<UnknownRecord & { id: string }> {
+  const warnings: SchemaWarning[] = []
+  const deal: UnknownRecord = isRecord(raw) ? raw : {}
+
+  if (!isRecord(raw)) {
+    warnings.push({ path: 'Deals', message: 'Deal payload is not an object' })
+  }
+  if (typeof deal.id !== 'string' || !deal.id) {
+    warnings.push({ path: 'Deals.id', message: 'Deal has no id' })
+  }
+
+  for (const field of DEAL_TEXT_FIELDS) {
+    const value = deal[field]
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      warnings.push({ path: `Deals.${field}`, message: `Expected text, got ${typeof value}` })
+    }
+  }
+
+  if (deal.Account_Name !== undefined && deal.Account_Name !== null &&
+      typeof deal.Account_Name !== 'string' && !isRecord(deal.Account_Name)) {
+    warnings.push({ path: 'Deals.Account_Name', message: 'Expected an Account lookup' })
+  }
+
+  const subform: ZohoProductSubform[] = []
+  if (Array.isArray(deal.Subform_1)) {
+    deal.Subform_1.forEach((rawRow, index) => {
+      const path = `Deals.Subform_1[${index}]`
+      if (!isRecord(rawRow)) {
+        warnings.push({ path, message: 'Subform row is not an object and was skipped' })
+        return
+      }
+      const row = decodeProductSubform(rawRow, path)
+      warnings.push(...row.warnings)
+      subform.push(row.value)
+    })
+  } else if (deal.Subform_1 !== undefined && deal.Subform_1 !== null) {
+    warnings.push({ path: 'Deals.Subform_1', message: 'Expected an array of product rows' })
+  }
+
+  return {
+    value: {
+      ...deal,
+      id: typeof deal.id === 'string' ? deal.id : '',
+      Subform_1: subform
+    },
+    warnings
+  }
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readBoolean(row: UnknownRecord, key: string, path: string, warnings: SchemaWarning[]): boolean {
+  const value = row[key]
+  if (typeof value === 'boolean') return value
+  if (value !== undefined && value !== null) {
+    warnings.push({ path: `${path}.${key}`, message: `Expected true/false, got ${JSON.stringify(value)}` })
+  }
+  return value === 'true' || value === 1
+}
+
+function readNumber(row: UnknownRecord, key: string, path: string, warnings: SchemaWarning[]): number {
+  const value = row[key]
+  if (typeof value === 'number' && !isNaN(value)) return value
+
+  const parsed = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : NaN
+  if (!isNaN(parsed)) return parsed
+
+  warnings.push({ path: `${path}.${key}`, message: `Expected a number, got ${JSON.stringify(value ?? null)}` })
+  return 0
+}
+
+function readText(row: UnknownRecord, key: string, path: string, warnings: SchemaWarning[], required = false): string {
+  const value = row[key]
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return String(value)
+  if (required || (value !== undefined && value !== null)) {
+    warnings.push({ path: `${path}.${key}`, message: `Expected text, got ${JSON.stringify(value ?? null)}` })
+  }
+  return ''
+}
+
+function readOptionalText(row: UnknownRecord, key: string, path: string, warnings: SchemaWarning[]): string | undefined {
+  const value = row[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value === 'string') return value
+  warnings.push({ path: `${path}.${key}`, message: `Expected text, got ${typeof value}` })
+  return String(value)
+}
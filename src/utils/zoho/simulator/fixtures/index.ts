@@ -0,0 +1,20 @@
+import type { SimulatorFixtures, SimulatorRecord } from '../recordStore'
+import deals from './Deals.json'
+import contacts from './Contacts.json'
+import accounts from './Accounts.json'
+import contactRoles from './Contact_Roles.json'
+import pmRequests from './PM_REQUEST.json'
+
+/**
+ * Default simulator fixtures
+ * Edit the JSON files in this folder to change the data the local simulator serves
+ */
+export const defaultFixtures: SimulatorFixtures = {
+  records: {
+    Deals: deals as SimulatorRecord[],
+    Contacts: contacts as SimulatorRecord[],
+    Accounts: accounts as SimulatorRecord[],
+    PM_REQUEST: pmRequests as SimulatorRecord[]
+  },
+  contactRoles: contactRoles as Record<string, SimulatorRecord[]>
+}
@@ -0,0 +1,25 @@
+/**
+ * Local Zoho SDK simulator - lets the widget run outside of Zoho CRM
+ * Enable with ?simulator in the URL or VITE_ZOHO_SIMULATOR=true, pick the PageLoad deal with ?deal=<id>
+ */
+
+import { defaultFixtures } from './fixtures'
+import { installZohoSimulator, type ZohoSimulator } from './zohoSimulator'
+
+export { createZohoSimulator, installZohoSimulator } from './zohoSimulator'
+export type { ZohoSimulator, ZohoSimulatorOptions, SimulatedFault } from './zohoSimulator'
+export { createRecordStore } from './recordStore'
+export type { RecordStore, SimulatorFixtures, SimulatorRecord, SimulatorUser } from './recordStore'
+export { defaultFixtures } from './fixtures'
+
+/**
+ * Installs the simulator with the bundled JSON fixtures
+ * @param dealId - Fixture deal to send with the PageLoad event
+ * @returns The installed simulator
+ */
+export function installDefaultZohoSimulator(dealId?: string): ZohoSimulator {
+  return installZohoSimulator({
+    fixtures: defaultFixtures,
+    dealId
+  })
+}
@@ -0,0 +1,274 @@
+/**
+ * Simulator Record Store Module
+ * In-memory copy of the fixture data that the local Zoho SDK simulator reads and writes
+ */
+
+export interface SimulatorRecord extends Record<string, unknown> {
+  id: string
+}
+
+export interface SimulatorFixtures {
+  // Records keyed by module API name (Deals, Contacts, Accounts, PM_REQUEST, ...)
+  records: Record<string, SimulatorRecord[]>
+  // Contact Roles keyed by Deal ID, as returned by /Deals/{id}/Contact_Roles
+  contactRoles: Record<string, SimulatorRecord[]>
+}
+
+export interface SimulatorUser {
+  id: string
+  name: string
+  email?: string
+  // CRM profile returned by getCurrentUser (e.g. "Administrator", "Standard")
+  profile?: string
+  role?: string
+}
+
+export interface RecordStore {
+  getRecord(module: string, recordId: string): SimulatorRecord | null
+  insertRecord(module: string, data: Record<string, unknown>): SimulatorRecord
+  updateRecord(module: string, recordId: string, data: Record<string, unknown>): SimulatorRecord | null
+  searchRecords(module: string, criteria: string): SimulatorRecord[]
+  getContactRoles(dealId: string): SimulatorRecord[]
+  // Stores a file against a record, as an Attachments row; null when the record does not exist
+  attachFile(module: string, recordId: string, file: { name: string; content: Blob }): SimulatorRecord | null
+  getAttachments(module: string, recordId: string): SimulatorRecord[]
+  // Content of an uploaded file (e.g. to open a generated PDF from the browser console)
+  getAttachmentContent(attachmentId: string): Blob | null
+  listRecords(module: string): SimulatorRecord[]
+  snapshot(): SimulatorFixtures
+}
+
+// Lookup fields that Zoho returns as { name, id } objects even when written as a plain ID
+const LOOKUP_FIELDS: Record<string, Record<string, string>> = {
+  PM_REQUEST: {
+    Deals: 'Deals',
+    Contact_Person: 'Contacts'
+  },
+  Deals: {
+    Account_Name: 'Accounts',
+    Contact_Name: 'Contacts'
+  },
+  Contacts: {
+    Account_Name: 'Accounts'
+  }
+}
+
+// Field used as the display name of a record when it is referenced by a lookup
+const NAME_FIELDS: Record<string, string> = {
+  Deals: 'Deal_Name',
+  Contacts: 'Full_Name',
+  Accounts: 'Account_Name'
+}
+
+/**
+ * Creates an in-memory record store seeded with a deep copy of the fixtures
+ * @param fixtures - Fixture data to seed the store with
+ * @param currentUser - User recorded as Created_By / Modified_By on writes
+ * @returns Record store used by the simulator
+ */
+export function createRecordStore(fixtures: SimulatorFixtures, currentUser: SimulatorUser): RecordStore {
+  const records: Record<string, SimulatorRecord[]> = structuredClone(fixtures.records)
+  const contactRoles: Record<string, SimulatorRecord[]> = structuredClone(fixtures.contactRoles)
+  // Attachment files are kept out of the records so snapshots stay plain data
+  const attachmentContents = new Map<string, Blob>()
+  let idCounter = 0
+
+  const generateId = (): string => {
+    idCounter += 1
+    return `${Date.now()}${String(idCounter).padStart(6, '0')}`
+  }
+
+  const moduleRecords = (module: string): SimulatorRecord[] => {
+    if (!records[module]) {
+      records[module] = []
+    }
+    return records[module]
+  }
+
+  const resolveLookups = (module: string, data: Record<string, unknown>): Record<string, unknown> => {
+    const lookups = LOOKUP_FIELDS[module] || {}
+    const resolved: Record<string, unknown> = { ...data }
+
+    for (const [field, targetModule] of Object.entries(lookups)) {
+      const value = resolved[field]
+      if (typeof value === 'string' && value !== '') {
+        const target = moduleRecords(targetModule).find(record => record.id === value)
+        const nameField = NAME_FIELDS[targetModule] || 'Name'
+        resolved[field] = { id: value, name: target ? String(target[nameField] ?? '') : '' }
+      }
+    }
+
+    return resolved
+  }
+
+  const applyUpdate = (existing: SimulatorRecord, data: Record<string, unknown>): SimulatorRecord => {
+    const updated: SimulatorRecord = { ...existing }
+
+    for (const [field, value] of Object.entries(data)) {
+      if (field === 'id') continue
+
+      const current = existing[field]
+      if (Array.isArray(value) && Array.isArray(current)) {
+        updated[field] = mergeSubformRows(current as SimulatorRecord[], value as Record<string, unknown>[], generateId)
+      } else {
+        updated[field] = value
+      }
+    }
+
+    return updated
+  }
+
+  const stamp = (): Record<string, unknown> => ({
+    Modified_Time: new Date().toISOString(),
+    Modified_By: { name: currentUser.name, id: currentUser.id }
+  })
+
+  return {
+    getRecord(module, recordId) {
+      const record = moduleRecords(module).find(candidate => candidate.id === recordId)
+      return record ? structuredClone(record) : null
+    },
+
+    insertRecord(module, data) {
+      const now = new Date().toISOString()
+      const record: SimulatorRecord = {
+        ...resolveLookups(module, data),
+        id: generateId(),
+        Created_Time: now,
+        Created_By: { name: currentUser.name, id: currentUser.id },
+        ...stamp()
+      }
+      moduleRecords(module).push(record)
+      return structuredClone(record)
+    },
+
+    updateRecord(module, recordId, data) {
+      const list = moduleRecords(module)
+      const index = list.findIndex(candidate => candidate.id === recordId)
+      if (index === -1) {
+        return null
+      }
+
+      list[index] = { ...applyUpdate(list[index], resolveLookups(module, data)), ...stamp() }
+      return structuredClone(list[index])
+    },
+
+    searchRecords(module, criteria) {
+      const matches = moduleRecords(module).filter(record => matchesCriteria(record, criteria))
+      return structuredClone(matches)
+    },
+
+    getContactRoles(dealId) {
+      return structuredClone(contactRoles[dealId] || [])
+    },
+
+    attachFile(module, recordId, file) {
+      const parent = moduleRecords(module).find(candidate => candidate.id === recordId)
+      if (!parent) {
+        return null
+      }
+
+      const now = new Date().toISOString()
+      const attachment: SimulatorRecord = {
+        id: generateId(),
+        File_Name: file.name,
+        Size: String(file.content.size),
+        Parent_Id: { id: recordId, name: String(parent[NAME_FIELDS[module] || 'Name'] ?? '') },
+        $se_module: module,
+        Created_Time: now,
+        Created_By: { name: currentUser.name, id: currentUser.id },
+        ...stamp()
+      }
+      moduleRecords('Attachments').push(attachment)
+      attachmentContents.set(attachment.id, file.content)
+      return structuredClone(attachment)
+    },
+
+    getAttachments(module, recordId) {
+      return structuredClone(moduleRecords('Attachments').filter(attachment =>
+        attachment.$se_module === module && readComparableValue(attachment.Parent_Id) === recordId
+      ))
+    },
+
+    getAttachmentContent(attachmentId) {
+      return attachmentContents.get(attachmentId) ?? null
+    },
+
+    listRecords(module) {
+      return structuredClone(moduleRecords(module))
+    },
+
+    snapshot() {
+      return structuredClone({ records, contactRoles })
+    }
+  }
+}
+
+/**
+ * Applies Zoho's subform write semantics to an existing set of rows:
+ * rows sent with a known id are updated, rows without an id are created,
+ * and existing rows that are not sent are deleted
+ */
+function mergeSubformRows(
+  existingRows: SimulatorRecord[],
+  incomingRows: Record<string, unknown>[],
+  generateId: () => string
+): SimulatorRecord[] {
+  return incomingRows.map(row => {
+    const rowId = typeof row.id === 'string' ? row.id : ''
+    const existing = rowId ? existingRows.find(candidate => candidate.id === rowId) : undefined
+
+    if (existing) {
+      return { ...existing, ...row, id: existing.id }
+    }
+
+    return { ...row, id: generateId() }
+  })
+}
+
+/**
+ * Evaluates a Zoho search criteria string such as
+ * "((Deals:equals:123)and(Status:equals:Pending))" against a record.
+ * Supports equals, not_equal and starts_with joined by a single and/or operator.
+ */
+function matchesCriteria(record: SimulatorRecord, criteria: string): boolean {
+  const conditionPattern = /\(([^():]+):(equals|not_equal|starts_with):([^()]*)\)/g
+  const conditions = Array.from(criteria.matchAll(conditionPattern))
+
+  if (conditions.length === 0) {
+    return false
+  }
+
+  const results = conditions.map(([, field, operator, expected]) => {
+    const actual = readComparableValue(record[field.trim()])
+    const value = expected.trim()
+
+    switch (operator) {
+      case 'equals':
+        return actual === value
+      case 'not_equal':
+        return actual !== value
+      case 'starts_with':
+        return actual.toLowerCase().startsWith(value.toLowerCase())
+      default:
+        return false
+    }
+  })
+
+  return /\)\s*or\s*\(/i.test(criteria)
+    ? results.some(Boolean)
+    : results.every(Boolean)
+}
+
+/**
+ * Lookups are compared by their id, everything else by its string value
+ */
+function readComparableValue(value: unknown): string {
+  if (value && typeof value === 'object' && 'id' in value) {
+    return String((value as { id: unknown }).id)
+  }
+  if (value === null || value === undefined) {
+    return ''
+  }
+  return String(value)
+}
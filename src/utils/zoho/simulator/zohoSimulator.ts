@@ -0,0 +1,383 @@
+import { createRecordStore, type RecordStore, type SimulatorFixtures, type SimulatorRecord, type SimulatorUser } from './recordStore'
+
+/**
+ * Zoho SDK Simulator Module
+ * In-browser fake of ZOHO.embeddedApp, ZOHO.CRM.API and ZOHO.CRM.CONNECTION
+ * so the widget can run and be demoed outside of a CRM org
+ */
+
+export interface ZohoSimulatorOptions {
+  fixtures: SimulatorFixtures
+  // Deal passed to the PageLoad event (defaults to the first fixture deal)
+  dealId?: string
+  // Artificial delay applied to every API call, in milliseconds
+  latencyMs?: number
+  currentUser?: SimulatorUser
+}
+
+export interface SimulatedFault {
+  // Operation prefix to fail, e.g. "updateRecord", "insertRecord PM_REQUEST", "attachFile" or "CONNECTION.invoke"
+  operation: string
+  // Zoho error code to reject with (e.g. RATE_LIMIT_EXCEEDED, INTERNAL_ERROR)
+  code: string
+  status?: number
+  // How many matching calls should fail (defaults to 1)
+  times?: number
+  // 'reject' fails the promise; 'row' resolves with a non-SUCCESS write row, like Zoho does
+  // for rejected records (defaults to 'reject')
+  mode?: 'reject' | 'row'
+  // API name reported in details.api_name for 'row' faults (e.g. "Is_Contract")
+  field?: string
+  // Subform the field belongs to, reported as details.parent_api_name (e.g. "Subform_1")
+  parentField?: string
+}
+
+export interface ZohoSimulator {
+  sdk: SimulatedZohoSdk
+  client: SimulatedClientApi
+  store: RecordStore
+  dealId: string
+  // Makes the next matching call(s) reject, to exercise retries and error handling
+  injectFault: (fault: SimulatedFault) => void
+}
+
+interface SimulatedClientApi {
+  close: (options?: { exit?: boolean }) => void
+  on: (event: string, callback: (data: unknown) => void) => void
+  trigger: (event: string, data?: unknown) => void
+}
+
+interface SimulatedZohoSdk {
+  embeddedApp: {
+    on: (event: string, callback: (data: unknown) => void) => void
+    init: () => Promise<void>
+  }
+  CRM: {
+    API: {
+      getRecord: (config: Record<string, unknown>) => Promise<unknown>
+      updateRecord: (config: Record<string, unknown>) => Promise<unknown>
+      insertRecord: (config: Record<string, unknown>) => Promise<unknown>
+      searchRecord: (config: Record<string, unknown>) => Promise<unknown>
+      attachFile: (config: Record<string, unknown>) => Promise<unknown>
+    }
+    CONNECTION: {
+      invoke: (connectionName: string, options: Record<string, unknown>) => Promise<unknown>
+    }
+    CONFIG: {
+      getCurrentUser: () => Promise<unknown>
+    }
+    UI: {
+      Resize: (options: { height?: string | number; width?: string | number }) => Promise<void>
+      Popup: {
+        close: () => void
+        closeReload: () => void
+      }
+      Record: {
+        open: (options: { Entity: string; RecordID: string }) => Promise<void>
+        refresh: () => void
+      }
+    }
+  }
+}
+
+// Global handle for inspecting the simulator from the browser console
+declare global {
+  interface Window {
+    __zohoSimulator?: ZohoSimulator
+  }
+}
+
+const DEFAULT_USER: SimulatorUser = {
+  id: '5725767000000100099',
+  name: 'Simulator User',
+  email: 'simulator.user@example.com',
+  profile: 'Administrator',
+  role: 'CEO'
+}
+
+const CONTACT_ROLES_URL = /\/crm\/v\d+\/Deals\/([^/?]+)\/Contact_Roles/
+
+/**
+ * Creates a simulated Zoho SDK backed by an in-memory copy of the fixtures
+ * @param options - Fixtures, PageLoad deal and latency configuration
+ * @returns The simulated SDK objects and the record store behind them
+ */
+export function createZohoSimulator(options: ZohoSimulatorOptions): ZohoSimulator {
+  const { fixtures, latencyMs = 150, currentUser = DEFAULT_USER } = options
+  const store = createRecordStore(fixtures, currentUser)
+  const pageLoadListeners: Array<(data: unknown) => void> = []
+  const faults: Array<SimulatedFault & { times: number }> = []
+
+  const deals = store.listRecords('Deals')
+  const dealId = options.dealId && deals.some(deal => deal.id === options.dealId)
+    ? options.dealId
+    : deals[0]?.id || ''
+
+  if (options.dealId && dealId !== options.dealId) {
+    console.warn(`🧪 [Zoho Simulator] Deal ${options.dealId} not found in fixtures, using ${dealId}`)
+  }
+
+  const respond = async <T>(operation: string, handler: () => T): Promise<T> => {
+    await new Promise(resolve => setTimeout(resolve, latencyMs))
+
+    const fault = faults.find(candidate => candidate.times > 0 && operation.startsWith(candidate.operation))
+    if (fault) {
+      fault.times--
+      console.warn(`🧪 [Zoho Simulator] ${operation}: injected ${fault.code}`)
+
+      if (fault.mode === 'row') {
+        const details: Record<string, unknown> = {}
+        if (fault.field) details.api_name = fault.field
+        if (fault.parentField) details.parent_api_name = fault.parentField
+        return { data: [fail(fault.code, `Simulated ${fault.code} fault`, details)] } as T
+      }
+      throw { ...fail(fault.code, `Simulated ${fault.code} fault`), status: fault.status }
+    }
+
+    const result = handler()
+    console.log(`🧪 [Zoho Simulator] ${operation}:`, result)
+    return result
+  }
+
+  const fail = (code: string, message: string, details: Record<string, unknown> = {}) => ({
+    code,
+    message,
+    status: 'error',
+    details
+  })
+
+  const sdk: SimulatedZohoSdk = {
+    embeddedApp: {
+      on(event, callback) {
+        if (event === 'PageLoad') {
+          pageLoadListeners.push(callback)
+        }
+      },
+
+      async init() {
+        const deal = store.getRecord('Deals', dealId)
+        if (!deal) {
+          console.error('🧪 [Zoho Simulator] No deal available in fixtures for PageLoad')
+          return
+        }
+
+        await respond('PageLoad', () => deal)
+        const pageLoadData = { Entity: 'Deals', EntityId: [dealId], data: deal }
+        pageLoadListeners.forEach(listener => listener(pageLoadData))
+      }
+    },
+
+    CRM: {
+      API: {
+        getRecord(config) {
+          const entity = String(config.Entity)
+          const recordId = String(config.RecordID)
+
+          return respond(`getRecord ${entity}/${recordId}`, () => {
+            const record = store.getRecord(entity, recordId)
+            if (!record) {
+              throw fail('INVALID_DATA', 'the id given seems to be invalid', { id: recordId })
+            }
+            return { data: [record] }
+          })
+        },
+
+        updateRecord(config) {
+          const entity = String(config.Entity)
+          const apiData = (config.APIData || {}) as Record<string, unknown>
+          const recordId = String(apiData.id ?? config.RecordID ?? '')
+
+          return respond(`updateRecord ${entity}/${recordId}`, () => {
+            const updated = store.updateRecord(entity, recordId, apiData)
+            if (!updated) {
+              return { data: [{ ...fail('INVALID_DATA', 'the id given seems to be invalid', { id: recordId }) }] }
+            }
+            return { data: [successRow(updated, 'record updated')] }
+          })
+        },
+
+        insertRecord(config) {
+          const entity = String(config.Entity)
+          const apiData = (config.APIData || {}) as Record<string, unknown>
+
+          return respond(`insertRecord ${entity}`, () => {
+            const inserted = store.insertRecord(entity, apiData)
+            return { data: [successRow(inserted, 'record added')] }
+          })
+        },
+
+        searchRecord(config) {
+          const entity = String(config.Entity)
+          const criteria = String(config.Query ?? '')
+          const page = Number(config.page ?? 1)
+          const perPage = Number(config.per_page ?? 200)
+
+          return respond(`searchRecord ${entity} ${criteria}`, () => {
+            const matches = store.searchRecords(entity, criteria)
+            const pageRecords = matches.slice((page - 1) * perPage, page * perPage)
+            return {
+              data: pageRecords,
+              info: {
+                per_page: perPage,
+                count: pageRecords.length,
+                page,
+                more_records: page * perPage < matches.length
+              }
+            }
+          })
+        },
+
+        attachFile(config) {
+          const entity = String(config.Entity)
+          const recordId = String(config.RecordID)
+          const file = (config.File || {}) as { Name?: unknown; Content?: unknown }
+          const name = String(file.Name ?? '')
+
+          return respond(`attachFile ${entity}/${recordId} ${name}`, () => {
+            if (!(file.Content instanceof Blob)) {
+              throw fail('INVALID_DATA', 'the file content must be a Blob or File', { api_name: 'File' })
+            }
+            const attachment = store.attachFile(entity, recordId, { name, content: file.Content })
+            if (!attachment) {
+              return { data: [fail('INVALID_DATA', 'the id given seems to be invalid', { id: recordId })] }
+            }
+            return { data: [successRow(attachment, 'attachment uploaded successfully')] }
+          })
+        }
+      },
+
+      CONNECTION: {
+        invoke(connectionName, invokeOptions) {
+          const url = String(invokeOptions.url ?? '')
+          const method = String(invokeOptions.method ?? 'GET').toUpperCase()
+
+          return respond(`CONNECTION.invoke ${connectionName} ${method} ${url}`, () => {
+            const contactRolesMatch = url.match(CONTACT_ROLES_URL)
+            if (method === 'GET' && contactRolesMatch) {
+              return contactRolesResponse(store, contactRolesMatch[1], url)
+            }
+            throw fail('NOT_SUPPORTED', `Simulator does not support ${method} ${url}`)
+          })
+        }
+      },
+
+      CONFIG: {
+        getCurrentUser() {
+          return respond('getCurrentUser', () => ({
+            users: [{
+              id: currentUser.id,
+              full_name: currentUser.name,
+              email: currentUser.email ?? '',
+              profile: { id: `${currentUser.id}_profile`, name: currentUser.profile ?? 'Standard' },
+              role: { id: `${currentUser.id}_role`, name: currentUser.role ?? '' }
+            }]
+          }))
+        }
+      },
+
+      UI: {
+        Resize: async () => undefined,
+        Popup: {
+          close: () => console.log('🧪 [Zoho Simulator] Popup.close called'),
+          closeReload: () => console.log('🧪 [Zoho Simulator] Popup.closeReload called')
+        },
+        Record: {
+          open: async ({ Entity, RecordID }) => {
+            console.log(`🧪 [Zoho Simulator] Record.open ${Entity}/${RecordID}`, store.getRecord(Entity, RecordID), {
+              attachments: store.getAttachments(Entity, RecordID)
+            })
+          },
+          refresh: () => console.log('🧪 [Zoho Simulator] Record.refresh called')
+        }
+      }
+    }
+  }
+
+  const client: SimulatedClientApi = {
+    close: (closeOptions) => console.log('🧪 [Zoho Simulator] $Client.close called', closeOptions),
+    on: () => undefined,
+    trigger: (event, data) => console.log(`🧪 [Zoho Simulator] $Client.trigger ${event}`, data)
+  }
+
+  const injectFault = (fault: SimulatedFault) => {
+    faults.push({ times: 1, ...fault })
+  }
+
+  return { sdk, client, store, dealId, injectFault }
+}
+
+/**
+ * Installs the simulator as window.ZOHO and $Client, replacing any SDK already loaded
+ * @param options - Fixtures, PageLoad deal and latency configuration
+ * @returns The installed simulator (also available as window.__zohoSimulator)
+ */
+export function installZohoSimulator(options: ZohoSimulatorOptions): ZohoSimulator {
+  const simulator = createZohoSimulator(options)
+
+  window.ZOHO = simulator.sdk as unknown as Window['ZOHO']
+  ;(globalThis as unknown as { $Client: SimulatedClientApi }).$Client = simulator.client
+  window.__zohoSimulator = simulator
+
+  console.log('🧪 [Zoho Simulator] Installed with PageLoad deal:', simulator.dealId)
+  return simulator
+}
+
+/**
+ * Builds a Zoho write response row for a successful insert or update
+ */
+function successRow(record: SimulatorRecord, message: string) {
+  return {
+    code: 'SUCCESS',
+    details: {
+      Modified_Time: record.Modified_Time,
+      Modified_By: record.Modified_By,
+      Created_Time: record.Created_Time,
+      Created_By: record.Created_By,
+      id: record.id
+    },
+    message,
+    status: 'success'
+  }
+}
+
+/**
+ * Builds a CONNECTION.invoke response for /Deals/{id}/Contact_Roles,
+ * honouring the fields, per_page and page_token query parameters
+ */
+function contactRolesResponse(store: RecordStore, dealId: string, url: string) {
+  const params = new URL(url, 'https://www.zohoapis.com').searchParams
+  const fields = (params.get('fields') || '').split(',').map(field => field.trim()).filter(Boolean)
+  const perPage = Number(params.get('per_page') || 200)
+  const offset = Number((params.get('page_token') || '').replace('sim_', '') || 0)
+
+  const roles = store.getContactRoles(dealId).map(role => {
+    const contact: Record<string, unknown> = store.getRecord('Contacts', role.id) || {}
+    const row: Record<string, unknown> = { id: role.id, Contact_Role: role.Contact_Role }
+    for (const field of fields) {
+      row[field] = role[field] ?? contact[field] ?? null
+    }
+    return row
+  })
+
+  const pageRows = roles.slice(offset, offset + perPage)
+  const hasMore = offset + perPage < roles.length
+
+  return {
+    code: 'SUCCESS',
+    status: 'success',
+    message: 'Connection invoked successfully',
+    details: {
+      status: 'true',
+      statusMessage: {
+        data: pageRows,
+        info: {
+          per_page: perPage,
+          count: pageRows.length,
+          page: Math.floor(offset / perPage) + 1,
+          next_page_token: hasMore ? `sim_${offset + perPage}` : null,
+          previous_page_token: offset > 0 ? `sim_${Math.max(offset - perPage, 0)}` : null
+        }
+      }
+    }
+  }
+}
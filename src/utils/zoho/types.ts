@@ -4,6 +4,13 @@ export interface ZohoApiResponse {
   data: unknown[]
   status: string
   message?: string
+  // Paging details of searchRecord responses
+  info?: {
+    page?: number
+    per_page?: number
+    count?: number
+    more_records?: boolean
+  }
 }
 
 export interface ZohoUpdateResponse {
@@ -59,7 +66,9 @@ export interface ZohoContactRole {
     name: string
     id: string
   }
+  Full_Name?: string
   Email?: string
+  Phone?: string
   Contact?: {
     id: string
     name: string
@@ -86,6 +95,25 @@ export interface ZohoConnectionResponse {
   }
 }
 
+// CRM user running the widget (ZOHO.CRM.CONFIG.getCurrentUser)
+export interface ZohoCurrentUser {
+  id: string
+  name: string
+  email: string
+  // Profile name, e.g. "Administrator"
+  profile: string
+  // Role name, e.g. "CEO"
+  role: string
+}
+
+export interface ZohoConnectionRequest {
+  url: string
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  param_type?: number
+  parameters?: Record<string, unknown>
+  headers?: Record<string, string>
+}
+
 export interface ZohoExtendedWindow {
   ZOHO?: {
     CRM?: {
@@ -93,13 +121,16 @@ export interface ZohoExtendedWindow {
         getRecord?: (config: Record<string, unknown>) => Promise<unknown>
         updateRecord?: (config: Record<string, unknown>) => Promise<unknown>
         insertRecord?: (config: Record<string, unknown>) => Promise<unknown>
-        searchRecords?: (config: Record<string, unknown>) => Promise<unknown>
+        searchRecord?: (config: Record<string, unknown>) => Promise<unknown>
+        attachFile?: (config: Record<string, unknown>) => Promise<unknown>
       }
       CONNECTION?: {
         invoke?: (connectionName: string, options: Record<string, unknown>) => Promise<unknown>
       }
       UI?: Record<string, unknown>
-      CONFIG?: Record<string, unknown>
+      CONFIG?: {
+        getCurrentUser?: () => Promise<unknown>
+      }
     }
     embeddedApp?: Record<string, unknown>
   }
@@ -1,52 +1,90 @@
-import type { ZohoDealRecord } from '../types'
-import type { ZohoDealData } from '../../../types/zoho'
+import type { Deal } from '../../../types/deal'
+import { DEAL_FIELD_API_NAMES } from '../deal/dealAdapters'
+import type { AddressInfo } from '../address/addressProcessing'
+import {
+  findProductFieldRule,
+  getRequiredDealFields,
+  REQUIRED_FIELD_LABELS,
+  type RequiredDealField
+} from '../rules/productFieldRules'
+import { getRequestTypeRule, type PMRequestType } from '../rules/requestTypeRules'
 
 /**
  * PM Request Validation Module
- * Handles all validation logic for PM Request generation
+ * Handles all validation logic for PM Request generation. Errors block the request; warnings
+ * are shown to the user and must be acknowledged before the request is created.
  */
 
-// Type for deal data that can be either format
-type DealDataInput = ZohoDealRecord | ZohoDealData
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationIssueCode =
+  | 'NO_CONTRACT_PRODUCT'
+  | 'MISSING_REQUIRED_FIELD'
+  | 'CONTACT_WITHOUT_PHONE'
+  | 'BILLING_EQUALS_SERVICE_ADDRESS'
+  | 'ZERO_MRC'
+  | 'REQUEST_TYPE_NOT_FLAGGED'
+
+export interface ValidationIssue {
+  severity: ValidationSeverity
+  code: ValidationIssueCode
+  message: string
+  // Zoho API name of the affected field, when there is one
+  field: string | null
+}
+
+export interface PMRequestValidationInput {
+  productType: string
+  term: string
+  deal: Deal
+  // Defaults to 'Contract'
+  requestType?: PMRequestType
+  // Phone of the PM Request contact; undefined while the contact is not known yet
+  contactPhone?: string
+  // Formatted service and billing addresses
+  addresses?: AddressInfo
+  // MRC of the contract product group
+  mrcTotal?: number
+}
+
+// Deal API names behind the field labels returned by validateRequiredFieldsForPMRequest
+export const REQUIRED_FIELD_API_NAMES: Record<string, string> = Object.fromEntries(
+  (Object.keys(REQUIRED_FIELD_LABELS) as RequiredDealField[]).map(field => [
+    REQUIRED_FIELD_LABELS[field],
+    DEAL_FIELD_API_NAMES[field]
+  ])
+)
 
 /**
  * Validates required fields for PM Request generation based on Product Type and Term combinations
+ * The required fields come from the product field rules table (rules/productFieldRulesConfig.ts)
  * @param productType - The product type (e.g., "AT&T Complex", "ACC Complex")
  * @param term - The term (e.g., "12", "24", "36", "MTM", "12 Renewal", etc.)
- * @param dealData - The Zoho deal record data
+ * @param deal - The deal to validate
  * @returns Array of missing field names
  */
 export function validateRequiredFieldsForPMRequest(
   productType: string, 
   term: string, 
-  dealData: DealDataInput
+  deal: Deal
 ): string[] {
-  const missingFields: string[] = []
-  const normalizedProductType = productType.replace(/-/g, ' ').trim()
-  const normalizedTerm = term.replace(/-/g, ' ').trim()
+  const rule = findProductFieldRule(productType, term)
+  const requiredFields = getRequiredDealFields(productType, term)
   
   console.log('🔍 PM Request Validation for:', { 
-    originalProductType: productType,
-    normalizedProductType, 
-    originalTerm: term,
-    normalizedTerm,
-    dealDataFields: {
-      Description: dealData.Description,
-      Curent_Services: dealData.Curent_Services,
-      Circuit_Id: dealData.Circuit_Id,
-      Data_Interface_Type: dealData.Data_Interface_Type,
-      Contract_ID_ADIVB_Number: dealData.Contract_ID_ADIVB_Number
-    }  })
-  
-  // Validate basic required fields
-  missingFields.push(...validateBasicRequiredFields(dealData, normalizedProductType, normalizedTerm))
+    productType,
+    term,
+    matchedRule: rule?.id ?? '(none - base required fields only)',
+    requiredFields
+  })
   
-  // Validate product-specific required fields
-  missingFields.push(...validateProductSpecificFields(dealData, normalizedProductType, normalizedTerm))
+  const missingFields = requiredFields
+    .filter(field => isFieldEmpty(deal[field]))
+    .map(field => REQUIRED_FIELD_LABELS[field])
   
   console.log('📊 Validation Summary:', {
-    productType: normalizedProductType,
-    term: normalizedTerm,
+    productType,
+    term,
     missingFieldsCount: missingFields.length,
     missingFields: missingFields
   })
@@ -55,149 +93,112 @@ export function validateRequiredFieldsForPMRequest(
 }
 
 /**
- * Validates basic required fields (always required for PM Request generation)
+ * Runs every PM Request check - required fields (errors) and warnings
+ * @param input - Product, deal, and whatever contact, address and MRC details are known
+ * @returns Issues, errors first
  */
-function validateBasicRequiredFields(
-  dealData: DealDataInput, 
-  normalizedProductType: string, 
-  normalizedTerm: string
-): string[] {
-  const missingFields: string[] = []
-  const isFieldEmpty = (value: string | undefined | null): boolean => {
-    return !value || value.toString().trim() === ''
-  }
+export function validatePMRequest(input: PMRequestValidationInput): ValidationIssue[] {
+  return [
+    ...getRequiredFieldIssues(input.productType, input.term, input.deal, input.requestType),
+    ...getPMRequestWarnings(input)
+  ]
+}
 
-  console.log('📋 Checking basic required fields...')
-  
-  // Description
-  if (isFieldEmpty(dealData.Description)) {
-    missingFields.push('Description')
-    console.log('❌ Missing: Description')
-  } else {
-    console.log('✅ Found: Description =', dealData.Description)
-  }
-  
-  // Current Services
-  if (isFieldEmpty(dealData.Curent_Services)) {
-    missingFields.push('Current Services')
-    console.log('❌ Missing: Current Services')
-  } else {
-    console.log('✅ Found: Current Services =', dealData.Curent_Services)
-  }
-  
-  // Circuit ID - Special rule: NOT required for AT&T Complex with standard terms (12, 24, 36, MTM)
-  const isATTComplexStandardTerms = (normalizedProductType === 'AT&T Complex' || normalizedProductType === 'AT&T-Complex') && 
-                                   ['12', '24', '36', 'MTM'].includes(normalizedTerm)
-  
-  if (isATTComplexStandardTerms) {
-    console.log('⚠️  Circuit ID NOT required for AT&T Complex with standard terms')
-  } else {
-    if (isFieldEmpty(dealData.Circuit_Id)) {
-      missingFields.push('Circuit ID')
-      console.log('❌ Missing: Circuit ID')
-    } else {
-      console.log('✅ Found: Circuit ID =', dealData.Circuit_Id)
-    }
+/**
+ * Blocking issues for Deal fields the product type, term and request type require
+ * @param productType - Product type of the contract product
+ * @param term - Term of the contract product
+ * @param deal - The deal to validate
+ * @param requestType - PM Request type (defaults to 'Contract')
+ */
+export function getRequiredFieldIssues(
+  productType: string,
+  term: string,
+  deal: Deal,
+  requestType: PMRequestType = 'Contract'
+): ValidationIssue[] {
+  const requiredFields = getRequiredDealFields(productType, term)
+  for (const field of getRequestTypeRule(requestType).requiredFields) {
+    if (!requiredFields.includes(field)) requiredFields.push(field)
   }
 
-  return missingFields
+  return requiredFields
+    .filter(field => isFieldEmpty(deal[field]))
+    .map(field => ({
+      severity: 'error',
+      code: 'MISSING_REQUIRED_FIELD',
+      message: `${REQUIRED_FIELD_LABELS[field]} is required`,
+      field: DEAL_FIELD_API_NAMES[field]
+    }))
 }
 
 /**
- * Validates product-specific required fields based on product type and term combinations
+ * Non-blocking issues; a check is skipped when its input is not known
+ * @param input - Contact phone, addresses and MRC of the request
  */
-function validateProductSpecificFields(
-  dealData: DealDataInput, 
-  normalizedProductType: string, 
-  normalizedTerm: string
-): string[] {
-  const missingFields: string[] = []
-  const isFieldEmpty = (value: string | undefined | null): boolean => {
-    return !value || value.toString().trim() === ''
-  }
+export function getPMRequestWarnings(input: PMRequestValidationInput): ValidationIssue[] {
+  const warnings: ValidationIssue[] = []
 
-  console.log('📋 Checking product-specific required fields...')
-  
-  // Debug: Show exact comparison values
-  console.log('🔍 Debug - Comparison Values:', {
-    normalizedProductType,
-    normalizedTerm,
-    isATTComplex: normalizedProductType === 'AT&T Complex',
-    isACCComplex: normalizedProductType === 'ACC Complex',
-    isStandardTerm: ['12', '24', '36', 'MTM'].includes(normalizedTerm),
-    isRenewalTerm: ['12 Renewal', '24 Renewal', '36 Renewal'].includes(normalizedTerm),
-    availableStandardTerms: ['12', '24', '36', 'MTM'],
-    availableRenewalTerms: ['12 Renewal', '24 Renewal', '36 Renewal']
-  })
-
-  // AT&T Complex with standard terms
-  if (isATTComplexWithStandardTerms(normalizedProductType, normalizedTerm)) {
-    console.log('📋 ✅ CONDITION MATCHED: AT&T Complex with standard terms...')
-    if (isFieldEmpty(dealData.Data_Interface_Type)) {
-      missingFields.push('Requested Data Hand-Off')
-      console.log('❌ Missing: Requested Data Hand-Off')
-    } else {
-      console.log('✅ Found: Requested Data Hand-Off =', dealData.Data_Interface_Type)
-    }
+  const requestTypeRule = getRequestTypeRule(input.requestType ?? 'Contract')
+  if (requestTypeRule.dealFlag && !requestTypeRule.dealFlag.isSet(input.deal)) {
+    warnings.push({
+      severity: 'warning',
+      code: 'REQUEST_TYPE_NOT_FLAGGED',
+      message: `The deal is not marked for a ${requestTypeRule.label} request (${requestTypeRule.dealFlag.fields.join(' / ')})`,
+      field: requestTypeRule.dealFlag.fields[0]
+    })
   }
-  
-  // ACC Complex with standard terms
-  if (isACCComplexWithStandardTerms(normalizedProductType, normalizedTerm)) {
-    console.log('📋 ✅ CONDITION MATCHED: ACC Complex with standard terms...')
-    if (isFieldEmpty(dealData.Data_Interface_Type)) {
-      missingFields.push('Requested Data Hand-Off')
-      console.log('❌ Missing: Requested Data Hand-Off')
-    } else {
-      console.log('✅ Found: Requested Data Hand-Off =', dealData.Data_Interface_Type)
-    }
+
+  if (input.contactPhone !== undefined && isFieldEmpty(input.contactPhone)) {
+    warnings.push({
+      severity: 'warning',
+      code: 'CONTACT_WITHOUT_PHONE',
+      message: 'The PM Request contact has no phone number',
+      field: 'Phone'
+    })
   }
-  
-  // AT&T Complex with renewal terms
-  if (isATTComplexWithRenewalTerms(normalizedProductType, normalizedTerm)) {
-    console.log('📋 ✅ CONDITION MATCHED: AT&T Complex with renewal terms...')
-    if (isFieldEmpty(dealData.Contract_ID_ADIVB_Number)) {
-      missingFields.push('Contract ID Number / ADIVB Number')
-      console.log('❌ Missing: Contract ID Number / ADIVB Number')
-    } else {
-      console.log('✅ Found: Contract ID Number / ADIVB Number =', dealData.Contract_ID_ADIVB_Number)
-    }
+
+  const { serviceAddress = '', billingAddress = '' } = input.addresses ?? {}
+  if (serviceAddress && normalizeAddress(serviceAddress) === normalizeAddress(billingAddress)) {
+    warnings.push({
+      severity: 'warning',
+      code: 'BILLING_EQUALS_SERVICE_ADDRESS',
+      message: 'Billing address is the same as the service address',
+      field: 'Service_Street'
+    })
   }
-  
-  // ACC Complex with renewal terms
-  if (isACCComplexWithRenewalTerms(normalizedProductType, normalizedTerm)) {
-    console.log('📋 ✅ CONDITION MATCHED: ACC Complex with renewal terms...')
-    if (isFieldEmpty(dealData.Contract_ID_ADIVB_Number)) {
-      missingFields.push('Contract ID Number / ADIVB Number')
-      console.log('❌ Missing: Contract ID Number / ADIVB Number')
-    } else {
-      console.log('✅ Found: Contract ID Number / ADIVB Number =', dealData.Contract_ID_ADIVB_Number)
-    }
+
+  if (input.mrcTotal !== undefined && input.mrcTotal === 0) {
+    warnings.push({
+      severity: 'warning',
+      code: 'ZERO_MRC',
+      message: 'MRC of the contract product group is $0',
+      field: 'Total_Pricing'
+    })
   }
 
-  return missingFields
+  return warnings
 }
 
 /**
- * Product type and term validation helpers
+ * Splits issues into blocking errors and warnings
  */
-function isATTComplexWithStandardTerms(productType: string, term: string): boolean {
-  return (productType === 'AT&T Complex' || productType === 'AT&T-Complex') && 
-         ['12', '24', '36', 'MTM'].includes(term)
-}
-
-function isACCComplexWithStandardTerms(productType: string, term: string): boolean {
-  return (productType === 'ACC Complex' || productType === 'ACC-Complex') && 
-         ['12', '24', '36', 'MTM'].includes(term)
+export function partitionValidationIssues(issues: ValidationIssue[]): {
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+} {
+  return {
+    errors: issues.filter(issue => issue.severity === 'error'),
+    warnings: issues.filter(issue => issue.severity === 'warning')
+  }
 }
 
-function isATTComplexWithRenewalTerms(productType: string, term: string): boolean {
-  return (productType === 'AT&T Complex' || productType === 'AT&T-Complex') && 
-         ['12 Renewal', '24 Renewal', '36 Renewal'].includes(term)
+function normalizeAddress(address: string): string {
+  return address.replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
 }
 
-function isACCComplexWithRenewalTerms(productType: string, term: string): boolean {
-  return (productType === 'ACC Complex' || productType === 'ACC-Complex') && 
-         ['12 Renewal', '24 Renewal', '36 Renewal'].includes(term)
+function isFieldEmpty(value: string | undefined | null): boolean {
+  return !value || value.toString().trim() === ''
 }
 
 /**
@@ -0,0 +1,172 @@
+import type { ZohoCurrentUser } from '../types'
+import { ZohoPermissionError, ZohoValidationError } from '../errors'
+import type { ValidationIssue } from './pmRequestValidation'
+
+/**
+ * Validation Override Module
+ * Lets an authorized CRM user (by profile or role) create a PM Request although some required
+ * Deal fields are missing - e.g. when the PM agreed to start before the Circuit ID is known.
+ * The overridden fields, the reason and the user are appended to Request_Descriptions for audit.
+ */
+
+export interface ValidationOverrideConfig {
+  // CRM profiles allowed to override (e.g. "Administrator")
+  allowedProfiles: string[]
+  // CRM roles allowed to override, in addition to the profiles
+  allowedRoles: string[]
+  // Deal API names of the required fields that may be overridden
+  overridableFields: string[]
+}
+
+export interface ValidationOverride {
+  // Deal API names of the missing fields the user chose to override
+  fields: string[]
+  reason: string
+}
+
+export const DEFAULT_VALIDATION_OVERRIDE_CONFIG: ValidationOverrideConfig = {
+  allowedProfiles: ['Administrator'],
+  allowedRoles: [],
+  overridableFields: ['Circuit_Id', 'Contract_ID_ADIVB_Number']
+}
+
+let activeConfig: ValidationOverrideConfig = DEFAULT_VALIDATION_OVERRIDE_CONFIG
+
+/**
+ * Returns the active override configuration
+ */
+export function getValidationOverrideConfig(): ValidationOverrideConfig {
+  return activeConfig
+}
+
+/**
+ * Replaces the override configuration (missing sections fall back to the defaults)
+ * @param config - New configuration, or null to restore the defaults
+ */
+export function setValidationOverrideConfig(config: Partial<ValidationOverrideConfig> | null): void {
+  activeConfig = config
+    ? { ...DEFAULT_VALIDATION_OVERRIDE_CONFIG, ...config }
+    : DEFAULT_VALIDATION_OVERRIDE_CONFIG
+  console.log('⚙️ Validation override settings updated:', activeConfig)
+}
+
+/**
+ * Parses an override configuration from JSON (e.g. the VITE_VALIDATION_OVERRIDE variable)
+ * @param json - JSON object with optional allowedProfiles, allowedRoles and overridableFields
+ * @returns Partial configuration for setValidationOverrideConfig
+ * @throws Error when the JSON is malformed or a section is not an array of strings
+ */
+export function parseValidationOverrideConfig(json: string): Partial<ValidationOverrideConfig> {
+  const parsed: unknown = JSON.parse(json)
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Validation override settings must be a JSON object')
+  }
+
+  const raw = parsed as Record<string, unknown>
+  const config: Partial<ValidationOverrideConfig> = {}
+
+  for (const key of ['allowedProfiles', 'allowedRoles', 'overridableFields'] as const) {
+    if (raw[key] === undefined) continue
+    if (!isStringList(raw[key])) throw new Error(`"${key}" must be an array of strings`)
+    config[key] = raw[key]
+  }
+
+  return config
+}
+
+/**
+ * Checks whether a user may override required fields (profile or role match, ignoring case)
+ * @param user - Current CRM user
+ * @param config - Configuration to apply (defaults to the active one)
+ */
+export function canOverrideValidation(
+  user: ZohoCurrentUser | null,
+  config: ValidationOverrideConfig = getValidationOverrideConfig()
+): boolean {
+  if (!user) return false
+  return includesIgnoringCase(config.allowedProfiles, user.profile) ||
+    includesIgnoringCase(config.allowedRoles, user.role)
+}
+
+/**
+ * Checks whether a validation issue can be overridden
+ * Only missing required fields listed in overridableFields qualify; warnings never need it
+ * @param issue - Blocking validation issue
+ * @param config - Configuration to apply (defaults to the active one)
+ */
+export function isOverridableIssue(
+  issue: ValidationIssue,
+  config: ValidationOverrideConfig = getValidationOverrideConfig()
+): boolean {
+  return issue.severity === 'error' &&
+    issue.code === 'MISSING_REQUIRED_FIELD' &&
+    !!issue.field &&
+    config.overridableFields.includes(issue.field)
+}
+
+/**
+ * Applies a user's override to the blocking issues
+ * @param issues - Blocking issues from validation
+ * @param override - Fields to override and the reason
+ * @param user - Current CRM user
+ * @param config - Configuration to apply (defaults to the active one)
+ * @returns Issues still blocking the request, and the issues that were overridden
+ * @throws ZohoPermissionError when the user may not override,
+ *         ZohoValidationError when the reason is empty
+ */
+export function applyValidationOverride(
+  issues: ValidationIssue[],
+  override: ValidationOverride,
+  user: ZohoCurrentUser,
+  config: ValidationOverrideConfig = getValidationOverrideConfig()
+): { remaining: ValidationIssue[]; overridden: ValidationIssue[] } {
+  if (!canOverrideValidation(user, config)) {
+    throw new ZohoPermissionError(
+      `${user.name || user.id} (${user.profile || 'no profile'}) is not allowed to override required fields`,
+      { code: 'OVERRIDE_NOT_ALLOWED', operation: 'generatePMRequest' }
+    )
+  }
+  if (!override.reason.trim()) {
+    throw new ZohoValidationError('A reason is required to override required fields', {
+      code: 'OVERRIDE_REASON_REQUIRED',
+      operation: 'generatePMRequest'
+    })
+  }
+
+  const overridden = issues.filter(issue =>
+    isOverridableIssue(issue, config) && override.fields.includes(issue.field ?? '')
+  )
+  const remaining = issues.filter(issue => !overridden.includes(issue))
+
+  return { remaining, overridden }
+}
+
+/**
+ * Builds the audit note appended to Request_Descriptions
+ * @param overridden - Issues that were overridden
+ * @param reason - Reason entered by the user
+ * @param user - User who overrode them
+ * @param date - When the override happened (defaults to now)
+ */
+export function formatOverrideAudit(
+  overridden: ValidationIssue[],
+  reason: string,
+  user: ZohoCurrentUser,
+  date: Date = new Date()
+): string {
+  return [
+    '--- Required field override ---',
+    `Overridden: ${overridden.map(issue => issue.field).join(', ')}`,
+    `Reason: ${reason.trim()}`,
+    `By: ${user.name || user.id}${user.profile ? ` (${user.profile})` : ''} on ${date.toISOString()}`
+  ].join('\n')
+}
+
+function includesIgnoringCase(values: string[], value: string): boolean {
+  const wanted = value.trim().toLowerCase()
+  return !!wanted && values.some(candidate => candidate.trim().toLowerCase() === wanted)
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
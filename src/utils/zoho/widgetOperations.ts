@@ -4,6 +4,7 @@
  */
 
 import { updateContractProductField } from './productOperations'
+import { getZohoClient, type ZohoClient } from './client'
 
 /**
  * Closes widget and notifies client script using $Client.close API
@@ -70,17 +71,59 @@ export function reloadWidget(message?: string): void {
   }
 }
 
+/**
+ * Opens a CRM record (e.g. the created PM Request) in the Zoho UI
+ * @param entity - Module API name, e.g. 'PM_REQUEST'
+ * @param recordId - ID of the record to open
+ */
+export async function openRecord(entity: string, recordId: string): Promise<void> {
+  console.log(`🔗 Opening ${entity} record:`, recordId)
+
+  try {
+    if (!window.ZOHO?.CRM?.UI?.Record?.open) {
+      throw new Error('ZOHO.CRM.UI.Record.open is not available')
+    }
+    await window.ZOHO.CRM.UI.Record.open({ Entity: entity, RecordID: recordId })
+  } catch (error) {
+    console.error(`❌ Failed to open ${entity}/${recordId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Downloads a generated file (e.g. a PM Request export) from the widget
+ * @param file - File name, MIME type and text content
+ */
+export function downloadFile(file: { filename: string; mimeType: string; content: string }): void {
+  console.log('💾 Downloading file:', file.filename)
+
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }))
+  try {
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.filename
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+  } finally {
+    // Revoke after the click has been handled
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+}
+
 /**
  * Updates Contract_Product field and closes widget
  * This function updates the deal's Contract_Product field before closing
  * @param dealId - The Zoho Deal ID
  * @param contractProductValue - Value to set for Contract_Product field
  * @param message - Optional message to log
+ * @param client - Zoho transport (defaults to the SDK client)
  */
 export async function updateContractProductAndClose(
   dealId: string,
   contractProductValue: boolean,
-  message?: string
+  message?: string,
+  client: ZohoClient = getZohoClient()
 ): Promise<void> {
   if (message) {
     console.log(message)
@@ -92,7 +135,7 @@ export async function updateContractProductAndClose(
   
   try {
     // Update the field
-    await updateContractProductField(dealId, contractProductValue)
+    await updateContractProductField(dealId, contractProductValue, client)
     
     // Close widget after successful update
     closeWidget('Contract_Product field updated, closing widget')
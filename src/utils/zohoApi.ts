@@ -4,10 +4,23 @@
  * 
  * The Zoho functionality has been split into separate modules:
  * - zoho/core.ts - Core utilities and helper functions
+ * - zoho/client.ts - Injectable ZohoClient transport over the Zoho SDK
+ * - zoho/errors.ts - Typed ZohoApiError hierarchy
+ * - zoho/schema/ - Runtime decoders for Zoho payloads
+ * - zoho/deal/ - Adapters from raw Zoho deals to the Deal domain model
  * - zoho/types.ts - TypeScript interfaces and types
  * - zoho/dealOperations.ts - Deal and contact fetching operations
+ * - zoho/contact/contactRoles.ts - Paginated Deal Contact Roles fetcher
+ * - zoho/contact/contactRolePriority.ts - Configurable Contact Role order for contact resolution
+ * - zoho/contact/contactCandidates.ts - Candidate contacts for the PM Request contact picker
+ * - zoho/rules/ - Product type x term rules table and request type rules for validation and product processing
+ * - zoho/validation/ - PM Request errors/warnings and the permission-gated required field override
+ * - zoho/assignment/pmAssignment.ts - Rule-based Assigned_PM selection
  * - zoho/productOperations.ts - Product contract status operations
- * - zoho/pmRequestOperations.ts - PM Request generation
+ * - zoho/pmRequest/descriptionTemplate.ts - Configurable Request_Descriptions templates per request type
+ * - zoho/pmRequest/pmRequestExport.ts - JSON, CSV and Markdown export of a prepared PM Request
+ * - zoho/pmRequest/pmRequestSummaryPdf.ts - Printable contract summary PDF attached to the PM Request
+ * - zoho/pmRequestOperations.ts - PM Request generation (one request, or a batch of one per product group)
  * - zoho/widgetOperations.ts - Widget control operations
  * - zoho/index.ts - Main export file
  */
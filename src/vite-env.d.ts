@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ZOHO_SIMULATOR?: string
+  readonly VITE_ZOHO_SIMULATOR_DEAL?: string
+  readonly VITE_CONTACT_ROLE_PRIORITY?: string
+  readonly VITE_PM_ASSIGNMENT_RULES?: string
+  readonly VITE_VALIDATION_OVERRIDE?: string
+  readonly VITE_PM_REQUEST_DESCRIPTION_TEMPLATES?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}